@@ -0,0 +1,30 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ALLOWED_ORIGIN, RATE_LIMIT_HEADERS } from '../server/api-access.js'
+
+type QueryValue = string | string[] | undefined
+
+export function normalizeQueryValue(value: QueryValue): string | undefined {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value[0]
+  return undefined
+}
+
+export function readQuery(
+  query: VercelRequest['query'],
+  keys: readonly string[]
+): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const key of keys) {
+    const value = normalizeQueryValue(query[key])
+    if (value !== undefined) values[key] = value
+  }
+  return values
+}
+
+export function applyCors(res: VercelResponse, methods = 'GET,OPTIONS'): void {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN)
+  res.setHeader('Access-Control-Allow-Methods', methods)
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key')
+  res.setHeader('Access-Control-Expose-Headers', [...RATE_LIMIT_HEADERS, 'X-Cache'].join(', '))
+  res.setHeader('Access-Control-Max-Age', '86400')
+}
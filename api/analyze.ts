@@ -1,36 +1,48 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 
 import {
+  analyzeHtml,
+  analyzeHtmlSchema,
   analyzeQuerySchema,
-  analyzeUrl,
   mapAnalysisError
 } from '../server/analysis-service.js'
-
-interface AnalyzeQuery {
-  url?: string
-}
-
-type QueryValue = string | string[] | undefined
-
-const allowOrigin = process.env['ANALYZER_ALLOW_ORIGIN'] ?? '*'
+import { analyzeUrlCached } from '../server/analysis-cache.js'
+import { enforceApiAccess } from '../server/api-access.js'
+import { applyCors, readQuery } from './_shared.js'
 
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ): Promise<void> {
-  applyCors(res)
+  applyCors(res, 'GET,POST,OPTIONS')
 
   if (req.method === 'OPTIONS') {
     res.status(204).end()
     return
   }
 
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method === 'POST') {
+    await handleHtmlAnalysis(req, res)
+    return
+  }
+
   if (req.method !== 'GET') {
     res.status(405).json({ error: 'Method not allowed' })
     return
   }
 
-  const query = toAnalyzeQuery(req.query)
+  const query = readQuery(req.query, [
+    'url',
+    'profile',
+    'alternates',
+    'canonical',
+    'images',
+    'links',
+    'render',
+    'fresh'
+  ])
   const validation = analyzeQuerySchema.safeParse(query)
 
   if (!validation.success) {
@@ -42,7 +54,17 @@ export default async function handler(
   }
 
   try {
-    const analysis = await analyzeUrl(validation.data.url)
+    const { url, profile, alternates, canonical, images, links, render, fresh } = validation.data
+    const analysis = await analyzeUrlCached(url, {
+      profile,
+      checkAlternates: alternates,
+      checkCanonical: canonical,
+      checkImages: images,
+      checkLinks: links,
+      render,
+      fresh
+    })
+    res.setHeader('X-Cache', analysis.cache.status.toUpperCase())
     res.status(200).json(analysis)
   } catch (error) {
     const { statusCode, payload } = mapAnalysisError(error)
@@ -50,21 +72,30 @@ export default async function handler(
   }
 }
 
-function toAnalyzeQuery(query: VercelRequest['query']): AnalyzeQuery {
-  const urlParam = normalizeQueryValue(query['url'])
-  return urlParam === undefined ? {} : { url: urlParam }
-}
+async function handleHtmlAnalysis(req: VercelRequest, res: VercelResponse): Promise<void> {
+  const validation = analyzeHtmlSchema.safeParse(req.body ?? {})
 
-function normalizeQueryValue(value: QueryValue): string | undefined {
-  if (typeof value === 'string') return value
-  if (Array.isArray(value)) return value[0]
-  return undefined
-}
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid HTML payload',
+      details: validation.error.flatten()
+    })
+    return
+  }
 
-function applyCors(res: VercelResponse): void {
-  res.setHeader('Access-Control-Allow-Origin', allowOrigin)
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS')
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
-  res.setHeader('Access-Control-Max-Age', '86400')
+  try {
+    const { html, baseUrl, profile, checkAlternates, checkCanonical, checkImages, checkLinks } =
+      validation.data
+    const analysis = await analyzeHtml(html, baseUrl, {
+      profile,
+      checkAlternates,
+      checkCanonical,
+      checkImages,
+      checkLinks
+    })
+    res.status(200).json(analysis)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
 }
-
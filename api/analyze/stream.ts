@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { analyzeQuerySchema } from '../../server/analysis-service.js'
+import { streamAnalysis } from '../../server/analysis-stream.js'
+import { enforceApiAccess } from '../../server/api-access.js'
+import { applyCors, readQuery } from '../_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res)
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  const query = readQuery(req.query, [
+    'url',
+    'profile',
+    'alternates',
+    'canonical',
+    'images',
+    'links',
+    'render',
+    'fresh'
+  ])
+  const validation = analyzeQuerySchema.safeParse(query)
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid URL',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { url, profile, alternates, canonical, images, links, render, fresh } = validation.data
+  await streamAnalysis(res, url, {
+    profile,
+    checkAlternates: alternates,
+    checkCanonical: canonical,
+    checkImages: images,
+    checkLinks: links,
+    render,
+    fresh
+  })
+}
@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { mapAnalysisError } from '../server/analysis-service.js'
+import { enforceApiAccess } from '../server/api-access.js'
+import { compareRequestSchema, compareSources } from '../server/compare-service.js'
+import { applyCors } from './_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res, 'POST,OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  const validation = compareRequestSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid comparison request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    const { before, after, profile } = validation.data
+    res.status(200).json(await compareSources(before, after, { profile }))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+}
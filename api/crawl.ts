@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { mapAnalysisError } from '../server/analysis-service.js'
+import { enforceApiAccess } from '../server/api-access.js'
+import { crawlQuerySchema, crawlSite } from '../server/crawl-service.js'
+import { applyCors, readQuery } from './_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res)
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  const validation = crawlQuerySchema.safeParse(
+    readQuery(req.query, ['url', 'depth', 'limit', 'profile'])
+  )
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid crawl request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { url, depth, limit, profile } = validation.data
+
+  try {
+    const report = await crawlSite(url, { maxDepth: depth, maxPages: limit, profile })
+    res.status(200).json(report)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+}
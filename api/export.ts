@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { mapAnalysisError } from '../server/analysis-service.js'
+import { enforceApiAccess } from '../server/api-access.js'
+import { exportReport, exportRequestSchema } from '../server/report-export.js'
+import { applyCors } from './_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res, 'POST,OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  const validation = exportRequestSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid export request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    const report = await exportReport(validation.data)
+    res.setHeader('Content-Type', report.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`)
+    res.status(200).send(report.body)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+}
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { mapAnalysisError } from '../../server/analysis-service.js'
+import { enforceApiAccess } from '../../server/api-access.js'
+import { getHistoryAnalysis } from '../../server/history-store.js'
+import { applyCors, normalizeQueryValue } from '../_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res)
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  try {
+    const id = normalizeQueryValue(req.query['id']) ?? ''
+    const analysis = await getHistoryAnalysis(id)
+    if (!analysis) {
+      res.status(404).json({ error: 'Analysis not found' })
+      return
+    }
+    res.status(200).json(analysis)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+}
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { mapAnalysisError } from '../../server/analysis-service.js'
+import { enforceApiAccess } from '../../server/api-access.js'
+import { historyQuerySchema, listHistory } from '../../server/history-store.js'
+import { applyCors, readQuery } from '../_shared.js'
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  applyCors(res)
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).end()
+    return
+  }
+
+  if (!(await enforceApiAccess(req, res))) return
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' })
+    return
+  }
+
+  const validation = historyQuerySchema.safeParse(readQuery(req.query, ['url', 'limit']))
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid history request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    res.status(200).json(await listHistory(validation.data.url, validation.data.limit))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+}
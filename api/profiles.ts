@@ -0,0 +1,7 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+import { listScoringProfiles } from '../server/scoring-profiles.js'
+
+export default function handler(_req: VercelRequest, res: VercelResponse): void {
+  res.status(200).json(listScoringProfiles())
+}
@@ -0,0 +1,175 @@
+import type {
+  AnalysisCacheInfo,
+  AnalysisProgress,
+  CacheStatus,
+  SeoAnalysis
+} from '../shared/analysis-types.js'
+import { USER_AGENT, analyzeUrl, type AnalysisOptions } from './analysis-service.js'
+import { guardedFetch } from './fetch-guard.js'
+import { tryRecordAnalysis } from './history-store.js'
+
+const MAX_CACHE_ENTRIES = 200
+
+/** `ANALYZER_CACHE_TTL_SECONDS=0` turns the cache off. */
+const ttlMs = readTtlSeconds() * 1000
+
+function readTtlSeconds(): number {
+  const value = Number.parseInt(process.env['ANALYZER_CACHE_TTL_SECONDS'] ?? '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : 300
+}
+
+export interface CachedAnalysisOptions extends AnalysisOptions {
+  /** Skip the cached analysis and replace it with a new one; social images are refetched too. */
+  fresh?: boolean | undefined
+}
+
+export type CachedAnalysis = SeoAnalysis & { cache: AnalysisCacheInfo }
+
+interface CacheEntry {
+  analysis: SeoAnalysis
+  storedAt: number
+  expiresAt: number
+}
+
+/** Insertion order doubles as recency: entries are re-inserted when used. */
+const entries = new Map<string, CacheEntry>()
+interface PendingAnalysis {
+  request: Promise<CacheEntry>
+  /** Progress so far, replayed to callers that join late. */
+  progress: AnalysisProgress[]
+  listeners: Set<(progress: AnalysisProgress) => void>
+}
+
+/** Identical requests arriving while a page is being analyzed share that analysis and its progress. */
+const pending = new Map<string, PendingAnalysis>()
+
+/**
+ * `analyzeUrl` behind an in-memory cache. Fresh entries are served as-is;
+ * expired ones are revalidated with a conditional request built from the
+ * page's `ETag` and `Last-Modified`, and reused when the page answers 304.
+ * Revalidation only covers the page itself, not the links, images and
+ * alternates the optional checks requested. Every newly fetched analysis is
+ * recorded in the history once, however many callers shared it; cached
+ * answers are already there.
+ */
+export async function analyzeUrlCached(
+  url: string,
+  options: CachedAnalysisOptions = {}
+): Promise<CachedAnalysis> {
+  const { fresh = false, onProgress, ...analysisOptions } = options
+
+  // Custom rule registries cannot be told apart in the cache key.
+  if (ttlMs === 0 || analysisOptions.registry) {
+    const analysis = await analyzeUrl(url, { ...analysisOptions, fresh, onProgress })
+    await tryRecordAnalysis(analysis)
+    return { ...analysis, cache: { status: 'bypass', storedAt: analysis.fetchedAt } }
+  }
+
+  const key = cacheKey(url, analysisOptions)
+  const cached = entries.get(key)
+  if (cached && !fresh) {
+    if (cached.expiresAt > Date.now()) {
+      remember(key, cached)
+      return withCacheInfo(cached, 'hit')
+    }
+    if (await isUnchanged(cached.analysis)) {
+      const now = Date.now()
+      const revalidated = { ...cached, storedAt: now, expiresAt: now + ttlMs }
+      remember(key, revalidated)
+      return withCacheInfo(revalidated, 'revalidated')
+    }
+  }
+
+  let shared = pending.get(key)
+  if (!shared) {
+    const progress: AnalysisProgress[] = []
+    const listeners = new Set<(progress: AnalysisProgress) => void>()
+    const request = analyzeUrl(url, {
+      ...analysisOptions,
+      fresh,
+      onProgress: (event) => {
+        progress.push(event)
+        listeners.forEach((listener) => listener(event))
+      }
+    })
+      .then(async (analysis) => {
+        await tryRecordAnalysis(analysis)
+        const now = Date.now()
+        const entry = { analysis, storedAt: now, expiresAt: now + ttlMs }
+        remember(key, entry)
+        return entry
+      })
+      .finally(() => pending.delete(key))
+    shared = { request, progress, listeners }
+    pending.set(key, shared)
+  }
+
+  if (!onProgress) return withCacheInfo(await shared.request, fresh ? 'bypass' : 'miss')
+  shared.progress.forEach(onProgress)
+  shared.listeners.add(onProgress)
+  try {
+    return withCacheInfo(await shared.request, fresh ? 'bypass' : 'miss')
+  } finally {
+    shared.listeners.delete(onProgress)
+  }
+}
+
+/** Normalized URL (no fragment, sorted query) plus every option that changes the result. */
+function cacheKey(url: string, options: AnalysisOptions): string {
+  const normalized = new URL(url)
+  normalized.hash = ''
+  normalized.searchParams.sort()
+  return JSON.stringify([
+    normalized.toString(),
+    options.profile ?? '',
+    options.checkAlternates ?? false,
+    options.checkCanonical ?? false,
+    options.checkImages ?? true,
+    options.checkLinks ?? false,
+    options.render ?? false
+  ])
+}
+
+function remember(key: string, entry: CacheEntry) {
+  entries.delete(key)
+  entries.set(key, entry)
+  if (entries.size > MAX_CACHE_ENTRIES) {
+    const oldest = entries.keys().next().value
+    if (oldest !== undefined) entries.delete(oldest)
+  }
+}
+
+function withCacheInfo(entry: CacheEntry, status: CacheStatus): CachedAnalysis {
+  return {
+    ...entry.analysis,
+    cache: {
+      status,
+      storedAt: new Date(entry.storedAt).toISOString(),
+      expiresAt: new Date(entry.expiresAt).toISOString()
+    }
+  }
+}
+
+/** Conditional GET for the final URL; any failure means the page is fetched again. */
+async function isUnchanged(analysis: SeoAnalysis): Promise<boolean> {
+  const etag = analysis.fetch?.headers['etag']
+  const lastModified = analysis.fetch?.headers['last-modified']
+  if (!etag && !lastModified) return false
+
+  try {
+    const response = await guardedFetch(analysis.finalUrl, {
+      redirect: 'manual',
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml',
+        ...(etag ? { 'If-None-Match': etag } : {}),
+        ...(lastModified ? { 'If-Modified-Since': lastModified } : {})
+      },
+      signal: AbortSignal.timeout(15000)
+    })
+    void response.body?.cancel()
+    return response.status === 304
+  } catch {
+    return false
+  }
+}
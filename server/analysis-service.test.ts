@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { analyzeHtml } from './analysis-service.js'
+
+describe('analyzeHtml', () => {
+  it('keeps the issue ids of rules that predate the registry', async () => {
+    const analysis = await analyzeHtml('<html><head></head><body></body></html>', 'https://acme.test/', {
+      checkImages: false
+    })
+    const ids = analysis.issues.map((issue) => issue.id)
+    assert.ok(ids.includes('meta-title'))
+    assert.ok(ids.includes('meta-meta[name="description"]'))
+    assert.ok(ids.includes('openGraph-meta[property="og:title"]'))
+    assert.ok(ids.includes('twitter-meta[name="twitter:card"]'))
+    assert.ok(ids.includes('openGraph-og-url'))
+    assert.ok(ids.includes('content-h1'))
+  })
+})
@@ -1,6 +1,12 @@
-import { load, type CheerioAPI } from 'cheerio'
+import { load } from 'cheerio'
 import { z } from 'zod'
 import type {
+  AnalysisProgress,
+  AnalysisSource,
+  FetchDiagnostics,
+  ImageDetails,
+  RedirectHop,
+  RichResultPreview,
   SectionId,
   SectionResult,
   SeoAnalysis,
@@ -9,27 +15,94 @@ import type {
   TagResult,
   TagStatus
 } from '../shared/analysis-types.js'
+import { defaultRuleRegistry } from './builtin-rules.js'
+import { safeUrl } from './dom-helpers.js'
+import { assertContentType, guardedFetch, readBodyWithLimit } from './fetch-guard.js'
+import { chromeExecutablePath, renderPage, type RenderedPage } from './headless-render.js'
+import { probeImage, type ImageProbe } from './image-probe.js'
+import { buildIndexability } from './indexability.js'
+import { buildLinkInventory } from './link-audit.js'
+import { buildRichResultPreview } from './rich-results.js'
+import { checkRobotsTxt } from './robots-txt.js'
+import {
+  findScoringProfile,
+  resolveScoringProfile,
+  toProfileReference,
+  weightedScore,
+  type ScoringProfile
+} from './scoring-profiles.js'
+import {
+  SECTION_DEFINITIONS,
+  runRule,
+  type RuleContext,
+  type RuleRegistry
+} from './rule-registry.js'
+import { diffRenderedTags } from './render-comparison.js'
+import { extractStructuredData } from './structured-data.js'
+
+export const httpUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .refine(
+    (value) => {
+      try {
+        const parsed = new URL(value)
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+      } catch {
+        return false
+      }
+    },
+    { message: 'Only HTTP(S) URLs are supported.' }
+  )
+
+export const profileSchema = z
+  .string()
+  .trim()
+  .refine((value) => findScoringProfile(value) !== undefined, {
+    message: 'Unknown scoring profile.'
+  })
+
+/** Query-string boolean: `true`/`1` enable the flag, `false`/`0` disable it. */
+export const queryFlagSchema = z
+  .enum(['true', 'false', '1', '0'])
+  .transform((value) => value === 'true' || value === '1')
 
 export const analyzeQuerySchema = z
   .object({
-    url: z
+    url: httpUrlSchema,
+    profile: profileSchema.optional(),
+    alternates: queryFlagSchema.optional(),
+    canonical: queryFlagSchema.optional(),
+    images: queryFlagSchema.optional(),
+    links: queryFlagSchema.optional(),
+    render: queryFlagSchema.optional(),
+    fresh: queryFlagSchema.optional()
+  })
+  .strict()
+
+export const MAX_HTML_LENGTH = 2_000_000
+
+export const analyzeHtmlSchema = z
+  .object({
+    html: z
       .string()
-      .trim()
-      .url()
-      .refine(
-        (value) => {
-          try {
-            const parsed = new URL(value)
-            return parsed.protocol === 'http:' || parsed.protocol === 'https:'
-          } catch {
-            return false
-          }
-        },
-        { message: 'Only HTTP(S) URLs are supported.' }
-      )
+      .min(1, { message: 'Paste the HTML you want to analyze.' })
+      .max(MAX_HTML_LENGTH, { message: 'HTML is too large to analyze.' }),
+    baseUrl: httpUrlSchema.optional(),
+    profile: profileSchema.optional(),
+    checkAlternates: z.boolean().optional(),
+    checkCanonical: z.boolean().optional(),
+    checkImages: z.boolean().optional(),
+    checkLinks: z.boolean().optional()
   })
   .strict()
 
+const FALLBACK_BASE_URL = 'https://example.com/'
+
+export const USER_AGENT =
+  'Mozilla/5.0 (compatible; SEO-Meta-Analyzer/1.0; +https://github.com/)'
+
 export interface AnalysisErrorPayload {
   error: string
   details?: unknown
@@ -49,21 +122,165 @@ interface FetchResponse extends Awaited<ReturnType<typeof fetch>> {
   readonly ok: boolean
   readonly status: number
   readonly url: string
+  readonly headers: Headers
   readonly text: () => Promise<string>
+  readonly arrayBuffer: () => Promise<ArrayBuffer>
+}
+
+export interface AnalysisOptions {
+  /** Rules to run; defaults to the built-in registry. */
+  registry?: RuleRegistry
+  /** Scoring profile id; defaults to the `default` profile. */
+  profile?: string | undefined
+  /** Fetch hreflang alternates to verify they link back to the page. */
+  checkAlternates?: boolean | undefined
+  /** Fetch the canonical URL to verify it is an indexable 200 page. */
+  checkCanonical?: boolean | undefined
+  /** Fetch social images to validate them; defaults to `true`. */
+  checkImages?: boolean | undefined
+  /** Request every body link to report broken and redirecting links. */
+  checkLinks?: boolean | undefined
+  /** Analyze the DOM after JavaScript ran in a headless browser; URL analyses only. */
+  render?: boolean | undefined
+  /** Refetch social images instead of reusing probes cached by earlier analyses. */
+  fresh?: boolean | undefined
+  /** Called as stages start and partial results become available. */
+  onProgress?: ((progress: AnalysisProgress) => void) | undefined
+}
+
+interface DocumentAnalysisOptions extends AnalysisOptions {
+  source?: AnalysisSource
+  /** Diagnostics of the request that produced `html`, when it was fetched. */
+  fetch?: FetchDiagnostics | undefined
+  /** `finalUrl` is a stand-in because pasted HTML came without a base URL. */
+  placeholderUrl?: boolean
+}
+
+export async function analyzeUrl(
+  targetUrl: string,
+  options: AnalysisOptions = {}
+): Promise<SeoAnalysis> {
+  options.onProgress?.({ type: 'stage', stage: 'fetch' })
+  const { html, finalUrl, diagnostics } = await fetchPage(targetUrl)
+  options.onProgress?.({ type: 'fetched', finalUrl, fetch: diagnostics })
+  if (!options.render) {
+    return analyzeDocument(html, targetUrl, finalUrl, { ...options, fetch: diagnostics })
+  }
+
+  const executablePath = chromeExecutablePath()
+  if (!executablePath) {
+    throw createHttpError(
+      501,
+      'Rendering is not available',
+      'Set ANALYZER_CHROME_PATH to a Chrome or Chromium executable to analyze rendered pages.'
+    )
+  }
+
+  options.onProgress?.({ type: 'stage', stage: 'render' })
+  let rendered: RenderedPage
+  try {
+    rendered = await renderPage(finalUrl, executablePath, USER_AGENT)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw createHttpError(502, 'Unable to render the page', message)
+  }
+
+  // The raw pass only feeds the comparison, so it skips the optional network checks.
+  const [raw, analysis] = await Promise.all([
+    analyzeDocument(html, targetUrl, finalUrl, {
+      ...(options.registry ? { registry: options.registry } : {}),
+      profile: options.profile,
+      checkImages: false,
+      fetch: diagnostics
+    }),
+    analyzeDocument(rendered.html, targetUrl, finalUrl, { ...options, fetch: diagnostics })
+  ])
+
+  return {
+    ...analysis,
+    rendering: {
+      rawScore: raw.summary.overallScore,
+      renderedUrl: rendered.finalUrl,
+      renderMs: rendered.renderMs,
+      changes: diffRenderedTags(raw, analysis)
+    }
+  }
 }
 
-export async function analyzeUrl(targetUrl: string): Promise<SeoAnalysis> {
+export interface FetchedPage {
+  html: string
+  finalUrl: string
+  diagnostics: FetchDiagnostics
+}
+
+/** Hard stop for redirect chains; longer chains are reported as an error. */
+const MAX_REDIRECTS = 10
+
+/** Larger pages are refused instead of being buffered in memory. */
+const MAX_PAGE_BYTES = 5 * 1024 * 1024
+
+const PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml']
+
+/** Response headers copied into `FetchDiagnostics.headers`. */
+const RECORDED_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-encoding',
+  'content-language',
+  'cache-control',
+  'expires',
+  'etag',
+  'last-modified',
+  'age',
+  'vary',
+  'x-robots-tag',
+  'link',
+  'server'
+]
+
+/**
+ * Fetches a page, following redirects manually so every hop's status and
+ * `Location` is recorded alongside timing, headers and body size. Every hop
+ * must pass the fetch guard, and only HTML up to `MAX_PAGE_BYTES` is read.
+ * A redirect loop stops at the hop that closes it and returns an empty page.
+ */
+export async function fetchPage(targetUrl: string): Promise<FetchedPage> {
   try {
-    const response = (await fetch(targetUrl, {
-      redirect: 'follow',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; SEO-Meta-Analyzer/1.0; +https://github.com/)',
-        Accept: 'text/html,application/xhtml+xml'
-      },
-      signal: AbortSignal.timeout(15000)
-    })) as FetchResponse
-
-    if (!response.ok) {
+    const startedAt = performance.now()
+    const redirects: RedirectHop[] = []
+    let currentUrl = targetUrl
+    let requestStartedAt = startedAt
+    let response = await requestPage(currentUrl)
+    let looped = false
+
+    for (;;) {
+      const location = response.headers.get('location')
+      if (!isRedirectStatus(response.status) || !location) break
+
+      const nextUrl = new URL(location, currentUrl).toString()
+      redirects.push({ url: currentUrl, status: response.status, location: nextUrl })
+      void response.body?.cancel()
+
+      // The page is analyzed without a body; the redirect-chain rule reports the loop.
+      if (redirects.some((hop) => hop.url === nextUrl)) {
+        looped = true
+        break
+      }
+      if (redirects.length >= MAX_REDIRECTS) {
+        throw createHttpError(
+          502,
+          'Too many redirects',
+          `Gave up after ${MAX_REDIRECTS} hops: ${describeRedirects(redirects)}`
+        )
+      }
+
+      currentUrl = nextUrl
+      requestStartedAt = performance.now()
+      response = await requestPage(currentUrl)
+    }
+
+    const headersAt = performance.now()
+    if (!looped && !response.ok) {
       throw createHttpError(
         response.status,
         'Unable to fetch the page',
@@ -71,10 +288,28 @@ export async function analyzeUrl(targetUrl: string): Promise<SeoAnalysis> {
       )
     }
 
-    const html = await response.text()
-    const finalUrl = response.url
+    if (!looped) assertContentType(response, currentUrl, PAGE_CONTENT_TYPES)
+    const body = looped
+      ? new Uint8Array()
+      : await readBodyWithLimit(response, currentUrl, MAX_PAGE_BYTES)
+    const finishedAt = performance.now()
 
-    return analyzeDocument(html, targetUrl, finalUrl)
+    return {
+      html: new TextDecoder().decode(body),
+      finalUrl: currentUrl,
+      diagnostics: {
+        status: response.status,
+        redirects,
+        headers: pickHeaders(response.headers),
+        timing: {
+          redirectMs: Math.round(requestStartedAt - startedAt),
+          ttfbMs: Math.round(headersAt - requestStartedAt),
+          downloadMs: Math.round(finishedAt - headersAt),
+          totalMs: Math.round(finishedAt - startedAt)
+        },
+        htmlBytes: body.byteLength
+      }
+    }
   } catch (error) {
     if (isAnalysisHttpError(error)) {
       throw error
@@ -85,6 +320,36 @@ export async function analyzeUrl(targetUrl: string): Promise<SeoAnalysis> {
   }
 }
 
+async function requestPage(url: string): Promise<FetchResponse> {
+  return (await guardedFetch(url, {
+    redirect: 'manual',
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml'
+    },
+    signal: AbortSignal.timeout(15000)
+  })) as FetchResponse
+}
+
+export function isRedirectStatus(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308
+}
+
+function pickHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {}
+  for (const name of RECORDED_HEADERS) {
+    const value = headers.get(name)
+    if (value !== null) picked[name] = value
+  }
+  return picked
+}
+
+function describeRedirects(redirects: RedirectHop[]): string {
+  const [first] = redirects
+  if (!first) return ''
+  return [first.url, ...redirects.map((hop) => hop.location)].join(' → ')
+}
+
 export function mapAnalysisError(error: unknown): AnalysisErrorResponse {
   if (isAnalysisHttpError(error)) {
     const payload: AnalysisErrorPayload =
@@ -105,7 +370,7 @@ export function mapAnalysisError(error: unknown): AnalysisErrorResponse {
   }
 }
 
-function createHttpError(
+export function createHttpError(
   statusCode: number,
   message: string,
   details?: unknown
@@ -118,7 +383,7 @@ function createHttpError(
   return error
 }
 
-function isAnalysisHttpError(error: unknown): error is AnalysisHttpError {
+export function isAnalysisHttpError(error: unknown): error is AnalysisHttpError {
   return (
     typeof error === 'object' &&
     error !== null &&
@@ -127,37 +392,99 @@ function isAnalysisHttpError(error: unknown): error is AnalysisHttpError {
   )
 }
 
-function analyzeDocument(html: string, requestedUrl: string, finalUrl: string): SeoAnalysis {
-  const $ = load(html)
-  const baseUrl = safeUrl(finalUrl) ?? safeUrl(requestedUrl) ?? new URL('https://example.com')
-
-  const metaResults = evaluateMetaSection($, baseUrl)
-  const openGraphResults = evaluateOpenGraphSection($, baseUrl)
-  const twitterResults = evaluateTwitterSection($, baseUrl)
+/**
+ * Analyzes markup supplied directly by the caller (e.g. pages behind auth or
+ * unpublished templates). Relative URLs are resolved against `baseUrl`.
+ */
+export async function analyzeHtml(
+  html: string,
+  baseUrl?: string,
+  options: AnalysisOptions = {}
+): Promise<SeoAnalysis> {
+  const documentUrl = baseUrl ?? FALLBACK_BASE_URL
+  return analyzeDocument(html, documentUrl, documentUrl, {
+    ...options,
+    source: 'html',
+    placeholderUrl: baseUrl === undefined
+  })
+}
 
-  const sections: SectionResult[] = [
-    { id: 'meta', label: 'Technical meta tags', ...metaResults },
-    { id: 'openGraph', label: 'Open Graph', ...openGraphResults },
-    { id: 'twitter', label: 'Twitter Card', ...twitterResults }
-  ]
+export async function analyzeDocument(
+  html: string,
+  requestedUrl: string,
+  finalUrl: string,
+  options: DocumentAnalysisOptions = {}
+): Promise<SeoAnalysis> {
+  const { registry = defaultRuleRegistry, source = 'url', checkImages = true, onProgress } = options
+  const profile = resolveScoringProfile(options.profile)
+  const probeOptions = { since: options.fresh ? Date.now() : undefined }
+  const probe = (url: string) => probeImage(url, probeOptions)
+  onProgress?.({ type: 'stage', stage: 'parse' })
+  const $ = load(html)
+  const baseUrl = safeUrl(finalUrl) ?? safeUrl(requestedUrl) ?? new URL(FALLBACK_BASE_URL)
+  if (options.fetch) onProgress?.({ type: 'stage', stage: 'robots' })
+  const robotsTxt = options.fetch ? await checkRobotsTxt(baseUrl) : undefined
+  const indexability = buildIndexability($, options.fetch, robotsTxt)
+  onProgress?.({ type: 'stage', stage: 'links' })
+  const links = await buildLinkInventory($, baseUrl, {
+    check: options.checkLinks ?? false,
+    skipOrigin: options.placeholderUrl ? baseUrl.origin : undefined
+  })
+  onProgress?.({ type: 'links', links })
+  const context: RuleContext = {
+    $,
+    baseUrl,
+    profile,
+    indexability,
+    links,
+    ...(options.placeholderUrl ? {} : { pageUrl: baseUrl }),
+    ...(options.fetch ? { fetch: options.fetch } : {}),
+    ...(checkImages || options.checkAlternates || options.checkCanonical
+      ? {
+          network: {
+            fetchPage,
+            probeImage: probe,
+            alternates: options.checkAlternates ?? false,
+            canonical: options.checkCanonical ?? false,
+            images: checkImages
+          }
+        }
+      : {})
+  }
+
+  onProgress?.({ type: 'stage', stage: 'sections' })
+  const evaluated = await Promise.all(
+    SECTION_DEFINITIONS.map(async ({ id, label }) => {
+      const results = await Promise.all(registry.list(id).map((rule) => runRule(rule, context)))
+      const tags = results.filter((tag): tag is TagResult => tag !== undefined)
+      if (!tags.length) return []
+      const section: SectionResult = { id, label, ...summarizeSection(tags, profile) }
+      onProgress?.({ type: 'section', section })
+      return [section]
+    })
+  )
+  const sections: SectionResult[] = evaluated.flat()
 
   const sectionScores = sections.reduce<Record<SectionId, number>>((acc, section) => {
     acc[section.id] = section.score
     return acc
-  }, { meta: 0, openGraph: 0, twitter: 0 })
+  }, { meta: 0, openGraph: 0, twitter: 0, structuredData: 0, i18n: 0, http: 0, content: 0, links: 0 })
 
-  const overallScore = Math.round(
-    sections.reduce((sum, { score }) => sum + score, 0) / sections.length
+  const overallScore = weightedScore(
+    sections.map(({ id, score }) => ({ score, weight: profile.sectionWeights[id] ?? 1 }))
   )
 
   const summaryStatus = deriveSummaryStatus(sections)
 
+  const legacyIds = new Map(
+    registry.list().flatMap((rule) => (rule.legacyId ? [[rule.id, rule.legacyId] as const] : []))
+  )
   const issues = sections
     .flatMap((section) =>
       section.tags
         .filter((tag) => tag.status !== 'ok')
         .map<SeoIssue>((tag) => ({
-          id: `${section.id}-${tag.tag}`,
+          id: `${section.id}-${legacyIds.get(tag.id) ?? tag.id}`,
           tag: tag.label,
           section: section.id,
           severity: tag.status,
@@ -175,84 +502,41 @@ function analyzeDocument(html: string, requestedUrl: string, finalUrl: string):
     )
     .filter((value, index, array) => array.indexOf(value) === index)
 
-  const previews = buildPreviews(sections, finalUrl, baseUrl)
+  const richResult = buildRichResultPreview(extractStructuredData($).items, baseUrl)
+  const basePreviews = buildPreviews(sections, finalUrl, baseUrl, richResult)
+  if (checkImages) onProgress?.({ type: 'stage', stage: 'images' })
+  const previews = checkImages
+    ? await attachImageDetails(basePreviews, probe, options.placeholderUrl ? baseUrl : undefined)
+    : basePreviews
 
   return {
     url: requestedUrl,
     finalUrl,
+    source,
     fetchedAt: new Date().toISOString(),
     summary: {
       overallScore,
       status: summaryStatus,
-      sectionScores
+      sectionScores,
+      profile: toProfileReference(profile),
+      indexability
     },
     sections,
     issues,
     missing,
-    previews
+    previews,
+    links,
+    ...(options.fetch ? { fetch: options.fetch } : {})
   }
 }
 
-function evaluateMetaSection($: CheerioAPI, baseUrl: URL): Omit<SectionResult, 'id' | 'label'> {
-  const title = normalizeText($('title').first().text())
-  const description = getMeta($, 'description')
-  const keywords = getMeta($, 'keywords')
-  const canonical = getCanonical($, baseUrl)
-  const robots = getMeta($, 'robots')
-
-  const tags: TagResult[] = [
-    evaluateTitle(title),
-    evaluateDescription(description),
-    evaluateKeywords(keywords),
-    evaluateCanonical(canonical, baseUrl),
-    evaluateRobots(robots)
-  ]
-
-  return summarizeSection(tags)
-}
-
-function evaluateOpenGraphSection(
-  $: CheerioAPI,
-  baseUrl: URL
+function summarizeSection(
+  tags: TagResult[],
+  profile: ScoringProfile
 ): Omit<SectionResult, 'id' | 'label'> {
-  const ogTitle = getProperty($, 'og:title')
-  const ogDescription = getProperty($, 'og:description')
-  const ogImage = getProperty($, 'og:image')
-  const ogUrl = resolveMaybeUrl(getProperty($, 'og:url'), baseUrl)
-  const ogType = getProperty($, 'og:type')
-
-  const tags: TagResult[] = [
-    evaluateOpenGraphTitle(ogTitle),
-    evaluateOpenGraphDescription(ogDescription),
-    evaluateOpenGraphImage(ogImage, baseUrl),
-    evaluateOptionalUrl('og:url', 'OG URL', ogUrl),
-    evaluateOpenGraphType(ogType)
-  ]
-
-  return summarizeSection(tags)
-}
-
-function evaluateTwitterSection(
-  $: CheerioAPI,
-  baseUrl: URL
-): Omit<SectionResult, 'id' | 'label'> {
-  const twitterCard = getMeta($, 'twitter:card')
-  const twitterTitle = getMeta($, 'twitter:title')
-  const twitterDescription = getMeta($, 'twitter:description')
-  const twitterImage = resolveMaybeUrl(getMeta($, 'twitter:image'), baseUrl)
-
-  const tags: TagResult[] = [
-    evaluateTwitterCard(twitterCard),
-    evaluateTwitterTitle(twitterTitle),
-    evaluateTwitterDescription(twitterDescription),
-    evaluateTwitterImage(twitterImage)
-  ]
-
-  return summarizeSection(tags)
-}
-
-function summarizeSection(tags: TagResult[]): Omit<SectionResult, 'id' | 'label'> {
-  const score = Math.round(tags.reduce((sum, tag) => sum + tag.score, 0) / tags.length)
+  const score = weightedScore(
+    tags.map((tag) => ({ score: tag.score, weight: profile.tagWeights[tag.id] ?? 1 }))
+  )
   const status = deriveSectionStatus(tags)
   return { score, status, tags }
 }
@@ -269,533 +553,45 @@ function deriveSummaryStatus(sections: SectionResult[]): TagStatus {
   return 'ok'
 }
 
-function evaluateTitle(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag('title', 'Title', true, 'Add a unique, descriptive title (50–60 characters).')
-  }
-
-  const length = value.length
-  if (length < 30 || length > 70) {
-    return {
-      tag: 'title',
-      label: 'Title',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `Title length is ${length} characters — aim for 50–60.`,
-      recommendation: 'Keep the primary query and brand within a 50–60 character window.'
-    }
-  }
-
-  return {
-    tag: 'title',
-    label: 'Title',
-    value,
-    length,
-    status: 'ok',
-    score: 95,
-    message: 'Title length looks good.',
-    recommendation: 'Review it periodically to stay aligned with the page intent.'
-  }
-}
-
-function evaluateDescription(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[name="description"]',
-      'Meta Description',
-      true,
-      'Provide a meta description (70–160 characters).'
-    )
-  }
-
-  const length = value.length
-  if (length < 70 || length > 160) {
-    return {
-      tag: 'meta[name="description"]',
-      label: 'Meta Description',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `Description has ${length} characters — aim for 70–160.`,
-      recommendation: 'Highlight the value proposition and CTA within 70–160 characters.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="description"]',
-    label: 'Meta Description',
-    value,
-    length,
-    status: 'ok',
-    score: 95,
-    message: 'Meta description length is optimal.',
-    recommendation: 'Keep the snippet accurate and aligned with the page content.'
-  }
-}
-
-function evaluateKeywords(value?: string): TagResult {
-  if (!value) {
-    return {
-      tag: 'meta[name="keywords"]',
-      label: 'Meta Keywords',
-      status: 'warning',
-      score: 50,
-      message: 'Keywords tag is missing — search engines largely ignore it.',
-      recommendation: 'Optional, but ensure important queries appear naturally in the content.'
-    }
-  }
-
-  const keywords = value
-    .split(',')
-    .map((item) => item.trim())
-    .filter(Boolean)
-
-  if (keywords.length > 10) {
-    return {
-      tag: 'meta[name="keywords"]',
-      label: 'Meta Keywords',
-      value,
-      status: 'warning',
-      score: 55,
-      message: `Too many keywords listed (${keywords.length}).`,
-      recommendation: 'Limit the list to 5–10 relevant phrases.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="keywords"]',
-    label: 'Meta Keywords',
-    value,
-    status: 'ok',
-    score: 80,
-    message: 'Keywords are present but offer limited SEO value.',
-    recommendation: 'Avoid keyword stuffing — keep phrasing natural.'
-  }
-}
-
-function evaluateCanonical(value: string | undefined, baseUrl: URL): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'link[rel="canonical"]',
-      'Canonical',
-      false,
-      'Set a canonical URL to protect against duplicates, especially with URL parameters.'
-    )
-  }
-
-  const resolved = resolveMaybeUrl(value, baseUrl)
-  if (!resolved) {
-    return {
-      tag: 'link[rel="canonical"]',
-      label: 'Canonical',
-      value,
-      status: 'error',
-      score: 10,
-      message: 'Canonical contains an invalid URL.',
-      recommendation: 'Use an absolute URL without parameters and prefer https.'
-    }
-  }
-
-  const canonicalUrl = safeUrl(resolved)
-  if (!canonicalUrl) {
-    return {
-      tag: 'link[rel="canonical"]',
-      label: 'Canonical',
-      value,
-      status: 'error',
-      score: 10,
-      message: 'Unable to parse the canonical URL.',
-      recommendation: 'Ensure the link is valid and uses the https:// scheme.'
-    }
-  }
-
-  return {
-    tag: 'link[rel="canonical"]',
-    label: 'Canonical',
-    value: canonicalUrl.toString(),
-    status: 'ok',
-    score: 90,
-    message: 'Canonical tag is defined and valid.',
-    recommendation: 'Confirm it matches the primary page URL.'
-  }
-}
-
-function evaluateRobots(value?: string): TagResult {
-  if (!value) {
-    return {
-      tag: 'meta[name="robots"]',
-      label: 'Meta Robots',
-      status: 'warning',
-      score: 60,
-      message: 'Meta robots tag is missing — pages are indexable by default.',
-      recommendation: 'Add meta robots if you need to restrict indexing or link following.'
-    }
-  }
-
-  const content = value.toLowerCase()
-  if (content.includes('noindex') || content.includes('nofollow')) {
-    return {
-      tag: 'meta[name="robots"]',
-      label: 'Meta Robots',
-      value,
-      status: 'warning',
-      score: 40,
-      message: `Directives detected: ${value}.`,
-      recommendation: 'Ensure noindex/nofollow values are intentional.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="robots"]',
-    label: 'Meta Robots',
-    value,
-    status: 'ok',
-    score: 85,
-    message: 'Meta robots allows indexing.',
-    recommendation: 'Review robots directives whenever you publish new content.'
-  }
-}
-
-function evaluateOpenGraphTitle(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[property="og:title"]',
-      'OG Title',
-      true,
-      'Provide og:title to craft an engaging social preview.'
-    )
-  }
-
-  const length = value.length
-  if (length < 30 || length > 95) {
-    return {
-      tag: 'meta[property="og:title"]',
-      label: 'OG Title',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `og:title is ${length} characters — aim for 40–80.`,
-      recommendation: 'Make the headline punchy and readable within 40–80 characters.'
-    }
-  }
-
-  return {
-    tag: 'meta[property="og:title"]',
-    label: 'OG Title',
-    value,
-    length,
-    status: 'ok',
-    score: 95,
-    message: 'og:title looks good.',
-    recommendation: 'Keep it aligned with the core message of the page.'
-  }
-}
-
-function evaluateOpenGraphDescription(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[property="og:description"]',
-      'OG Description',
-      true,
-      'Add og:description (80–200 characters) for social previews.'
-    )
-  }
-
-  const length = value.length
-  if (length < 80 || length > 200) {
-    return {
-      tag: 'meta[property="og:description"]',
-      label: 'OG Description',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `og:description is ${length} characters — target 80–200.`,
-      recommendation: 'Explain the value and include a CTA within 80–200 characters.'
-    }
-  }
-
-  return {
-    tag: 'meta[property="og:description"]',
-    label: 'OG Description',
-    value,
-    length,
-    status: 'ok',
-    score: 90,
-    message: 'og:description is in good shape.',
-    recommendation: 'Validate the snippet via the Facebook Sharing Debugger.'
-  }
-}
-
-function evaluateOpenGraphImage(value: string | undefined, baseUrl: URL): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[property="og:image"]',
-      'OG Image',
-      true,
-      'Add og:image (minimum 1200×630 px) for rich previews.'
-    )
-  }
-
-  const resolved = resolveMaybeUrl(value, baseUrl)
-  if (!resolved) {
-    return {
-      tag: 'meta[property="og:image"]',
-      label: 'OG Image',
-      value,
-      status: 'error',
-      score: 10,
-      message: 'Invalid URL in og:image.',
-      recommendation: 'Use an absolute https link to the image asset.'
-    }
-  }
-
-  return {
-    tag: 'meta[property="og:image"]',
-    label: 'OG Image',
-    value: resolved,
-    status: 'ok',
-    score: 95,
-    message: 'og:image is set.',
-    recommendation: 'Ensure it is at least 1200×630 px in JPEG or WebP format.'
-  }
-}
-
-function evaluateOptionalUrl(tag: string, label: string, value?: string): TagResult {
-  if (!value) {
-    return {
-      tag,
-      label,
-      status: 'warning',
-      score: 55,
-      message: `${label} is missing.`,
-      recommendation: `Add the ${label.toLowerCase()} to keep metadata consistent.`
-    }
-  }
-
-  return {
-    tag,
-    label,
-    value,
-    status: 'ok',
-    score: 85,
-    message: `${label} is set.`,
-    recommendation: `Make sure the ${label.toLowerCase()} matches the canonical URL.`
-  }
-}
-
-function evaluateOpenGraphType(value?: string): TagResult {
-  if (!value) {
-    return {
-      tag: 'meta[property="og:type"]',
-      label: 'OG Type',
-      status: 'warning',
-      score: 55,
-      message: 'OG type is missing.',
-      recommendation: 'Set a type such as website, article, or product.'
-    }
-  }
-
-  return {
-    tag: 'meta[property="og:type"]',
-    label: 'OG Type',
-    value,
-    status: 'ok',
-    score: 85,
-    message: 'OG type is set.',
-    recommendation: 'Keep it aligned with the page content.'
-  }
-}
-
-function evaluateTwitterCard(value?: string): TagResult {
-  if (!value) {
-    return {
-      tag: 'meta[name="twitter:card"]',
-      label: 'Twitter Card',
-      status: 'warning',
-      score: 55,
-      message: 'Twitter card is not defined.',
-      recommendation: 'Use summary_large_image for rich link previews.'
-    }
-  }
-
-  const normalized = value.toLowerCase()
-  if (normalized !== 'summary_large_image' && normalized !== 'summary') {
-    return {
-      tag: 'meta[name="twitter:card"]',
-      label: 'Twitter Card',
-      value,
-      status: 'warning',
-      score: 60,
-      message: `Non-standard twitter:card value — ${value}.`,
-      recommendation: 'Use summary or summary_large_image for consistent rendering.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="twitter:card"]',
-    label: 'Twitter Card',
-    value: normalized,
-    status: 'ok',
-    score: 85,
-    message: 'Twitter card value looks good.',
-    recommendation: 'Validate it with the Twitter Card Validator.'
-  }
-}
-
-function evaluateTwitterTitle(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[name="twitter:title"]',
-      'Twitter Title',
-      true,
-      'Add twitter:title — keep it short and compelling.'
-    )
-  }
-
-  const length = value.length
-  if (length > 70) {
-    return {
-      tag: 'meta[name="twitter:title"]',
-      label: 'Twitter Title',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `Twitter title has ${length} characters — trim to 70.`,
-      recommendation: 'Rewrite the headline to 70 characters or fewer for social.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="twitter:title"]',
-    label: 'Twitter Title',
-    value,
-    length,
-    status: 'ok',
-    score: 90,
-    message: 'Twitter title looks good.',
-    recommendation: 'Align it with the OG title and HTML title.'
-  }
-}
-
-function evaluateTwitterDescription(value?: string): TagResult {
-  if (!value) {
-    return createMissingTag(
-      'meta[name="twitter:description"]',
-      'Twitter Description',
-      true,
-      'Add twitter:description (up to 200 characters).'
-    )
-  }
-
-  const length = value.length
-  if (length > 200) {
-    return {
-      tag: 'meta[name="twitter:description"]',
-      label: 'Twitter Description',
-      value,
-      length,
-      status: 'warning',
-      score: 60,
-      message: `Twitter description has ${length} characters — limit to 200.`,
-      recommendation: 'Focus on the key benefit within 200 characters.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="twitter:description"]',
-    label: 'Twitter Description',
-    value,
-    length,
-    status: 'ok',
-    score: 90,
-    message: 'Twitter description length is on point.',
-    recommendation: 'Surface the value and CTA tailored for social.'
-  }
-}
-
-function evaluateTwitterImage(value?: string): TagResult {
-  if (!value) {
-    return {
-      tag: 'meta[name="twitter:image"]',
-      label: 'Twitter Image',
-      status: 'warning',
-      score: 55,
-      message: 'Twitter image is not specified.',
-      recommendation: 'Provide an image 1200×630 px or 800×418 px for cards.'
-    }
-  }
-
-  return {
-    tag: 'meta[name="twitter:image"]',
-    label: 'Twitter Image',
-    value,
-    status: 'ok',
-    score: 85,
-    message: 'Twitter image is set.',
-    recommendation: 'Ensure the image is accessible and in a supported format.'
-  }
-}
-
-function createMissingTag(
-  tag: string,
-  label: string,
-  critical: boolean,
-  recommendation: string
-): TagResult {
-  return {
-    tag,
-    label,
-    status: critical ? 'error' : 'warning',
-    score: critical ? 0 : 50,
-    message: `${label} not found.`,
-    recommendation
-  }
-}
-
 function buildPreviews(
   sections: SectionResult[],
   finalUrl: string,
-  baseUrl: URL
+  baseUrl: URL,
+  richResult: RichResultPreview | undefined
 ): SeoPreviews {
   const meta = sections.find((section) => section.id === 'meta')?.tags ?? []
   const openGraph = sections.find((section) => section.id === 'openGraph')?.tags ?? []
   const twitter = sections.find((section) => section.id === 'twitter')?.tags ?? []
 
   const title =
-    meta.find((tag) => tag.tag === 'title')?.value ??
-    openGraph.find((tag) => tag.tag === 'meta[property="og:title"]')?.value ??
+    meta.find((tag) => tag.id === 'title')?.value ??
+    openGraph.find((tag) => tag.id === 'og-title')?.value ??
     'Preview'
 
   const description =
-    meta.find((tag) => tag.tag === 'meta[name="description"]')?.value ??
-    openGraph.find((tag) => tag.tag === 'meta[property="og:description"]')?.value ??
+    meta.find((tag) => tag.id === 'description')?.value ??
+    openGraph.find((tag) => tag.id === 'og-description')?.value ??
     ''
 
   const ogTitle =
-    openGraph.find((tag) => tag.tag === 'meta[property="og:title"]')?.value ?? title
+    openGraph.find((tag) => tag.id === 'og-title')?.value ?? title
   const ogDescription =
-    openGraph.find((tag) => tag.tag === 'meta[property="og:description"]')?.value ??
+    openGraph.find((tag) => tag.id === 'og-description')?.value ??
     description
   const ogImage =
-    openGraph.find((tag) => tag.tag === 'meta[property="og:image"]')?.value ?? undefined
+    openGraph.find((tag) => tag.id === 'og-image')?.value ?? undefined
   const ogUrl =
-    openGraph.find((tag) => tag.tag === 'og:url')?.value ?? new URL(finalUrl).toString()
+    openGraph.find((tag) => tag.id === 'og-url')?.value ?? new URL(finalUrl).toString()
 
   const twitterTitle =
-    twitter.find((tag) => tag.tag === 'meta[name="twitter:title"]')?.value ?? title
+    twitter.find((tag) => tag.id === 'twitter-title')?.value ?? title
   const twitterDescription =
-    twitter.find((tag) => tag.tag === 'meta[name="twitter:description"]')?.value ??
+    twitter.find((tag) => tag.id === 'twitter-description')?.value ??
     description
   const twitterImage =
-    twitter.find((tag) => tag.tag === 'meta[name="twitter:image"]')?.value ?? ogImage
+    twitter.find((tag) => tag.id === 'twitter-image')?.value ?? ogImage
   const twitterCard =
-    twitter.find((tag) => tag.tag === 'meta[name="twitter:card"]')?.value ??
+    twitter.find((tag) => tag.id === 'twitter-card')?.value ??
     'summary_large_image'
 
   return {
@@ -819,50 +615,50 @@ function buildPreviews(
       siteName: baseUrl.hostname,
       card: twitterCard,
       ...(twitterImage ? { image: twitterImage } : {})
-    }
-  }
-}
-
-function getMeta($: CheerioAPI, name: string): string | undefined {
-  return normalizeText($(`meta[name="${name}"]`).attr('content'))
-}
-
-function getProperty($: CheerioAPI, property: string): string | undefined {
-  return normalizeText($(`meta[property="${property}"]`).attr('content'))
-}
-
-function getCanonical($: CheerioAPI, baseUrl: URL): string | undefined {
-  const canonicalTag = $('link[rel="canonical"]').attr('href')
-  return resolveMaybeUrl(canonicalTag, baseUrl)
-}
+    },
+    ...(richResult ? { richResult } : {})
+  }
+}
+
+/**
+ * Adds the dimensions of social images; probes are cached, so the image rules
+ * already paid for them. Images on the `placeholder` host are never fetched.
+ */
+async function attachImageDetails(
+  previews: SeoPreviews,
+  probeImage: (url: string) => Promise<ImageProbe>,
+  placeholder: URL | undefined
+): Promise<SeoPreviews> {
+  const [openGraph, twitter] = await Promise.all(
+    [previews.openGraph, previews.twitter].map(async (preview) => {
+      const url = preview.image ? safeUrl(preview.image) : undefined
+      if (!url || !/^https?:$/.test(url.protocol) || url.origin === placeholder?.origin) {
+        return undefined
+      }
+      const probe = await probeImage(url.toString())
+      return probe.ok ? toImageDetails(probe) : undefined
+    })
+  )
 
-function resolveMaybeUrl(value: string | undefined, baseUrl: URL): string | undefined {
-  if (!value) return undefined
-  try {
-    const resolved = new URL(value, baseUrl)
-    return resolved.toString()
-  } catch {
-    return undefined
+  return {
+    ...previews,
+    openGraph: { ...previews.openGraph, ...(openGraph ? { imageDetails: openGraph } : {}) },
+    twitter: { ...previews.twitter, ...(twitter ? { imageDetails: twitter } : {}) }
   }
 }
 
-function normalizeText(value: string | undefined | null): string | undefined {
-  if (!value) return undefined
-  const trimmed = value.trim()
-  return trimmed.length ? trimmed : undefined
+function toImageDetails({ format, width, height, bytes }: ImageProbe & { ok: true }): ImageDetails {
+  return {
+    format,
+    ...(width !== undefined ? { width } : {}),
+    ...(height !== undefined ? { height } : {}),
+    ...(bytes !== undefined ? { bytes } : {})
+  }
 }
 
-function severityRank(status: TagStatus): number {
+export function severityRank(status: TagStatus): number {
   if (status === 'error') return 0
   if (status === 'warning') return 1
   return 2
 }
 
-function safeUrl(value: string): URL | undefined {
-  try {
-    return new URL(value)
-  } catch {
-    return undefined
-  }
-}
-
@@ -0,0 +1,52 @@
+import type { ServerResponse } from 'node:http'
+import type { AnalysisProgress } from '../shared/analysis-types.js'
+import { analyzeUrlCached, type CachedAnalysisOptions } from './analysis-cache.js'
+import { mapAnalysisError } from './analysis-service.js'
+
+/** Comment lines keep proxies from closing a stream that is waiting on a slow page. */
+const KEEP_ALIVE_MS = 15_000
+
+/**
+ * Runs a URL analysis and streams it as Server-Sent Events: `progress` events
+ * carry `AnalysisProgress`, then either `result` with the `SeoAnalysis` or
+ * `error` with the usual error payload plus its `statusCode`. Works with the
+ * Express and the Vercel response alike.
+ */
+export async function streamAnalysis(
+  res: ServerResponse,
+  url: string,
+  options: CachedAnalysisOptions
+): Promise<void> {
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  // Disables response buffering in nginx-style proxies.
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+
+  let open = true
+  res.on('close', () => {
+    open = false
+  })
+  const send = (event: string, data: unknown) => {
+    if (open) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+  const keepAlive = setInterval(() => {
+    if (open) res.write(': keep-alive\n\n')
+  }, KEEP_ALIVE_MS)
+
+  try {
+    const analysis = await analyzeUrlCached(url, {
+      ...options,
+      onProgress: (progress: AnalysisProgress) => send('progress', progress)
+    })
+    send('result', analysis)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    send('error', { statusCode, ...payload })
+  } finally {
+    clearInterval(keepAlive)
+    res.end()
+  }
+}
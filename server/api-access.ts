@@ -0,0 +1,225 @@
+import { createHash } from 'node:crypto'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { z } from 'zod'
+import type { AnalysisErrorPayload } from './analysis-service.js'
+import { createDataFile } from './data-file.js'
+
+const WINDOW_MS = 60_000
+
+/** Browser origin allowed to call the API, shared by the Express and Vercel servers. */
+export const ALLOWED_ORIGIN = process.env['ANALYZER_ALLOW_ORIGIN'] ?? '*'
+
+/** Response headers the browser may read; CORS setups expose them. */
+export const RATE_LIMIT_HEADERS = [
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+  'Retry-After'
+]
+
+export interface ApiKey {
+  name: string
+  key: string
+  /** Requests per minute; defaults to `ANALYZER_KEY_RATE_LIMIT`. */
+  limit?: number | undefined
+}
+
+const apiKeyFileSchema = z.array(
+  z
+    .object({
+      name: z.string().min(1),
+      key: z.string().min(1),
+      limit: z.number().int().positive().optional()
+    })
+    .strict()
+)
+
+const keyFile = createDataFile<ApiKey[]>(
+  'api-keys.json',
+  (raw) => apiKeyFileSchema.parse(raw),
+  () => []
+)
+
+const requireApiKey = process.env['ANALYZER_REQUIRE_API_KEY'] === 'true'
+const anonymousLimit = readLimit('ANALYZER_RATE_LIMIT', 30)
+const keyLimit = readLimit('ANALYZER_KEY_RATE_LIMIT', 300)
+// Vercel always sets X-Forwarded-For itself, so it can be trusted there.
+const trustProxy = process.env['ANALYZER_TRUST_PROXY'] === 'true' || process.env['VERCEL'] === '1'
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * `name:key` pairs from `ANALYZER_API_KEYS`, separated by commas. A bare key
+ * is named after its position.
+ */
+function readEnvKeys(): ApiKey[] {
+  const entries = (process.env['ANALYZER_API_KEYS'] ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  return entries.map((entry, index) => {
+    const separator = entry.indexOf(':')
+    return separator > 0
+      ? { name: entry.slice(0, separator), key: entry.slice(separator + 1) }
+      : { name: `key-${index + 1}`, key: entry }
+  })
+}
+
+let keysByHash: Promise<Map<string, ApiKey>> | undefined
+
+/** Keys are indexed by their SHA-256 digest so lookups do not compare secrets directly. */
+function loadApiKeys(): Promise<Map<string, ApiKey>> {
+  keysByHash ??= keyFile
+    .load()
+    .then(
+      (fileKeys) => new Map([...readEnvKeys(), ...fileKeys].map((key) => [hashKey(key.key), key]))
+    )
+    .catch((error: unknown) => {
+      keysByHash = undefined
+      throw error
+    })
+  return keysByHash
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/** Reads `Authorization: Bearer <key>` or `X-API-Key`. */
+function presentedKey(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || undefined
+  }
+  const header = req.headers['x-api-key']
+  const value = Array.isArray(header) ? header[0] : header
+  return value?.trim() || undefined
+}
+
+function clientIp(req: IncomingMessage): string {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for']
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim()
+    if (first) return first
+  }
+  return req.socket.remoteAddress ?? 'unknown'
+}
+
+interface RateWindow {
+  count: number
+  resetAt: number
+}
+
+/**
+ * Fixed one-minute windows, kept in memory per process. Insertion order is
+ * the order windows started, so the first entry is the oldest.
+ */
+const windows = new Map<string, RateWindow>()
+const MAX_TRACKED_CLIENTS = 10_000
+
+function consume(identity: string, now: number): RateWindow {
+  let window = windows.get(identity)
+  if (!window || window.resetAt <= now) {
+    windows.delete(identity)
+    if (windows.size >= MAX_TRACKED_CLIENTS) pruneWindows(now)
+    if (windows.size >= MAX_TRACKED_CLIENTS) {
+      const oldest = windows.keys().next().value
+      if (oldest !== undefined) windows.delete(oldest)
+    }
+    window = { count: 0, resetAt: now + WINDOW_MS }
+    windows.set(identity, window)
+  }
+  window.count += 1
+  return window
+}
+
+function pruneWindows(now: number) {
+  for (const [identity, window] of windows) {
+    if (window.resetAt <= now) windows.delete(identity)
+  }
+}
+
+/**
+ * Authenticates the request and applies its rate limit. Requests with a key
+ * are limited per key; anonymous ones per client IP, and are refused when
+ * `ANALYZER_REQUIRE_API_KEY` is set. On failure the JSON error has already
+ * been sent and `false` is returned.
+ */
+export async function enforceApiAccess(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const key = presentedKey(req)
+  let identity: string
+  let limit: number
+
+  if (key) {
+    let keys: Map<string, ApiKey>
+    try {
+      keys = await loadApiKeys()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      sendError(res, 500, { error: 'Unable to load API keys', details: message })
+      return false
+    }
+
+    const match = keys.get(hashKey(key))
+    if (!match) {
+      res.setHeader('WWW-Authenticate', 'Bearer')
+      sendError(res, 401, { error: 'Invalid API key' })
+      return false
+    }
+    identity = `key:${match.name}`
+    limit = match.limit ?? keyLimit
+  } else if (requireApiKey) {
+    res.setHeader('WWW-Authenticate', 'Bearer')
+    sendError(res, 401, {
+      error: 'API key required',
+      details: 'Send the key as "Authorization: Bearer <key>" or in the X-API-Key header.'
+    })
+    return false
+  } else {
+    identity = `ip:${clientIp(req)}`
+    limit = anonymousLimit
+  }
+
+  const now = Date.now()
+  const window = consume(identity, now)
+  const resetSeconds = Math.max(1, Math.ceil((window.resetAt - now) / 1000))
+  res.setHeader('RateLimit-Policy', `${limit};w=${WINDOW_MS / 1000}`)
+  res.setHeader('RateLimit-Limit', String(limit))
+  res.setHeader('RateLimit-Remaining', String(Math.max(0, limit - window.count)))
+  res.setHeader('RateLimit-Reset', String(resetSeconds))
+
+  if (window.count > limit) {
+    res.setHeader('Retry-After', String(resetSeconds))
+    sendError(res, 429, {
+      error: 'Too many requests',
+      details: `The limit is ${limit} requests per minute; retry in ${resetSeconds} seconds.`
+    })
+    return false
+  }
+  return true
+}
+
+/** Connect-style wrapper for Express. */
+export function apiAccessMiddleware(
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+): void {
+  void enforceApiAccess(req, res).then((allowed) => {
+    if (allowed) next()
+  })
+}
+
+function sendError(res: ServerResponse, statusCode: number, payload: AnalysisErrorPayload) {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(payload))
+}
@@ -0,0 +1,689 @@
+import type { IndexabilityVerdict } from '../shared/analysis-types.js'
+import { canonicalRules } from './canonical-rules.js'
+import { contentRules } from './content-rules.js'
+import {
+  getCanonical,
+  getMeta,
+  getProperty,
+  normalizeText,
+  resolveMaybeUrl,
+  safeUrl
+} from './dom-helpers.js'
+import { httpRules } from './http-rules.js'
+import { i18nRules } from './i18n-rules.js'
+import { linkRules } from './link-rules.js'
+import { createRuleRegistry, type RuleEvaluation, type SeoRule } from './rule-registry.js'
+import {
+  ruleScorer,
+  type LengthWindow,
+  type ScoreOutcome,
+  type ScoringProfile
+} from './scoring-profiles.js'
+import { socialImageRules } from './social-image-rules.js'
+import { structuredDataRules } from './structured-data-rules.js'
+
+export const builtInRules: SeoRule[] = [
+  {
+    id: 'title',
+    section: 'meta',
+    selector: 'title',
+    evaluate: ({ $, profile }) => evaluateTitle(normalizeText($('title').first().text()), profile)
+  },
+  {
+    id: 'description',
+    legacyId: 'meta[name="description"]',
+    section: 'meta',
+    selector: 'meta[name="description"]',
+    evaluate: ({ $, profile }) => evaluateDescription(getMeta($, 'description'), profile)
+  },
+  {
+    id: 'keywords',
+    legacyId: 'meta[name="keywords"]',
+    section: 'meta',
+    selector: 'meta[name="keywords"]',
+    evaluate: ({ $, profile }) => evaluateKeywords(getMeta($, 'keywords'), profile)
+  },
+  {
+    id: 'canonical',
+    legacyId: 'link[rel="canonical"]',
+    section: 'meta',
+    selector: 'link[rel="canonical"]',
+    evaluate: ({ $, baseUrl, profile }) =>
+      evaluateCanonical(getCanonical($, baseUrl), baseUrl, profile)
+  },
+  ...canonicalRules,
+  {
+    id: 'robots',
+    legacyId: 'meta[name="robots"]',
+    section: 'meta',
+    selector: 'meta[name="robots"]',
+    evaluate: ({ $, profile }) => evaluateRobots(getMeta($, 'robots'), profile)
+  },
+  {
+    id: 'indexability',
+    section: 'meta',
+    selector: 'meta[name="robots"], meta[name="googlebot"], X-Robots-Tag, robots.txt',
+    evaluate: ({ indexability, profile }) => evaluateIndexability(indexability, profile)
+  },
+  {
+    id: 'og-title',
+    legacyId: 'meta[property="og:title"]',
+    section: 'openGraph',
+    selector: 'meta[property="og:title"]',
+    evaluate: ({ $, profile }) => evaluateOpenGraphTitle(getProperty($, 'og:title'), profile)
+  },
+  {
+    id: 'og-description',
+    legacyId: 'meta[property="og:description"]',
+    section: 'openGraph',
+    selector: 'meta[property="og:description"]',
+    evaluate: ({ $, profile }) =>
+      evaluateOpenGraphDescription(getProperty($, 'og:description'), profile)
+  },
+  {
+    id: 'og-image',
+    legacyId: 'meta[property="og:image"]',
+    section: 'openGraph',
+    selector: 'meta[property="og:image"]',
+    evaluate: ({ $, baseUrl, profile }) =>
+      evaluateOpenGraphImage(getProperty($, 'og:image'), baseUrl, profile)
+  },
+  ...socialImageRules.filter((rule) => rule.section === 'openGraph'),
+  {
+    id: 'og-url',
+    section: 'openGraph',
+    selector: 'meta[property="og:url"]',
+    evaluate: ({ $, baseUrl, profile }) =>
+      evaluateOptionalUrl(
+        'og-url',
+        'OG URL',
+        resolveMaybeUrl(getProperty($, 'og:url'), baseUrl),
+        profile
+      )
+  },
+  {
+    id: 'og-type',
+    legacyId: 'meta[property="og:type"]',
+    section: 'openGraph',
+    selector: 'meta[property="og:type"]',
+    evaluate: ({ $, profile }) => evaluateOpenGraphType(getProperty($, 'og:type'), profile)
+  },
+  {
+    id: 'twitter-card',
+    legacyId: 'meta[name="twitter:card"]',
+    section: 'twitter',
+    selector: 'meta[name="twitter:card"]',
+    evaluate: ({ $, profile }) => evaluateTwitterCard(getMeta($, 'twitter:card'), profile)
+  },
+  {
+    id: 'twitter-title',
+    legacyId: 'meta[name="twitter:title"]',
+    section: 'twitter',
+    selector: 'meta[name="twitter:title"]',
+    evaluate: ({ $, profile }) => evaluateTwitterTitle(getMeta($, 'twitter:title'), profile)
+  },
+  {
+    id: 'twitter-description',
+    legacyId: 'meta[name="twitter:description"]',
+    section: 'twitter',
+    selector: 'meta[name="twitter:description"]',
+    evaluate: ({ $, profile }) =>
+      evaluateTwitterDescription(getMeta($, 'twitter:description'), profile)
+  },
+  {
+    id: 'twitter-image',
+    legacyId: 'meta[name="twitter:image"]',
+    section: 'twitter',
+    selector: 'meta[name="twitter:image"]',
+    evaluate: ({ $, baseUrl, profile }) =>
+      evaluateTwitterImage(resolveMaybeUrl(getMeta($, 'twitter:image'), baseUrl), profile)
+  },
+  ...socialImageRules.filter((rule) => rule.section === 'twitter'),
+  ...structuredDataRules,
+  ...i18nRules,
+  ...httpRules,
+  ...contentRules,
+  ...linkRules
+]
+
+/** Registry used by the API when callers do not provide their own. */
+export const defaultRuleRegistry = createRuleRegistry(builtInRules)
+
+function evaluateTitle(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const { title } = profile.thresholds
+  const scoreFor = ruleScorer(profile, 'title')
+  if (!value) {
+    return createMissingTag(
+      'Title',
+      true,
+      `Add a unique, descriptive title (${range(title)} characters).`,
+      scoreFor
+    )
+  }
+
+  const length = value.length
+  if (isOutside(length, title)) {
+    return {
+      label: 'Title',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Title length is ${length} characters — aim for ${range(title)}.`,
+      recommendation: `Keep the primary query and brand within a ${range(title)} character window.`
+    }
+  }
+
+  return {
+    label: 'Title',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Title length looks good.',
+    recommendation: 'Review it periodically to stay aligned with the page intent.'
+  }
+}
+
+function evaluateDescription(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const { description } = profile.thresholds
+  const scoreFor = ruleScorer(profile, 'description')
+  if (!value) {
+    return createMissingTag(
+      'Meta Description',
+      true,
+      `Provide a meta description (${range(description)} characters).`,
+      scoreFor
+    )
+  }
+
+  const length = value.length
+  if (isOutside(length, description)) {
+    return {
+      label: 'Meta Description',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Description has ${length} characters — aim for ${range(description)}.`,
+      recommendation: `Highlight the value proposition and CTA within ${range(description)} characters.`
+    }
+  }
+
+  return {
+    label: 'Meta Description',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Meta description length is optimal.',
+    recommendation: 'Keep the snippet accurate and aligned with the page content.'
+  }
+}
+
+function evaluateKeywords(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const { keywordsMax } = profile.thresholds
+  const scoreFor = ruleScorer(profile, 'keywords')
+  if (!value) {
+    return {
+      label: 'Meta Keywords',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'Keywords tag is missing — search engines largely ignore it.',
+      recommendation: 'Optional, but ensure important queries appear naturally in the content.'
+    }
+  }
+
+  const keywords = value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+  if (keywords.length > keywordsMax) {
+    return {
+      label: 'Meta Keywords',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Too many keywords listed (${keywords.length}).`,
+      recommendation: `Limit the list to ${keywordsMax} or fewer relevant phrases.`
+    }
+  }
+
+  return {
+    label: 'Meta Keywords',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Keywords are present but offer limited SEO value.',
+    recommendation: 'Avoid keyword stuffing — keep phrasing natural.'
+  }
+}
+
+function evaluateCanonical(
+  value: string | undefined,
+  baseUrl: URL,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'canonical')
+  if (!value) {
+    return createMissingTag(
+      'Canonical',
+      false,
+      'Set a canonical URL to protect against duplicates, especially with URL parameters.',
+      scoreFor
+    )
+  }
+
+  const resolved = resolveMaybeUrl(value, baseUrl)
+  if (!resolved) {
+    return {
+      label: 'Canonical',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'Canonical contains an invalid URL.',
+      recommendation: 'Use an absolute URL without parameters and prefer https.'
+    }
+  }
+
+  const canonicalUrl = safeUrl(resolved)
+  if (!canonicalUrl) {
+    return {
+      label: 'Canonical',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'Unable to parse the canonical URL.',
+      recommendation: 'Ensure the link is valid and uses the https:// scheme.'
+    }
+  }
+
+  return {
+    label: 'Canonical',
+    value: canonicalUrl.toString(),
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Canonical tag is defined and valid.'
+  }
+}
+
+function evaluateRobots(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'robots')
+  if (!value) {
+    return {
+      label: 'Meta Robots',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'Meta robots tag is missing — pages are indexable by default.',
+      recommendation: 'Add meta robots if you need to restrict indexing or link following.'
+    }
+  }
+
+  const content = value.toLowerCase()
+  if (content.includes('noindex') || content.includes('nofollow')) {
+    return {
+      label: 'Meta Robots',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Directives detected: ${value}.`,
+      recommendation: 'Ensure noindex/nofollow values are intentional.'
+    }
+  }
+
+  return {
+    label: 'Meta Robots',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Meta robots allows indexing.',
+    recommendation: 'Review robots directives whenever you publish new content.'
+  }
+}
+
+function evaluateIndexability(
+  { indexable, reasons, directives }: IndexabilityVerdict,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'indexability')
+  if (!indexable) {
+    return {
+      label: 'Indexability',
+      value: 'Not indexable',
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `Search engines will not index this page: ${reasons.join('; ')}.`,
+      recommendation:
+        'Remove the noindex directive or robots.txt rule if the page should appear in search results.'
+    }
+  }
+
+  return {
+    label: 'Indexability',
+    value: 'Indexable',
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: directives.length
+      ? `No directive blocks indexing (${directives.join(', ')}).`
+      : 'No meta tag, header or robots.txt rule blocks indexing.'
+  }
+}
+
+function evaluateOpenGraphTitle(
+  value: string | undefined,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'og-title')
+  if (!value) {
+    return createMissingTag(
+      'OG Title',
+      true,
+      'Provide og:title to craft an engaging social preview.',
+      scoreFor
+    )
+  }
+
+  const { ogTitle } = profile.thresholds
+  const length = value.length
+  if (isOutside(length, ogTitle)) {
+    return {
+      label: 'OG Title',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `og:title is ${length} characters — aim for ${range(ogTitle)}.`,
+      recommendation: `Make the headline punchy and readable within ${range(ogTitle)} characters.`
+    }
+  }
+
+  return {
+    label: 'OG Title',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'og:title looks good.',
+    recommendation: 'Keep it aligned with the core message of the page.'
+  }
+}
+
+function evaluateOpenGraphDescription(
+  value: string | undefined,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const { ogDescription } = profile.thresholds
+  const scoreFor = ruleScorer(profile, 'og-description')
+  if (!value) {
+    return createMissingTag(
+      'OG Description',
+      true,
+      `Add og:description (${range(ogDescription)} characters) for social previews.`,
+      scoreFor
+    )
+  }
+
+  const length = value.length
+  if (isOutside(length, ogDescription)) {
+    return {
+      label: 'OG Description',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `og:description is ${length} characters — target ${range(ogDescription)}.`,
+      recommendation: `Explain the value and include a CTA within ${range(ogDescription)} characters.`
+    }
+  }
+
+  return {
+    label: 'OG Description',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'og:description is in good shape.',
+    recommendation: 'Validate the snippet via the Facebook Sharing Debugger.'
+  }
+}
+
+function evaluateOpenGraphImage(
+  value: string | undefined,
+  baseUrl: URL,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'og-image')
+  if (!value) {
+    return createMissingTag(
+      'OG Image',
+      true,
+      'Add og:image (minimum 1200×630 px) for rich previews.',
+      scoreFor
+    )
+  }
+
+  const resolved = resolveMaybeUrl(value, baseUrl)
+  if (!resolved) {
+    return {
+      label: 'OG Image',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'Invalid URL in og:image.',
+      recommendation: 'Use an absolute https link to the image asset.'
+    }
+  }
+
+  return {
+    label: 'OG Image',
+    value: resolved,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'og:image is set.',
+    recommendation: 'Ensure it is at least 1200×630 px in JPEG or WebP format.'
+  }
+}
+
+function evaluateOptionalUrl(
+  ruleId: string,
+  label: string,
+  value: string | undefined,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, ruleId)
+  if (!value) {
+    return {
+      label,
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: `${label} is missing.`,
+      recommendation: `Add the ${label.toLowerCase()} to keep metadata consistent.`
+    }
+  }
+
+  return {
+    label,
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `${label} is set.`,
+    recommendation: `Make sure the ${label.toLowerCase()} matches the canonical URL.`
+  }
+}
+
+function evaluateOpenGraphType(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'og-type')
+  if (!value) {
+    return {
+      label: 'OG Type',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'OG type is missing.',
+      recommendation: 'Set a type such as website, article, or product.'
+    }
+  }
+
+  return {
+    label: 'OG Type',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'OG type is set.',
+    recommendation: 'Keep it aligned with the page content.'
+  }
+}
+
+function evaluateTwitterCard(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'twitter-card')
+  if (!value) {
+    return {
+      label: 'Twitter Card',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'Twitter card is not defined.',
+      recommendation: 'Use summary_large_image for rich link previews.'
+    }
+  }
+
+  const normalized = value.toLowerCase()
+  if (normalized !== 'summary_large_image' && normalized !== 'summary') {
+    return {
+      label: 'Twitter Card',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Non-standard twitter:card value — ${value}.`,
+      recommendation: 'Use summary or summary_large_image for consistent rendering.'
+    }
+  }
+
+  return {
+    label: 'Twitter Card',
+    value: normalized,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Twitter card value looks good.',
+    recommendation: 'Validate it with the Twitter Card Validator.'
+  }
+}
+
+function evaluateTwitterTitle(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'twitter-title')
+  if (!value) {
+    return createMissingTag(
+      'Twitter Title',
+      true,
+      'Add twitter:title — keep it short and compelling.',
+      scoreFor
+    )
+  }
+
+  const { twitterTitleMax } = profile.thresholds
+  const length = value.length
+  if (length > twitterTitleMax) {
+    return {
+      label: 'Twitter Title',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Twitter title has ${length} characters — trim to ${twitterTitleMax}.`,
+      recommendation: `Rewrite the headline to ${twitterTitleMax} characters or fewer for social.`
+    }
+  }
+
+  return {
+    label: 'Twitter Title',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Twitter title looks good.',
+    recommendation: 'Align it with the OG title and HTML title.'
+  }
+}
+
+function evaluateTwitterDescription(
+  value: string | undefined,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const { twitterDescriptionMax } = profile.thresholds
+  const scoreFor = ruleScorer(profile, 'twitter-description')
+  if (!value) {
+    return createMissingTag(
+      'Twitter Description',
+      true,
+      `Add twitter:description (up to ${twitterDescriptionMax} characters).`,
+      scoreFor
+    )
+  }
+
+  const length = value.length
+  if (length > twitterDescriptionMax) {
+    return {
+      label: 'Twitter Description',
+      value,
+      length,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Twitter description has ${length} characters — limit to ${twitterDescriptionMax}.`,
+      recommendation: `Focus on the key benefit within ${twitterDescriptionMax} characters.`
+    }
+  }
+
+  return {
+    label: 'Twitter Description',
+    value,
+    length,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Twitter description length is on point.',
+    recommendation: 'Surface the value and CTA tailored for social.'
+  }
+}
+
+function evaluateTwitterImage(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'twitter-image')
+  if (!value) {
+    return {
+      label: 'Twitter Image',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'Twitter image is not specified.',
+      recommendation: 'Provide an image 1200×630 px or 800×418 px for cards.'
+    }
+  }
+
+  return {
+    label: 'Twitter Image',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Twitter image is set.',
+    recommendation: 'Ensure the image is accessible and in a supported format.'
+  }
+}
+
+function createMissingTag(
+  label: string,
+  critical: boolean,
+  recommendation: string,
+  scoreFor: (outcome: ScoreOutcome) => number
+): RuleEvaluation {
+  return {
+    label,
+    status: critical ? 'error' : 'warning',
+    score: scoreFor(critical ? 'missing' : 'optionalMissing'),
+    message: `${label} not found.`,
+    recommendation
+  }
+}
+
+function isOutside(length: number, { min, max }: LengthWindow): boolean {
+  return length < min || length > max
+}
+
+function range({ idealMin, idealMax }: LengthWindow): string {
+  return `${idealMin}–${idealMax}`
+}
@@ -0,0 +1,265 @@
+import { load, type CheerioAPI } from 'cheerio'
+import type { FetchDiagnostics } from '../shared/analysis-types.js'
+import { getProperty, resolveWithoutHash } from './dom-helpers.js'
+import { buildIndexability } from './indexability.js'
+import type { RuleContext, RuleEvaluation, SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+
+const CANONICAL_SELECTOR = 'link[rel="canonical"]'
+
+/**
+ * Cross-checks of the canonical URL. Each rule is not applicable (`null`)
+ * when the page has no canonical, so a missing tag is only reported once by
+ * the `canonical` rule.
+ */
+export const canonicalRules: SeoRule[] = [
+  {
+    id: 'canonical-multiple',
+    section: 'meta',
+    selector: CANONICAL_SELECTOR,
+    evaluate: ({ $, baseUrl, profile }) => evaluateMultiple(readCanonicals($, baseUrl), profile)
+  },
+  {
+    id: 'canonical-page-url',
+    section: 'meta',
+    selector: CANONICAL_SELECTOR,
+    evaluate: ({ $, baseUrl, pageUrl, profile }) => {
+      const [canonical] = readCanonicals($, baseUrl)
+      return canonical && pageUrl ? evaluatePageUrl(canonical, pageUrl, profile) : null
+    }
+  },
+  {
+    id: 'canonical-protocol',
+    section: 'meta',
+    selector: CANONICAL_SELECTOR,
+    evaluate: ({ $, baseUrl, pageUrl, profile }) => {
+      const [canonical] = readCanonicals($, baseUrl)
+      return canonical && pageUrl ? evaluateProtocol(canonical, pageUrl, profile) : null
+    }
+  },
+  {
+    id: 'canonical-og-url',
+    section: 'meta',
+    selector: `${CANONICAL_SELECTOR}, meta[property="og:url"]`,
+    evaluate: ({ $, baseUrl, profile }) => {
+      const [canonical] = readCanonicals($, baseUrl)
+      const ogUrl = resolveWithoutHash(getProperty($, 'og:url'), baseUrl)
+      return canonical && ogUrl ? evaluateOgUrl(canonical, ogUrl, profile) : null
+    }
+  },
+  {
+    id: 'canonical-target',
+    section: 'meta',
+    selector: CANONICAL_SELECTOR,
+    evaluate: (context) => evaluateTarget(context)
+  }
+]
+
+/** Resolved canonical URLs in document order, without fragments. */
+function readCanonicals($: CheerioAPI, baseUrl: URL): string[] {
+  return $(CANONICAL_SELECTOR)
+    .toArray()
+    .flatMap((element) => {
+      const url = resolveWithoutHash($(element).attr('href'), baseUrl)
+      return url ? [url] : []
+    })
+}
+
+function evaluateMultiple(canonicals: string[], profile: ScoringProfile): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'canonical-multiple')
+  if (canonicals.length < 2) return null
+
+  const distinct = [...new Set(canonicals)]
+  if (distinct.length > 1) {
+    return {
+      label: 'Multiple canonicals',
+      value: distinct.join(', '),
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `${canonicals.length} canonical tags point to different URLs — search engines may ignore all of them.`,
+      recommendation: 'Keep a single rel="canonical" link in the <head>.'
+    }
+  }
+
+  return {
+    label: 'Multiple canonicals',
+    value: distinct.join(', '),
+    status: 'warning',
+    score: scoreFor('warning'),
+    message: `The canonical tag is repeated ${canonicals.length} times.`,
+    recommendation: 'Remove the duplicate rel="canonical" links.'
+  }
+}
+
+function evaluatePageUrl(
+  canonical: string,
+  pageUrl: URL,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'canonical-page-url')
+  const url = resolveWithoutHash(pageUrl.toString(), pageUrl)
+  if (canonical !== url) {
+    return {
+      label: 'Canonical vs page URL',
+      value: canonical,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The canonical points to another URL than this page (${url}).`,
+      recommendation:
+        'Self-reference the page unless it intentionally consolidates into the canonical URL.'
+    }
+  }
+
+  return {
+    label: 'Canonical vs page URL',
+    value: canonical,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The canonical references this page.'
+  }
+}
+
+function evaluateProtocol(
+  canonical: string,
+  pageUrl: URL,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'canonical-protocol')
+  const canonicalProtocol = new URL(canonical).protocol
+  if (canonicalProtocol === 'http:' && pageUrl.protocol === 'https:') {
+    return {
+      label: 'Canonical protocol',
+      value: canonical,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'The HTTPS page declares an http:// canonical.',
+      recommendation: 'Point the canonical at the https:// URL.'
+    }
+  }
+
+  if (canonicalProtocol !== pageUrl.protocol) {
+    return {
+      label: 'Canonical protocol',
+      value: canonical,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The page is served over ${pageUrl.protocol.slice(0, -1)} but its canonical uses ${canonicalProtocol.slice(0, -1)}.`,
+      recommendation: 'Redirect the http:// URL to https:// so visitors land on the canonical.'
+    }
+  }
+
+  return {
+    label: 'Canonical protocol',
+    value: canonicalProtocol.slice(0, -1),
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The canonical uses the same protocol as the page.'
+  }
+}
+
+function evaluateOgUrl(
+  canonical: string,
+  ogUrl: string,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'canonical-og-url')
+  if (canonical !== ogUrl) {
+    return {
+      label: 'Canonical vs og:url',
+      value: `${canonical} ≠ ${ogUrl}`,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message:
+        'og:url differs from the canonical, so shares and search results credit different URLs.',
+      recommendation: 'Set og:url to the canonical URL.'
+    }
+  }
+
+  return {
+    label: 'Canonical vs og:url',
+    value: canonical,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'og:url matches the canonical.'
+  }
+}
+
+type TargetCheck = { checked: false } | { checked: true; problem?: string }
+
+/**
+ * The canonical must resolve to an indexable 200 page. Redirects observed
+ * while fetching this page are checked without extra requests; other URLs
+ * are only fetched when the caller enabled the canonical network check.
+ */
+async function evaluateTarget(context: RuleContext): Promise<RuleEvaluation | null> {
+  const { $, baseUrl, fetch, profile } = context
+  const scoreFor = ruleScorer(profile, 'canonical-target')
+  const [canonical] = readCanonicals($, baseUrl)
+  if (!canonical) return null
+
+  const redirect = findKnownRedirect(canonical, fetch)
+  const check: TargetCheck = redirect
+    ? { checked: true, problem: redirect }
+    : await probeTarget(canonical, context)
+  if (!check.checked) return null
+
+  if (check.problem) {
+    return {
+      label: 'Canonical target',
+      value: canonical,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `The canonical URL ${check.problem}.`,
+      recommendation: 'Point the canonical at the final, indexable URL that responds with 200.'
+    }
+  }
+
+  return {
+    label: 'Canonical target',
+    value: canonical,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The canonical URL responds with 200 and can be indexed.'
+  }
+}
+
+/** Self-referencing canonicals are skipped: this page was just fetched. */
+async function probeTarget(
+  canonical: string,
+  { pageUrl, network }: RuleContext
+): Promise<TargetCheck> {
+  if (!network?.canonical) return { checked: false }
+  if (pageUrl && canonical === resolveWithoutHash(pageUrl.toString(), pageUrl)) {
+    return { checked: false }
+  }
+
+  try {
+    const target = await network.fetchPage(canonical)
+    if (target.diagnostics.redirects.length) {
+      return { checked: true, problem: `redirects to ${target.finalUrl}` }
+    }
+    const verdict = buildIndexability(load(target.html), target.diagnostics, undefined)
+    return verdict.indexable
+      ? { checked: true }
+      : { checked: true, problem: `is not indexable (${verdict.reasons.join('; ')})` }
+  } catch (error) {
+    const details = describeFetchError(error)
+    return { checked: true, problem: `could not be fetched${details ? ` (${details})` : ''}` }
+  }
+}
+
+/** The canonical is one of the URLs this page was redirected away from. */
+function findKnownRedirect(
+  canonical: string,
+  fetch: FetchDiagnostics | undefined
+): string | undefined {
+  const hop = fetch?.redirects.find((redirect) => redirect.url === canonical)
+  return hop ? `redirects (${hop.status}) to ${hop.location}` : undefined
+}
+
+function describeFetchError(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const { details } = error as { details?: unknown }
+  if (typeof details === 'string') return details
+  return error instanceof Error ? error.message : undefined
+}
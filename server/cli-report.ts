@@ -0,0 +1,194 @@
+import type { SeoAnalysis, TagStatus } from '../shared/analysis-types.js'
+
+export type ReportFormat = 'text' | 'json' | 'junit'
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['text', 'json', 'junit']
+
+export type AuditResult =
+  | {
+      target: string
+      ok: true
+      passed: boolean
+      /** Human-readable reasons the target failed the gate; empty when it passed. */
+      reasons: string[]
+      analysis: SeoAnalysis
+    }
+  | {
+      target: string
+      ok: false
+      passed: false
+      error: string
+    }
+
+export interface AuditReport {
+  passed: boolean
+  minScore: number
+  failOnError: boolean
+  results: AuditResult[]
+}
+
+export function formatReport(report: AuditReport, format: ReportFormat): string {
+  if (format === 'json') return `${JSON.stringify(report, null, 2)}\n`
+  if (format === 'junit') return formatJUnit(report)
+  return formatText(report)
+}
+
+const STATUS_MARKERS: Record<TagStatus, string> = {
+  ok: '✓',
+  warning: '!',
+  error: '✗'
+}
+
+function formatText(report: AuditReport): string {
+  const lines: string[] = []
+
+  for (const result of report.results) {
+    lines.push(`${result.passed ? 'PASS' : 'FAIL'}  ${result.target}`)
+
+    if (!result.ok) {
+      lines.push(`      ${result.error}`, '')
+      continue
+    }
+
+    const { summary, issues } = result.analysis
+    const sectionScores = result.analysis.sections
+      .map((section) => `${section.label} ${section.score}`)
+      .join(' · ')
+    lines.push(
+      `      Score ${summary.overallScore}/100 (${summary.profile.label}) — ${sectionScores}`,
+      summary.indexability.indexable
+        ? '      Indexable'
+        : `      Not indexable: ${summary.indexability.reasons.join('; ')}`
+    )
+
+    for (const issue of issues) {
+      lines.push(`      ${STATUS_MARKERS[issue.severity]} ${issue.tag}: ${issue.message}`)
+    }
+    for (const reason of result.reasons) {
+      lines.push(`      → ${reason}`)
+    }
+    lines.push('')
+  }
+
+  const failed = report.results.filter((result) => !result.passed).length
+  lines.push(
+    failed
+      ? `${failed} of ${report.results.length} targets failed.`
+      : `All ${report.results.length} targets passed.`
+  )
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * One test suite per target and one test case per checked tag, plus a case
+ * for the score gate, so CI dashboards can show exactly which tags regressed.
+ */
+function formatJUnit(report: AuditReport): string {
+  const suites = report.results.map((result) => formatJUnitSuite(result, report))
+  const tests = suites.reduce((total, suite) => total + suite.tests, 0)
+  const failures = suites.reduce((total, suite) => total + suite.failures, 0)
+  const errors = suites.reduce((total, suite) => total + suite.errors, 0)
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="seo-meta-analyzer" tests="${tests}" failures="${failures}" errors="${errors}">`,
+    ...suites.map((suite) => suite.xml),
+    '</testsuites>',
+    ''
+  ].join('\n')
+}
+
+interface JUnitSuite {
+  xml: string
+  tests: number
+  failures: number
+  errors: number
+}
+
+function formatJUnitSuite(result: AuditResult, report: AuditReport): JUnitSuite {
+  const name = escapeXml(result.target)
+
+  if (!result.ok) {
+    return {
+      xml: [
+        `  <testsuite name="${name}" tests="1" failures="0" errors="1">`,
+        `    <testcase classname="${name}" name="fetch">`,
+        `      <error message="${escapeXml(result.error)}"/>`,
+        '    </testcase>',
+        '  </testsuite>'
+      ].join('\n'),
+      tests: 1,
+      failures: 0,
+      errors: 1
+    }
+  }
+
+  const { analysis } = result
+  const cases: string[] = []
+  let failures = 0
+
+  const scoreFailed = analysis.summary.overallScore < report.minScore
+  if (scoreFailed) failures++
+  cases.push(
+    formatTestCase(
+      name,
+      'overall score',
+      scoreFailed
+        ? `Score ${analysis.summary.overallScore} is below the minimum of ${report.minScore}.`
+        : undefined
+    )
+  )
+
+  for (const section of analysis.sections) {
+    for (const tag of section.tags) {
+      const failed = report.failOnError && tag.status === 'error'
+      if (failed) failures++
+      const output = !failed && tag.status !== 'ok' ? tag.message : undefined
+      cases.push(
+        formatTestCase(
+          `${name}.${section.id}`,
+          tag.label,
+          failed ? tag.message : undefined,
+          output
+        )
+      )
+    }
+  }
+
+  return {
+    xml: [
+      `  <testsuite name="${name}" tests="${cases.length}" failures="${failures}" errors="0">`,
+      ...cases,
+      '  </testsuite>'
+    ].join('\n'),
+    tests: cases.length,
+    failures,
+    errors: 0
+  }
+}
+
+function formatTestCase(
+  classname: string,
+  name: string,
+  failure: string | undefined,
+  output?: string
+): string {
+  const open = `    <testcase classname="${classname}" name="${escapeXml(name)}"`
+  if (!failure && !output) return `${open}/>`
+
+  return [
+    `${open}>`,
+    ...(failure ? [`      <failure message="${escapeXml(failure)}"/>`] : []),
+    ...(output ? [`      <system-out>${escapeXml(output)}</system-out>`] : []),
+    '    </testcase>'
+  ].join('\n')
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
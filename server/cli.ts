@@ -0,0 +1,204 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import {
+  analyzeHtml,
+  analyzeUrl,
+  httpUrlSchema,
+  mapAnalysisError,
+  type AnalysisOptions
+} from './analysis-service.js'
+import {
+  REPORT_FORMATS,
+  formatReport,
+  type AuditReport,
+  type AuditResult,
+  type ReportFormat
+} from './cli-report.js'
+import { mapWithConcurrency } from './concurrency.js'
+import { allowPrivateNetworks } from './fetch-guard.js'
+import { findScoringProfile, listScoringProfiles } from './scoring-profiles.js'
+
+const EXIT_PASSED = 0
+const EXIT_FAILED = 1
+const EXIT_USAGE = 2
+
+const CONCURRENCY = 4
+
+const USAGE = `Usage: seo-meta-analyzer [options] <url-or-file...>
+
+Audits each URL (http/https) or local HTML file and exits non-zero when a
+target scores below --min-score or reports an error-severity issue.
+
+Options:
+  -f, --format <text|json|junit>  Report format (default: text)
+  -o, --output <file>             Write the report to a file instead of stdout
+  -m, --min-score <0-100>         Minimum overall score per target (default: 0)
+  -p, --profile <id>              Scoring profile (${listScoringProfiles()
+    .map((profile) => profile.id)
+    .join(', ')})
+  -b, --base-url <url>            Base URL for resolving links in local files
+      --allow-errors              Do not fail on error-severity issues
+      --check-alternates          Fetch hreflang alternates to verify return links
+      --check-canonical           Fetch the canonical URL to verify it is an indexable 200 page
+      --skip-images               Do not download og:image and twitter:image to check their size
+      --check-links               Request every link on the page to find broken and redirecting links
+      --render                    Analyze URLs after JavaScript runs in headless Chrome (ANALYZER_CHROME_PATH)
+  -h, --help                      Show this help
+
+Exit codes: 0 all targets passed, 1 a target failed, 2 invalid usage.`
+
+interface CliOptions {
+  targets: string[]
+  format: ReportFormat
+  output: string | undefined
+  minScore: number
+  failOnError: boolean
+  baseUrl: string | undefined
+  analysis: AnalysisOptions
+}
+
+async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions | undefined
+  try {
+    options = parseCliArgs(argv)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    process.stderr.write(`${message}\n\n${USAGE}\n`)
+    return EXIT_USAGE
+  }
+
+  if (!options) {
+    process.stdout.write(`${USAGE}\n`)
+    return EXIT_PASSED
+  }
+
+  // The fetch guard protects the API; the CLI runs on the auditor's own machine,
+  // where local preview servers are a common target.
+  allowPrivateNetworks()
+  const report = await audit(options)
+  const output = formatReport(report, options.format)
+
+  if (options.output) {
+    await writeFile(options.output, output, 'utf8')
+    process.stderr.write(
+      `Report written to ${options.output} — ${report.passed ? 'passed' : 'failed'}.\n`
+    )
+  } else {
+    process.stdout.write(output)
+  }
+
+  return report.passed ? EXIT_PASSED : EXIT_FAILED
+}
+
+/** Returns `undefined` when help was requested. */
+function parseCliArgs(argv: string[]): CliOptions | undefined {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'text' },
+      output: { type: 'string', short: 'o' },
+      'min-score': { type: 'string', short: 'm', default: '0' },
+      profile: { type: 'string', short: 'p' },
+      'base-url': { type: 'string', short: 'b' },
+      'allow-errors': { type: 'boolean', default: false },
+      'check-alternates': { type: 'boolean', default: false },
+      'check-canonical': { type: 'boolean', default: false },
+      'skip-images': { type: 'boolean', default: false },
+      'check-links': { type: 'boolean', default: false },
+      render: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  })
+
+  if (values.help) return undefined
+
+  if (!positionals.length) {
+    throw new Error('Provide at least one URL or HTML file to audit.')
+  }
+
+  const format = values.format as ReportFormat
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${values.format}". Use ${REPORT_FORMATS.join(', ')}.`)
+  }
+
+  const minScore = Number(values['min-score'])
+  if (!Number.isFinite(minScore) || minScore < 0 || minScore > 100) {
+    throw new Error('--min-score must be a number between 0 and 100.')
+  }
+
+  if (values.profile && !findScoringProfile(values.profile)) {
+    throw new Error(`Unknown scoring profile "${values.profile}".`)
+  }
+
+  const baseUrl = values['base-url']
+  if (baseUrl && !httpUrlSchema.safeParse(baseUrl).success) {
+    throw new Error('--base-url must be an http(s) URL.')
+  }
+
+  return {
+    targets: positionals,
+    format,
+    output: values.output,
+    minScore,
+    failOnError: !values['allow-errors'],
+    baseUrl,
+    analysis: {
+      profile: values.profile,
+      checkAlternates: values['check-alternates'],
+      checkCanonical: values['check-canonical'],
+      checkImages: !values['skip-images'],
+      checkLinks: values['check-links'],
+      render: values.render
+    }
+  }
+}
+
+async function audit(options: CliOptions): Promise<AuditReport> {
+  const results = await mapWithConcurrency(options.targets, CONCURRENCY, (target) =>
+    auditTarget(target, options)
+  )
+
+  return {
+    passed: results.every((result) => result.passed),
+    minScore: options.minScore,
+    failOnError: options.failOnError,
+    results
+  }
+}
+
+async function auditTarget(target: string, options: CliOptions): Promise<AuditResult> {
+  try {
+    const analysis = isRemoteTarget(target)
+      ? await analyzeUrl(target, options.analysis)
+      : await analyzeFile(target, options)
+
+    const reasons: string[] = []
+    if (analysis.summary.overallScore < options.minScore) {
+      reasons.push(
+        `Score ${analysis.summary.overallScore} is below the minimum of ${options.minScore}.`
+      )
+    }
+    const errorCount = analysis.issues.filter((issue) => issue.severity === 'error').length
+    if (options.failOnError && errorCount) {
+      reasons.push(`${errorCount} error-severity ${errorCount === 1 ? 'issue' : 'issues'}.`)
+    }
+
+    return { target, ok: true, passed: reasons.length === 0, reasons, analysis }
+  } catch (error) {
+    const { payload } = mapAnalysisError(error)
+    const details = typeof payload.details === 'string' ? `: ${payload.details}` : ''
+    return { target, ok: false, passed: false, error: `${payload.error}${details}` }
+  }
+}
+
+async function analyzeFile(path: string, options: CliOptions) {
+  const html = await readFile(path, 'utf8')
+  return analyzeHtml(html, options.baseUrl, options.analysis)
+}
+
+function isRemoteTarget(target: string): boolean {
+  return /^https?:\/\//i.test(target)
+}
+
+process.exitCode = await runCli(process.argv.slice(2))
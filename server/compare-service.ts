@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import type {
+  AnalysisDiff,
+  CompareSource,
+  ScoreDelta,
+  SectionDiff,
+  SectionId,
+  SeoAnalysis,
+  TagChange,
+  TagResult,
+  TagSnapshot
+} from '../shared/analysis-types.js'
+import {
+  analyzeUrl,
+  createHttpError,
+  httpUrlSchema,
+  profileSchema,
+  type AnalysisOptions
+} from './analysis-service.js'
+import { getHistoryAnalysis } from './history-store.js'
+
+const compareSourceSchema = z.union([
+  z.object({ url: httpUrlSchema }).strict(),
+  z.object({ historyId: z.string().trim().min(1) }).strict()
+])
+
+export const compareRequestSchema = z
+  .object({
+    before: compareSourceSchema,
+    after: compareSourceSchema,
+    profile: profileSchema.optional()
+  })
+  .strict()
+
+/**
+ * Resolves both sides — URLs are analyzed now, history ids are loaded from
+ * the store — and diffs them.
+ */
+export async function compareSources(
+  before: CompareSource,
+  after: CompareSource,
+  options: AnalysisOptions = {}
+): Promise<AnalysisDiff> {
+  const [beforeAnalysis, afterAnalysis] = await Promise.all([
+    resolveSource(before, options),
+    resolveSource(after, options)
+  ])
+  return diffAnalyses(beforeAnalysis, afterAnalysis)
+}
+
+async function resolveSource(source: CompareSource, options: AnalysisOptions) {
+  if ('url' in source) return analyzeUrl(source.url, options)
+
+  const analysis = await getHistoryAnalysis(source.historyId)
+  if (!analysis) {
+    throw createHttpError(
+      404,
+      'Analysis not found',
+      `No stored analysis with id ${source.historyId}.`
+    )
+  }
+  return analysis
+}
+
+export function diffAnalyses(before: SeoAnalysis, after: SeoAnalysis): AnalysisDiff {
+  const afterIssueIds = new Set(after.issues.map((issue) => issue.id))
+  const beforeIssueIds = new Set(before.issues.map((issue) => issue.id))
+
+  return {
+    before: describeSide(before),
+    after: describeSide(after),
+    overall: scoreDelta(before.summary.overallScore, after.summary.overallScore),
+    sections: diffSections(before, after),
+    tags: diffTags(before, after),
+    issues: {
+      added: after.issues.filter((issue) => !beforeIssueIds.has(issue.id)),
+      resolved: before.issues.filter((issue) => !afterIssueIds.has(issue.id))
+    }
+  }
+}
+
+function describeSide({ url, finalUrl, fetchedAt, source }: SeoAnalysis): AnalysisDiff['before'] {
+  return { url, finalUrl, fetchedAt, source }
+}
+
+function scoreDelta(before: number | undefined, after: number | undefined): ScoreDelta {
+  return {
+    ...(before !== undefined ? { before } : {}),
+    ...(after !== undefined ? { after } : {}),
+    delta: (after ?? 0) - (before ?? 0)
+  }
+}
+
+/** Sections in `after` order, followed by sections that only `before` had. */
+function diffSections(before: SeoAnalysis, after: SeoAnalysis): SectionDiff[] {
+  const labels = new Map<SectionId, string>()
+  for (const section of [...after.sections, ...before.sections]) {
+    if (!labels.has(section.id)) labels.set(section.id, section.label)
+  }
+  const scoreOf = (analysis: SeoAnalysis, id: SectionId) =>
+    analysis.sections.find((section) => section.id === id)?.score
+
+  return [...labels].map(([id, label]) => ({
+    id,
+    label,
+    ...scoreDelta(scoreOf(before, id), scoreOf(after, id))
+  }))
+}
+
+function diffTags(before: SeoAnalysis, after: SeoAnalysis): TagChange[] {
+  const beforeTags = indexTags(before)
+  const afterTags = indexTags(after)
+  const keys = [...new Set([...afterTags.keys(), ...beforeTags.keys()])]
+
+  return keys.flatMap((key): TagChange[] => {
+    const previous = beforeTags.get(key)
+    const current = afterTags.get(key)
+    const entry = current ?? previous
+    if (!entry) return []
+    const { section, tag } = entry
+
+    if (!previous || !current) {
+      return [
+        {
+          section,
+          id: tag.id,
+          label: tag.label,
+          change: previous ? 'removed' : 'added',
+          ...(previous ? { before: snapshot(previous.tag) } : {}),
+          ...(current ? { after: snapshot(current.tag) } : {})
+        }
+      ]
+    }
+
+    if (previous.tag.value === current.tag.value && previous.tag.status === current.tag.status) {
+      return []
+    }
+    return [
+      {
+        section,
+        id: tag.id,
+        label: tag.label,
+        change: 'changed',
+        before: snapshot(previous.tag),
+        after: snapshot(current.tag)
+      }
+    ]
+  })
+}
+
+function indexTags(analysis: SeoAnalysis): Map<string, { section: SectionId; tag: TagResult }> {
+  return new Map(
+    analysis.sections.flatMap((section) =>
+      section.tags.map((tag) => [`${section.id}-${tag.id}`, { section: section.id, tag }] as const)
+    )
+  )
+}
+
+function snapshot({ value, status, score }: TagResult): TagSnapshot {
+  return { ...(value !== undefined ? { value } : {}), status, score }
+}
@@ -0,0 +1,316 @@
+import type { CheerioAPI } from 'cheerio'
+import { normalizeText } from './dom-helpers.js'
+import { listSample, type RuleEvaluation, type SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6'
+
+/** Elements whose text is not visible page copy. */
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg'
+
+/** Title separators that usually split the page name from the brand. */
+const TITLE_SEPARATOR = /\s+[|–—·•:-]\s+/
+
+const STOP_WORDS = new Set(
+  (
+    'about all and any are best but can for from get has have home how into its more new not our ' +
+    'page the that this was were what when where which who why will with you your'
+  ).split(' ')
+)
+
+/** Checks of the page body: headings, copy length, images and links. */
+export const contentRules: SeoRule[] = [
+  {
+    id: 'h1',
+    section: 'content',
+    selector: 'h1',
+    evaluate: ({ $, profile }) => evaluateH1(readHeadings($, 'h1'), profile)
+  },
+  {
+    id: 'heading-hierarchy',
+    section: 'content',
+    selector: HEADING_SELECTOR,
+    evaluate: ({ $, profile }) => evaluateHeadingHierarchy($, profile)
+  },
+  {
+    id: 'word-count',
+    section: 'content',
+    selector: 'body',
+    evaluate: ({ $, profile }) => evaluateWordCount(countWords(readBodyText($)), profile)
+  },
+  {
+    id: 'image-alt',
+    section: 'content',
+    selector: 'img[alt]',
+    evaluate: ({ $, profile }) => evaluateImageAlt($, profile)
+  },
+  {
+    id: 'empty-links',
+    section: 'content',
+    selector: 'a[href]',
+    evaluate: ({ $, profile }) => evaluateEmptyLinks($, profile)
+  },
+  {
+    id: 'title-terms',
+    section: 'content',
+    selector: 'title, h1, p',
+    evaluate: ({ $, profile }) => evaluateTitleTerms($, profile)
+  }
+]
+
+function readHeadings($: CheerioAPI, selector: string): string[] {
+  return $(selector)
+    .toArray()
+    .map((element) => normalizeText($(element).text()) ?? '')
+}
+
+function evaluateH1(headings: string[], profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'h1')
+  if (!headings.length) {
+    return {
+      label: 'H1 heading',
+      status: 'error',
+      score: scoreFor('missing'),
+      message: 'The page has no <h1> heading.',
+      recommendation: 'Add one <h1> that states the topic of the page.'
+    }
+  }
+
+  if (headings.length > 1) {
+    return {
+      label: 'H1 heading',
+      value: headings.join(' · '),
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The page has ${headings.length} <h1> headings.`,
+      recommendation: 'Keep a single <h1> and demote the others to <h2>.'
+    }
+  }
+
+  const [heading] = headings
+  if (!heading) {
+    return {
+      label: 'H1 heading',
+      value: '',
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'The <h1> heading is empty.',
+      recommendation: 'Put the page topic in the <h1> as text.'
+    }
+  }
+
+  return {
+    label: 'H1 heading',
+    value: heading,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The page has exactly one <h1>.'
+  }
+}
+
+/** Flags levels that jump down by more than one step, e.g. `h2` → `h4`. */
+function evaluateHeadingHierarchy(
+  $: CheerioAPI,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'heading-hierarchy')
+  const levels = $(HEADING_SELECTOR)
+    .toArray()
+    .map((element) => Number(element.tagName.slice(1)))
+  if (!levels.length) return null
+
+  const skips: string[] = []
+  levels.forEach((level, index) => {
+    const previous = levels[index - 1]
+    if (previous !== undefined && level > previous + 1) skips.push(`h${previous} → h${level}`)
+  })
+  const outline = levels.map((level) => `h${level}`).join(' ')
+
+  if (skips.length) {
+    return {
+      label: 'Heading hierarchy',
+      value: outline,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Heading levels are skipped: ${[...new Set(skips)].join(', ')}.`,
+      recommendation: 'Nest headings one level at a time so the outline stays readable.'
+    }
+  }
+
+  return {
+    label: 'Heading hierarchy',
+    value: outline,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Heading levels are nested without skips.'
+  }
+}
+
+function readBodyText($: CheerioAPI): string {
+  const body = $('body').clone()
+  body.find(NON_CONTENT_SELECTOR).remove()
+  return body.text()
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length
+}
+
+function evaluateWordCount(words: number, profile: ScoringProfile): RuleEvaluation {
+  const { thresholds } = profile
+  const scoreFor = ruleScorer(profile, 'word-count')
+  const value = `${words} ${words === 1 ? 'word' : 'words'}`
+  if (words < thresholds.minWordCount) {
+    return {
+      label: 'Word count',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The page has thin content (fewer than ${thresholds.minWordCount} words).`,
+      recommendation: 'Expand the copy so the page fully answers the query it targets.'
+    }
+  }
+
+  return {
+    label: 'Word count',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `The page has at least ${thresholds.minWordCount} words of copy.`
+  }
+}
+
+/** `alt=""` marks decorative images and is accepted; only a missing attribute is flagged. */
+function evaluateImageAlt($: CheerioAPI, profile: ScoringProfile): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'image-alt')
+  const images = $('body img').toArray()
+  if (!images.length) return null
+
+  const missing = images
+    .filter((element) => $(element).attr('alt') === undefined)
+    .map((element) => $(element).attr('src') ?? '(no src)')
+  const value = `${images.length - missing.length} of ${images.length} images have alt text`
+
+  if (missing.length) {
+    return {
+      label: 'Image alt text',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `${missing.length} ${missing.length === 1 ? 'image is' : 'images are'} missing an alt attribute: ${listSample(missing)}.`,
+      recommendation:
+        'Describe each image in its alt attribute, or use alt="" for decorative images.'
+    }
+  }
+
+  return {
+    label: 'Image alt text',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Every image has an alt attribute.'
+  }
+}
+
+function evaluateEmptyLinks($: CheerioAPI, profile: ScoringProfile): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'empty-links')
+  const links = $('body a[href]').toArray()
+  if (!links.length) return null
+
+  const empty = links
+    .filter((element) => {
+      const link = $(element)
+      return (
+        !normalizeText(link.text()) &&
+        !normalizeText(link.attr('aria-label')) &&
+        !normalizeText(link.attr('title')) &&
+        !link
+          .find('img[alt]')
+          .toArray()
+          .some((image) => normalizeText($(image).attr('alt')))
+      )
+    })
+    .map((element) => $(element).attr('href') ?? '')
+
+  if (empty.length) {
+    return {
+      label: 'Empty links',
+      value: `${empty.length} of ${links.length} links`,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `${empty.length} ${empty.length === 1 ? 'link has' : 'links have'} no anchor text: ${listSample(empty)}.`,
+      recommendation: 'Give every link descriptive text, an aria-label, or an image with alt text.'
+    }
+  }
+
+  return {
+    label: 'Empty links',
+    value: `${links.length} links`,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Every link has anchor text.'
+  }
+}
+
+/** The title's main terms should reappear in the H1 and the first paragraph. */
+function evaluateTitleTerms($: CheerioAPI, profile: ScoringProfile): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'title-terms')
+  const title = normalizeText($('title').first().text())
+  const terms = title ? extractTerms(mainTitlePart(title)) : []
+  if (!terms.length) return null
+
+  const h1 = new Set(extractTerms($('h1').first().text()).map(stem))
+  const paragraph = new Set(extractTerms(readFirstParagraph($)).map(stem))
+  const missingFromH1 = terms.filter((term) => !h1.has(stem(term)))
+  const missingFromParagraph = terms.filter((term) => !paragraph.has(stem(term)))
+
+  const gaps = [
+    missingFromH1.length ? `the H1 lacks ${missingFromH1.join(', ')}` : undefined,
+    missingFromParagraph.length
+      ? `the first paragraph lacks ${missingFromParagraph.join(', ')}`
+      : undefined
+  ].filter(Boolean)
+
+  if (gaps.length) {
+    return {
+      label: 'Title terms in content',
+      value: terms.join(', '),
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Main title terms are missing from the content: ${gaps.join('; ')}.`,
+      recommendation: 'Repeat the main terms of the title in the H1 and the opening paragraph.'
+    }
+  }
+
+  return {
+    label: 'Title terms in content',
+    value: terms.join(', '),
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The main title terms appear in the H1 and the first paragraph.'
+  }
+}
+
+/** Drops the brand part of titles like `Blue Running Shoes | Acme`. */
+function mainTitlePart(title: string): string {
+  return title
+    .split(TITLE_SEPARATOR)
+    .reduce((longest, part) => (part.length > longest.length ? part : longest), '')
+}
+
+function extractTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  return [...new Set(words.filter((word) => word.length > 2 && !STOP_WORDS.has(word)))]
+}
+
+/** Crude plural folding so `shoe` matches `shoes`. */
+function stem(term: string): string {
+  return term.length > 3 && term.endsWith('s') ? term.slice(0, -1) : term
+}
+
+function readFirstParagraph($: CheerioAPI): string {
+  const paragraph = [...$('main p, article p').toArray(), ...$('body p').toArray()].find(
+    (element) => normalizeText($(element).text())
+  )
+  return paragraph ? $(paragraph).text() : ''
+}
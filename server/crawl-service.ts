@@ -0,0 +1,152 @@
+import { load } from 'cheerio'
+import { z } from 'zod'
+import type { CrawlReport, CrawledPage, PageFailure } from '../shared/analysis-types.js'
+import {
+  analyzeDocument,
+  fetchPage,
+  httpUrlSchema,
+  profileSchema,
+  type AnalysisOptions
+} from './analysis-service.js'
+import { mapWithConcurrency } from './concurrency.js'
+import { buildSiteReport, toPageFailure } from './site-report.js'
+
+export const MAX_CRAWL_DEPTH = 5
+export const MAX_CRAWL_PAGES = 100
+
+const CRAWL_CONCURRENCY = 4
+const NON_HTML_EXTENSION =
+  /\.(?:pdf|jpe?g|png|gif|svg|webp|avif|ico|zip|gz|mp3|mp4|webm|css|js|json|xml|txt)$/i
+
+export const crawlQuerySchema = z
+  .object({
+    url: httpUrlSchema,
+    depth: z.coerce.number().int().min(0).max(MAX_CRAWL_DEPTH).default(2),
+    limit: z.coerce.number().int().min(1).max(MAX_CRAWL_PAGES).default(25),
+    profile: profileSchema.optional()
+  })
+  .strict()
+
+export interface CrawlOptions extends AnalysisOptions {
+  /** How many link hops to follow from the start URL (0 = start page only). */
+  maxDepth?: number
+  /** Upper bound on fetched pages, counting failures and redirects to pages already crawled. */
+  maxPages?: number
+}
+
+type CrawlOutcome =
+  | { ok: true; page: CrawledPage; links: string[] }
+  | { ok: false; failure: PageFailure }
+
+/**
+ * Breadth-first crawl of same-origin links starting at `startUrl`. Every page
+ * is fetched once and analyzed with the same rules and profile; links that
+ * redirect to a page already crawled are not reported again.
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions = {}
+): Promise<CrawlReport> {
+  const { maxDepth = 2, maxPages = 25, ...analysisOptions } = options
+  const allowedOrigins = new Set([new URL(startUrl).origin])
+  const visited = new Set([normalizeCrawlUrl(startUrl)])
+  /** Final URLs of reported pages; links that redirect to one of them are dropped. */
+  const crawled = new Set<string>()
+  const pages: CrawledPage[] = []
+  const failures: PageFailure[] = []
+  let fetched = 0
+
+  let frontier = [startUrl]
+  for (let depth = 0; depth <= maxDepth && frontier.length; depth++) {
+    const batch = frontier.slice(0, maxPages - fetched)
+    fetched += batch.length
+    const outcomes = await mapWithConcurrency(batch, CRAWL_CONCURRENCY, (url) =>
+      crawlPage(url, depth, analysisOptions)
+    )
+
+    const nextFrontier: string[] = []
+    for (const outcome of outcomes) {
+      if (!outcome.ok) {
+        failures.push(outcome.failure)
+        continue
+      }
+
+      const { finalUrl } = outcome.page.analysis
+      const finalKey = normalizeCrawlUrl(finalUrl)
+      if (crawled.has(finalKey)) continue
+      crawled.add(finalKey)
+      visited.add(finalKey)
+      pages.push(outcome.page)
+      if (depth === 0) allowedOrigins.add(new URL(finalUrl).origin)
+
+      for (const link of outcome.links) {
+        const key = normalizeCrawlUrl(link)
+        if (visited.has(key) || !allowedOrigins.has(new URL(link).origin)) continue
+        visited.add(key)
+        nextFrontier.push(link)
+      }
+    }
+
+    frontier = nextFrontier
+  }
+
+  const analyses = pages.map((page) => page.analysis)
+
+  return {
+    startUrl,
+    maxDepth,
+    maxPages,
+    crawledAt: new Date().toISOString(),
+    ...buildSiteReport(analyses, failures),
+    pages,
+    failures
+  }
+}
+
+async function crawlPage(
+  url: string,
+  depth: number,
+  options: AnalysisOptions
+): Promise<CrawlOutcome> {
+  try {
+    const { html, finalUrl, diagnostics } = await fetchPage(url)
+    const analysis = await analyzeDocument(html, url, finalUrl, {
+      ...options,
+      fetch: diagnostics
+    })
+    return { ok: true, page: { depth, analysis }, links: extractCrawlLinks(html, finalUrl) }
+  } catch (error) {
+    return { ok: false, failure: toPageFailure(url, error) }
+  }
+}
+
+function extractCrawlLinks(html: string, pageUrl: string): string[] {
+  const $ = load(html)
+  const links = new Set<string>()
+
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href')?.trim()
+    if (!href) return
+
+    try {
+      const url = new URL(href, pageUrl)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return
+      if (NON_HTML_EXTENSION.test(url.pathname)) return
+      url.hash = ''
+      links.add(url.toString())
+    } catch {
+      // Ignore hrefs that do not resolve to a URL.
+    }
+  })
+
+  return [...links]
+}
+
+function normalizeCrawlUrl(value: string): string {
+  const url = new URL(value)
+  url.hash = ''
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.slice(0, -1)
+  }
+  return url.toString()
+}
@@ -0,0 +1,122 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+export const dataDir = process.env['ANALYZER_DATA_DIR'] ?? '.data'
+
+export interface DataFile<T> {
+  /** Reads the file once and keeps the parsed value in memory. */
+  load(): Promise<T>
+  /** Writes `value` and makes it the cached value once the write succeeded. */
+  save(value: T): Promise<void>
+  /**
+   * Saves `change` applied to a copy of the current value. Updates run one at
+   * a time, and a failed write leaves the cached value untouched.
+   */
+  update(change: (value: T) => T): Promise<T>
+}
+
+/**
+ * A JSON document under the data directory. `parse` turns file contents into
+ * the stored shape and `empty` is used when the file does not exist yet.
+ */
+export function createDataFile<T>(
+  fileName: string,
+  parse: (raw: unknown) => T,
+  empty: () => T
+): DataFile<T> {
+  const path = join(dataDir, fileName)
+  let loaded: Promise<T> | undefined
+  /** Writes are chained so concurrent updates never interleave file writes. */
+  let pendingWrite: Promise<void> = Promise.resolve()
+  let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+  const read = async (): Promise<T> => {
+    try {
+      return parse(JSON.parse(await readFile(path, 'utf8')))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return empty()
+      throw error
+    }
+  }
+
+  const load = (): Promise<T> => {
+    loaded ??= read().catch((error: unknown) => {
+      loaded = undefined
+      throw error
+    })
+    return loaded
+  }
+
+  /** Writes to a temporary file first so a crash never leaves a truncated file. */
+  const save = (value: T): Promise<void> => {
+    const write = pendingWrite.then(async () => {
+      await mkdir(dataDir, { recursive: true })
+      const temporaryPath = `${path}.${process.pid}.tmp`
+      await writeFile(temporaryPath, JSON.stringify(value))
+      await rename(temporaryPath, path)
+      loaded = Promise.resolve(value)
+    })
+    pendingWrite = write.catch(() => undefined)
+    return write
+  }
+
+  return {
+    load,
+    save,
+    update(change) {
+      const updated = pendingUpdate.then(async () => {
+        const value = change(structuredClone(await load()))
+        await save(value)
+        return value
+      })
+      pendingUpdate = updated.catch(() => undefined)
+      return updated
+    }
+  }
+}
+
+export interface DataRecords<T> {
+  /** `undefined` when no record has this id. */
+  read(id: string): Promise<T | undefined>
+  write(id: string, value: T): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+/**
+ * One JSON file per record in a subdirectory of the data directory, for
+ * values too large to rewrite together on every change. Records are not
+ * cached; `parse` runs on every read.
+ */
+export function createDataRecords<T>(
+  directoryName: string,
+  parse: (raw: unknown) => T
+): DataRecords<T> {
+  const directory = join(dataDir, directoryName)
+  const pathFor = (id: string) => {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid record id "${id}".`)
+    return join(directory, `${id}.json`)
+  }
+
+  return {
+    async read(id) {
+      try {
+        return parse(JSON.parse(await readFile(pathFor(id), 'utf8')))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+        throw error
+      }
+    },
+
+    async write(id, value) {
+      const path = pathFor(id)
+      await mkdir(directory, { recursive: true })
+      const temporaryPath = `${path}.${process.pid}.tmp`
+      await writeFile(temporaryPath, JSON.stringify(value))
+      await rename(temporaryPath, path)
+    },
+
+    async remove(id) {
+      await rm(pathFor(id), { force: true })
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import type { CheerioAPI } from 'cheerio'
+
+export function getMeta($: CheerioAPI, name: string): string | undefined {
+  return normalizeText($(`meta[name="${name}"]`).attr('content'))
+}
+
+export function getProperty($: CheerioAPI, property: string): string | undefined {
+  return normalizeText($(`meta[property="${property}"]`).attr('content'))
+}
+
+export function getCanonical($: CheerioAPI, baseUrl: URL): string | undefined {
+  const canonicalTag = $('link[rel="canonical"]').attr('href')
+  return resolveMaybeUrl(canonicalTag, baseUrl)
+}
+
+export function resolveMaybeUrl(value: string | undefined, baseUrl: URL): string | undefined {
+  if (!value) return undefined
+  try {
+    const resolved = new URL(value, baseUrl)
+    return resolved.toString()
+  } catch {
+    return undefined
+  }
+}
+
+/** Resolves `value` and drops the fragment so URLs compare reliably. */
+export function resolveWithoutHash(value: string | undefined, baseUrl: URL): string | undefined {
+  const resolved = resolveMaybeUrl(value, baseUrl)
+  if (!resolved) return undefined
+  const url = new URL(resolved)
+  url.hash = ''
+  return url.toString()
+}
+
+export function normalizeText(value: string | undefined | null): string | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  return trimmed.length ? trimmed : undefined
+}
+
+export function safeUrl(value: string): URL | undefined {
+  try {
+    return new URL(value)
+  } catch {
+    return undefined
+  }
+}
\ No newline at end of file
@@ -0,0 +1,262 @@
+import type {
+  AggregatedIssue,
+  DuplicateCluster,
+  DuplicateField,
+  DuplicatePage,
+  SeoAnalysis,
+  TagStatus
+} from '../shared/analysis-types.js'
+
+/** Minimum bigram similarity for two different values to count as near-duplicates. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.9
+
+interface FieldSpec {
+  field: DuplicateField
+  ruleId: string
+  label: string
+  singular: string
+  plural: string
+  exactSeverity: TagStatus
+  /** Whether values that are similar but not equal should be clustered too. */
+  detectNear: boolean
+  recommendation: string
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  {
+    field: 'title',
+    ruleId: 'title',
+    label: 'Title',
+    singular: 'title',
+    plural: 'titles',
+    exactSeverity: 'error',
+    detectNear: true,
+    recommendation: 'Write a unique title for every page that reflects its own primary query.'
+  },
+  {
+    field: 'description',
+    ruleId: 'description',
+    label: 'Meta Description',
+    singular: 'description',
+    plural: 'descriptions',
+    exactSeverity: 'warning',
+    detectNear: true,
+    recommendation: 'Give each page its own description that summarizes what is unique about it.'
+  },
+  {
+    field: 'canonical',
+    ruleId: 'canonical',
+    label: 'Canonical',
+    singular: 'canonical URL',
+    plural: 'canonicals',
+    exactSeverity: 'warning',
+    detectNear: false,
+    recommendation:
+      'Only consolidate true duplicates under one canonical; otherwise point each page at itself.'
+  }
+]
+
+export interface DuplicateDetectionOptions {
+  nearThreshold?: number
+}
+
+export interface DuplicateDetection {
+  clusters: DuplicateCluster[]
+  issues: AggregatedIssue[]
+}
+
+/**
+ * Compares titles, descriptions and canonicals across analyzed pages and
+ * reports clusters of exact and near-duplicate values as site-level issues.
+ */
+export function detectDuplicates(
+  analyses: SeoAnalysis[],
+  options: DuplicateDetectionOptions = {}
+): DuplicateDetection {
+  const { nearThreshold = NEAR_DUPLICATE_THRESHOLD } = options
+  const clusters: DuplicateCluster[] = []
+  const issues: AggregatedIssue[] = []
+
+  for (const spec of FIELD_SPECS) {
+    const groups = groupByValue(analyses, spec)
+    const exact = [...groups.values()]
+      .filter((pages) => pages.length > 1)
+      .map<DuplicateCluster>((pages, index) => ({
+        id: `${spec.field}-exact-${index + 1}`,
+        field: spec.field,
+        kind: 'exact',
+        similarity: 1,
+        pages
+      }))
+
+    const near = spec.detectNear
+      ? clusterNearDuplicates(groups, nearThreshold).map<DuplicateCluster>((cluster, index) => ({
+          id: `${spec.field}-near-${index + 1}`,
+          field: spec.field,
+          kind: 'near',
+          ...cluster
+        }))
+      : []
+
+    clusters.push(...exact, ...near)
+
+    if (exact.length) {
+      issues.push(
+        toIssue(`duplicate-${spec.field}`, spec, spec.exactSeverity, exact, (pages, count) =>
+          count === 1
+            ? `${pages} pages share the same ${spec.singular}.`
+            : `${pages} pages share ${count} duplicate ${spec.plural}.`
+        )
+      )
+    }
+    if (near.length) {
+      issues.push(
+        toIssue(`near-duplicate-${spec.field}`, spec, 'warning', near, (pages, count) =>
+          count === 1
+            ? `${pages} pages have nearly identical ${spec.plural}.`
+            : `${pages} pages have nearly identical ${spec.plural} in ${count} groups.`
+        )
+      )
+    }
+  }
+
+  return { clusters, issues }
+}
+
+function groupByValue(analyses: SeoAnalysis[], spec: FieldSpec): Map<string, DuplicatePage[]> {
+  const groups = new Map<string, DuplicatePage[]>()
+  const seen = new Set<string>()
+
+  for (const analysis of analyses) {
+    if (seen.has(analysis.finalUrl)) continue
+    seen.add(analysis.finalUrl)
+
+    const value = findTagValue(analysis, spec.ruleId)
+    if (!value) continue
+
+    const key = spec.field === 'canonical' ? normalizeUrlKey(value) : normalizeTextKey(value)
+    if (!key) continue
+
+    const pages = groups.get(key) ?? []
+    pages.push({ url: analysis.finalUrl, value })
+    groups.set(key, pages)
+  }
+
+  return groups
+}
+
+function clusterNearDuplicates(
+  groups: Map<string, DuplicatePage[]>,
+  threshold: number
+): Array<Pick<DuplicateCluster, 'similarity' | 'pages'>> {
+  const keys = [...groups.keys()]
+  const parent = keys.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) index = parent[index] as number
+    return index
+  }
+
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      if (similarity(keys[i] as string, keys[j] as string) >= threshold) {
+        parent[find(j)] = find(i)
+      }
+    }
+  }
+
+  const components = new Map<number, string[]>()
+  keys.forEach((key, index) => {
+    const root = find(index)
+    components.set(root, [...(components.get(root) ?? []), key])
+  })
+
+  return [...components.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => ({
+      similarity: minimumSimilarity(members),
+      pages: members.flatMap((key) => groups.get(key) ?? [])
+    }))
+}
+
+function toIssue(
+  id: string,
+  spec: FieldSpec,
+  severity: TagStatus,
+  clusters: DuplicateCluster[],
+  describe: (pageCount: number, clusterCount: number) => string
+): AggregatedIssue {
+  const pages = [...new Set(clusters.flatMap((cluster) => cluster.pages.map((page) => page.url)))]
+  return {
+    id,
+    tag: spec.label,
+    section: 'meta',
+    severity,
+    message: describe(pages.length, clusters.length),
+    recommendation: spec.recommendation,
+    pageCount: pages.length,
+    pages
+  }
+}
+
+function findTagValue(analysis: SeoAnalysis, ruleId: string): string | undefined {
+  for (const section of analysis.sections) {
+    const tag = section.tags.find((item) => item.id === ruleId)
+    if (tag) return tag.value
+  }
+  return undefined
+}
+
+function normalizeTextKey(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function normalizeUrlKey(value: string): string {
+  try {
+    const url = new URL(value)
+    url.hash = ''
+    if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+      url.pathname = url.pathname.slice(0, -1)
+    }
+    return url.toString()
+  } catch {
+    return value.trim()
+  }
+}
+
+function minimumSimilarity(keys: string[]): number {
+  let minimum = 1
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      minimum = Math.min(minimum, similarity(keys[i] as string, keys[j] as string))
+    }
+  }
+  return Math.round(minimum * 100) / 100
+}
+
+/** Sørensen–Dice coefficient over character bigrams. */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2)
+    const count = bigrams.get(bigram) ?? 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      overlap++
+    }
+  }
+
+  return (2 * overlap) / (a.length - 1 + (b.length - 1))
+}
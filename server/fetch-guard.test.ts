@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict'
+import dnsPromises from 'node:dns/promises'
+import { createServer, type Server } from 'node:http'
+import { syncBuiltinESMExports } from 'node:module'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+import {
+  assertContentType,
+  checkUrl,
+  guardedFetch,
+  isBlockedAddress,
+  readBodyPrefix,
+  readBodyWithLimit
+} from './fetch-guard.js'
+
+describe('isBlockedAddress', () => {
+  it('blocks loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1'
+    ]) {
+      assert.equal(isBlockedAddress(address), true, address)
+    }
+  })
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      assert.equal(isBlockedAddress(address), false, address)
+    }
+  })
+})
+
+describe('checkUrl', () => {
+  it('refuses schemes other than http and https', async () => {
+    assert.deepEqual(await checkUrl('ftp://example.com/'), {
+      reason: 'unsupported-protocol',
+      url: 'ftp://example.com/'
+    })
+  })
+
+  it('refuses IP literals in blocked ranges', async () => {
+    assert.deepEqual(await checkUrl('http://[::1]:8080/'), {
+      reason: 'private-address',
+      url: 'http://[::1]:8080/',
+      address: '::1'
+    })
+    assert.equal((await checkUrl('http://169.254.169.254/latest'))?.reason, 'private-address')
+  })
+
+  it('resolves host names before checking them', async () => {
+    assert.equal((await checkUrl('http://localhost/'))?.reason, 'private-address')
+  })
+
+  it('allows public IP literals', async () => {
+    assert.equal(await checkUrl('https://93.184.216.34/'), undefined)
+  })
+})
+
+describe('response checks', () => {
+  let server: Server
+  let origin: string
+
+  before(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/large') {
+        res.setHeader('Content-Type', 'text/html')
+        res.end('x'.repeat(2048))
+        return
+      }
+      res.setHeader('Content-Type', 'application/pdf')
+      res.end('%PDF')
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  it('rejects content types outside the allowed list', async () => {
+    const response = await fetch(`${origin}/pdf`)
+    assert.throws(
+      () => assertContentType(response, `${origin}/pdf`, ['text/html']),
+      (error: { statusCode: number; details: { reason: string } }) =>
+        error.statusCode === 415 && error.details.reason === 'unsupported-content-type'
+    )
+  })
+
+  it('stops reading a body that grows past the limit', async () => {
+    const response = await fetch(`${origin}/large`)
+    await assert.rejects(
+      readBodyWithLimit(response, `${origin}/large`, 1024),
+      (error: { statusCode: number }) => error.statusCode === 413
+    )
+  })
+
+  it('reads only the prefix of a body', async () => {
+    const response = await fetch(`${origin}/large`)
+    const body = await readBodyPrefix(response, 100)
+    assert.equal(body.byteLength, 100)
+  })
+})
+
+describe('guardedFetch', () => {
+  it('refuses to connect when the host resolves to a private address after the check', async () => {
+    const server = createServer((_req, res) => res.end('internal'))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+
+    // The check sees a public answer; the connection then resolves localhost for real.
+    const { lookup } = dnsPromises
+    Object.assign(dnsPromises, {
+      lookup: async () => [{ address: '93.184.216.34', family: 4 }]
+    })
+    syncBuiltinESMExports()
+    try {
+      await assert.rejects(
+        guardedFetch(`http://localhost:${port}/`),
+        (error: { statusCode: number; details: { reason: string; address: string } }) =>
+          error.statusCode === 403 &&
+          error.details.reason === 'private-address' &&
+          error.details.address === '127.0.0.1'
+      )
+    } finally {
+      Object.assign(dnsPromises, { lookup })
+      syncBuiltinESMExports()
+      server.close()
+    }
+  })
+})
@@ -0,0 +1,275 @@
+import { lookup as lookupCallback, type LookupAddress, type LookupOptions } from 'node:dns'
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+import { Agent, fetch as undiciFetch } from 'undici'
+import { createHttpError, isAnalysisHttpError, isRedirectStatus } from './analysis-service.js'
+
+/** Redirects followed by `guardedFetch` before giving up. */
+const MAX_REDIRECTS = 10
+
+/** Why a fetch was refused; sent as `details.reason` in the error response. */
+export type FetchPolicyReason =
+  | 'unsupported-protocol'
+  | 'private-address'
+  | 'unresolvable-host'
+  | 'unsupported-content-type'
+  | 'response-too-large'
+
+export interface FetchPolicyViolation {
+  reason: FetchPolicyReason
+  url: string
+  address?: string
+  contentType?: string
+  limitBytes?: number
+}
+
+const POLICY_ERRORS: Record<FetchPolicyReason, { status: number; message: string }> = {
+  'unsupported-protocol': { status: 403, message: 'Only http and https URLs can be fetched' },
+  'private-address': { status: 403, message: 'URL resolves to a private or reserved address' },
+  'unresolvable-host': { status: 502, message: 'Unable to resolve the host' },
+  'unsupported-content-type': { status: 415, message: 'Unsupported content type' },
+  'response-too-large': { status: 413, message: 'Response is too large to analyze' }
+}
+
+/**
+ * Loopback, private, link-local (including the 169.254.169.254 cloud metadata
+ * endpoint), carrier-grade NAT, multicast and reserved ranges. IPv4-mapped IPv6
+ * addresses are matched against the IPv4 rules by `BlockList` itself.
+ */
+const BLOCKED_RANGES: Array<[address: string, prefix: number, family: 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+]
+
+const blockList = new BlockList()
+for (const [address, prefix, family] of BLOCKED_RANGES) {
+  blockList.addSubnet(address, prefix, family)
+}
+
+let privateNetworksAllowed = process.env['ANALYZER_ALLOW_PRIVATE_NETWORKS'] === 'true'
+
+/** Lets every fetch reach private addresses, e.g. for the CLI auditing a local preview. */
+export function allowPrivateNetworks(): void {
+  privateNetworksAllowed = true
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  if (!family) return false
+  return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Returns why `url` may not be fetched, or `undefined` when it is allowed.
+ * Host names are resolved and refused when any of their addresses is private,
+ * so a public name pointing at an internal service is caught too.
+ */
+export async function checkUrl(url: string): Promise<FetchPolicyViolation | undefined> {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { reason: 'unsupported-protocol', url }
+  }
+  if (privateNetworksAllowed) return undefined
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  if (isIP(host)) {
+    addresses = [host]
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address)
+    } catch {
+      return { reason: 'unresolvable-host', url }
+    }
+  }
+
+  const blocked = addresses.find(isBlockedAddress)
+  return blocked ? { reason: 'private-address', url, address: blocked } : undefined
+}
+
+/** Error whose `details` carry the violation, so `mapAnalysisError` returns it as-is. */
+export function fetchPolicyError(violation: FetchPolicyViolation) {
+  const { status, message } = POLICY_ERRORS[violation.reason]
+  return createHttpError(status, message, violation)
+}
+
+export async function assertPublicUrl(url: string): Promise<void> {
+  const violation = await checkUrl(url)
+  if (violation) throw fetchPolicyError(violation)
+}
+
+/**
+ * Rejects responses whose media type is not in `allowed`. A missing
+ * `Content-Type` is accepted, as browsers sniff those.
+ */
+export function assertContentType(response: Response, url: string, allowed: string[]): void {
+  const contentType = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase()
+  if (contentType && !allowed.includes(contentType)) {
+    void response.body?.cancel()
+    throw fetchPolicyError({ reason: 'unsupported-content-type', url, contentType })
+  }
+}
+
+/** Reads the body, stopping as soon as it grows past `limitBytes`. */
+export async function readBodyWithLimit(
+  response: Response,
+  url: string,
+  limitBytes: number
+): Promise<Uint8Array> {
+  const tooLarge = () => fetchPolicyError({ reason: 'response-too-large', url, limitBytes })
+  if (Number(response.headers.get('content-length')) > limitBytes) {
+    void response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > limitBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return concatChunks(chunks, total)
+}
+
+/** Reads at most `limitBytes` and drops the rest, for formats that are only read up to a cap. */
+export async function readBodyPrefix(response: Response, limitBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array()
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (total < limitBytes) {
+    const { done, value } = await reader.read()
+    if (done) return concatChunks(chunks, total)
+    const kept = value.subarray(0, limitBytes - total)
+    chunks.push(kept)
+    total += kept.byteLength
+  }
+  await reader.cancel()
+  return concatChunks(chunks, total)
+}
+
+function concatChunks(chunks: Uint8Array[], total: number): Uint8Array {
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number
+) => void
+
+/**
+ * Resolves the host for the actual connection and refuses private addresses
+ * again, so a name whose DNS answer changes after `checkUrl` cannot reach them.
+ */
+function guardedLookup(hostname: string, options: LookupOptions, callback: LookupCallback) {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, [])
+      return
+    }
+    const blocked = privateNetworksAllowed
+      ? undefined
+      : addresses.find((entry) => isBlockedAddress(entry.address))
+    if (blocked) {
+      callback(
+        fetchPolicyError({
+          reason: 'private-address',
+          url: hostname,
+          address: blocked.address
+        }) as NodeJS.ErrnoException,
+        []
+      )
+      return
+    }
+    const [first] = addresses
+    if (options.all || !first) callback(null, addresses)
+    else callback(null, first.address, first.family)
+  })
+}
+
+/** Every guarded request connects through this agent. */
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } })
+
+/**
+ * `fetch` that checks the target with `assertPublicUrl` first and connects
+ * only to the addresses it checked. Redirects are followed here rather than
+ * by `fetch` so every hop is checked as well; pass `redirect: 'manual'` to
+ * handle them yourself.
+ */
+export async function guardedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  let currentUrl = url
+  for (let hops = 0; ; hops += 1) {
+    await assertPublicUrl(currentUrl)
+    const response = await pinnedFetch(currentUrl, { ...init, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (init.redirect === 'manual' || !isRedirectStatus(response.status) || !location) {
+      return response
+    }
+
+    void response.body?.cancel()
+    if (hops >= MAX_REDIRECTS) {
+      throw new Error(`Gave up after ${MAX_REDIRECTS} redirects`)
+    }
+    currentUrl = new URL(location, currentUrl).toString()
+  }
+}
+
+type UndiciRequestInit = NonNullable<Parameters<typeof undiciFetch>[1]>
+
+/**
+ * undici's `fetch`, which takes the pinned agent. Its types match the global
+ * `fetch` at runtime but are declared separately, hence the casts. A refusal
+ * from `guardedLookup` surfaces as the `cause` of the network error.
+ */
+async function pinnedFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    const response = await undiciFetch(url, {
+      ...(init as unknown as UndiciRequestInit),
+      dispatcher: guardedAgent
+    })
+    return response as unknown as Response
+  } catch (error) {
+    const cause = error instanceof Error ? error.cause : undefined
+    if (isAnalysisHttpError(cause)) {
+      const { details } = cause
+      throw fetchPolicyError({ ...(details as FetchPolicyViolation), url })
+    }
+    throw error
+  }
+}
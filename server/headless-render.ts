@@ -0,0 +1,108 @@
+import { checkUrl } from './fetch-guard.js'
+
+/** How long a page may take to reach network idle. */
+const RENDER_TIMEOUT_MS = 30_000
+
+/** Browsers are heavy; further renders wait for a slot. */
+const MAX_CONCURRENT_RENDERS = 2
+
+/** Schemes that load without touching the network. */
+const SAFE_SCHEMES = /^(data|blob):/i
+
+/** Request interception never sees WebSockets, so Chrome blocks them outright. */
+const BLOCKED_URL_PATTERNS = ['ws://*', 'wss://*']
+
+export interface RenderedPage {
+  html: string
+  /** URL after redirects, including ones made by JavaScript. */
+  finalUrl: string
+  renderMs: number
+}
+
+/** Chrome or Chromium executable used for `render=true`; rendering is off when unset. */
+export function chromeExecutablePath(): string | undefined {
+  return process.env['ANALYZER_CHROME_PATH']?.trim() || undefined
+}
+
+let activeRenders = 0
+const waiting: Array<() => void> = []
+
+async function acquireSlot(): Promise<() => void> {
+  if (activeRenders >= MAX_CONCURRENT_RENDERS) {
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  }
+  activeRenders += 1
+  return () => {
+    activeRenders -= 1
+    waiting.shift()?.()
+  }
+}
+
+/**
+ * Loads `url` in a fresh headless browser, waits until the network has been
+ * idle and returns the serialized DOM. Requests the page makes go through the
+ * same fetch guard as the server's own, so scripts cannot reach internal hosts;
+ * `data:` and `blob:` URLs load as-is and every other scheme, including
+ * WebSockets, is blocked.
+ */
+export async function renderPage(
+  url: string,
+  executablePath: string,
+  userAgent: string
+): Promise<RenderedPage> {
+  const release = await acquireSlot()
+  try {
+    const { launch } = await import('puppeteer-core')
+    const browser = await launch({
+      executablePath,
+      headless: true,
+      args: launchArgs()
+    })
+
+    try {
+      const page = await browser.newPage()
+      await page.setUserAgent(userAgent)
+      const session = await page.createCDPSession()
+      await session.send('Network.enable')
+      await session.send('Network.setBlockedURLs', { urls: BLOCKED_URL_PATTERNS })
+      await page.setRequestInterception(true)
+      page.on('request', (request) => {
+        const requestUrl = request.url()
+        if (SAFE_SCHEMES.test(requestUrl)) {
+          void request.continue()
+          return
+        }
+        if (!/^https?:/i.test(requestUrl)) {
+          void request.abort('blockedbyclient')
+          return
+        }
+        void checkUrl(requestUrl)
+          .then((violation) =>
+            violation ? request.abort('blockedbyclient') : request.continue()
+          )
+          .catch(() => request.abort('blockedbyclient').catch(() => undefined))
+      })
+      const startedAt = performance.now()
+      await page.goto(url, { waitUntil: 'networkidle0', timeout: RENDER_TIMEOUT_MS })
+      return {
+        html: await page.content(),
+        finalUrl: page.url(),
+        renderMs: Math.round(performance.now() - startedAt)
+      }
+    } finally {
+      await browser.close().catch(() => undefined)
+    }
+  } finally {
+    release()
+  }
+}
+
+/**
+ * Chrome refuses to start as root without `--no-sandbox`, which is the usual
+ * case in containers. `ANALYZER_CHROME_ARGS` adds flags for the environment.
+ */
+function launchArgs(): string[] {
+  const extra = process.env['ANALYZER_CHROME_ARGS']?.split(/\s+/).filter(Boolean) ?? []
+  const runningAsRoot = process.getuid?.() === 0
+  return runningAsRoot ? ['--no-sandbox', ...extra] : extra
+}
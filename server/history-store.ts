@@ -0,0 +1,185 @@
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import type {
+  AnalysisHistory,
+  HistoryEntry,
+  SectionId,
+  SeoAnalysis
+} from '../shared/analysis-types.js'
+import { createHttpError, httpUrlSchema } from './analysis-service.js'
+import { createDataFile, createDataRecords } from './data-file.js'
+import { analysisSchema } from './report-export.js'
+
+/** Runs kept per URL; the oldest are dropped first. */
+export const MAX_RUNS_PER_URL = 50
+
+/** Runs kept across all URLs, so the store stays bounded however many URLs are analyzed. */
+export const MAX_STORED_RUNS = 1000
+
+/**
+ * Vercel functions run on a read-only filesystem, so history is off there
+ * unless `ANALYZER_DATA_DIR` points at a writable directory such as `/tmp`.
+ */
+export const historyEnabled =
+  process.env['VERCEL'] !== '1' || process.env['ANALYZER_DATA_DIR'] !== undefined
+
+export const historyQuerySchema = z
+  .object({
+    url: httpUrlSchema,
+    limit: z.coerce.number().int().min(1).max(MAX_RUNS_PER_URL).default(MAX_RUNS_PER_URL)
+  })
+  .strict()
+
+/** Entries of every stored run, oldest first; each analysis lives in its own file. */
+interface HistoryIndex {
+  version: 2
+  entries: HistoryEntry[]
+}
+
+const historyIndexSchema = z
+  .object({
+    version: z.literal(2),
+    entries: z.array(
+      z
+        .object({
+          id: z.string().uuid(),
+          url: z.string().min(1),
+          finalUrl: z.string().min(1),
+          analyzedAt: z.string().datetime(),
+          overallScore: z.number(),
+          status: z.enum(['ok', 'warning', 'error']),
+          sectionScores: z.record(z.string(), z.number()),
+          profile: z.object({ id: z.string().min(1), label: z.string() }).strict(),
+          issueCount: z.number().int().nonnegative()
+        })
+        .strict()
+    )
+  })
+  .strict()
+
+const historyIndex = createDataFile<HistoryIndex>(
+  'history.json',
+  (raw) => historyIndexSchema.parse(raw),
+  () => ({ version: 2, entries: [] })
+)
+
+/** The export fields plus the section tags that comparisons diff; other fields pass through. */
+const storedAnalysisSchema = analysisSchema.extend({
+  sections: z.array(
+    z
+      .object({
+        id: z.string(),
+        label: z.string(),
+        score: z.number(),
+        status: z.enum(['ok', 'warning', 'error']),
+        tags: z.array(
+          z
+            .object({
+              id: z.string(),
+              label: z.string(),
+              value: z.string().optional(),
+              status: z.enum(['ok', 'warning', 'error']),
+              score: z.number()
+            })
+            .passthrough()
+        )
+      })
+      .passthrough()
+  )
+})
+
+const historyRuns = createDataRecords<SeoAnalysis>('history', (raw) => {
+  storedAnalysisSchema.parse(raw)
+  // Only the checked fields are read back, so the rest is trusted as written.
+  return raw as SeoAnalysis
+})
+
+/**
+ * Stores a URL analysis and returns its history entry. Only the new run's
+ * file and the small index are written, whatever the size of the history.
+ */
+export async function recordAnalysis(analysis: SeoAnalysis): Promise<HistoryEntry> {
+  const entry = toHistoryEntry(analysis)
+  await historyRuns.write(entry.id, analysis)
+
+  const index = await historyIndex.load()
+  index.entries.push(entry)
+
+  const dropped: HistoryEntry[] = []
+  const entriesForUrl = index.entries.filter((stored) => stored.url === entry.url)
+  if (entriesForUrl.length > MAX_RUNS_PER_URL) {
+    dropped.push(...entriesForUrl.slice(0, entriesForUrl.length - MAX_RUNS_PER_URL))
+  }
+  const remaining = index.entries.filter((stored) => !dropped.includes(stored))
+  if (remaining.length > MAX_STORED_RUNS) {
+    dropped.push(...remaining.slice(0, remaining.length - MAX_STORED_RUNS))
+  }
+  index.entries = index.entries.filter((stored) => !dropped.includes(stored))
+
+  await historyIndex.save(index)
+  await Promise.all(dropped.map((stored) => historyRuns.remove(stored.id)))
+  return entry
+}
+
+/** History is best-effort: a failed write is logged and never fails the analysis. */
+export async function tryRecordAnalysis(analysis: SeoAnalysis): Promise<HistoryEntry | undefined> {
+  if (!historyEnabled) return undefined
+  try {
+    return await recordAnalysis(analysis)
+  } catch (error) {
+    console.error('Could not store analysis history:', error)
+    return undefined
+  }
+}
+
+/** The most recent `limit` runs for `url`, oldest first. */
+export async function listHistory(url: string, limit = MAX_RUNS_PER_URL): Promise<AnalysisHistory> {
+  assertHistoryEnabled()
+  const key = normalizeUrl(url)
+  const index = await historyIndex.load()
+  const entries = index.entries.filter((entry) => entry.url === key)
+  return { url: key, entries: entries.slice(-limit) }
+}
+
+export async function getHistoryAnalysis(id: string): Promise<SeoAnalysis | undefined> {
+  assertHistoryEnabled()
+  const index = await historyIndex.load()
+  // Only ids from the index reach the filesystem.
+  if (!index.entries.some((entry) => entry.id === id)) return undefined
+  return historyRuns.read(id)
+}
+
+function assertHistoryEnabled() {
+  if (!historyEnabled) {
+    throw createHttpError(
+      501,
+      'History is disabled',
+      'Set ANALYZER_DATA_DIR to a writable directory to store analyses on Vercel.'
+    )
+  }
+}
+
+function toHistoryEntry(analysis: SeoAnalysis): HistoryEntry {
+  const { summary } = analysis
+  return {
+    id: randomUUID(),
+    url: normalizeUrl(analysis.url),
+    finalUrl: analysis.finalUrl,
+    analyzedAt: analysis.fetchedAt,
+    overallScore: summary.overallScore,
+    status: summary.status,
+    sectionScores: Object.fromEntries(
+      analysis.sections.map((section) => [section.id, summary.sectionScores[section.id]])
+    ) as Partial<Record<SectionId, number>>,
+    profile: summary.profile,
+    issueCount: analysis.issues.length
+  }
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).toString()
+  } catch {
+    return url
+  }
+}
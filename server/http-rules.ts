@@ -0,0 +1,117 @@
+import type { FetchDiagnostics, RedirectHop } from '../shared/analysis-types.js'
+import type { RuleEvaluation, SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+
+/**
+ * Checks on how the page was served. Every rule is not applicable (`null`)
+ * for pasted HTML, which has no fetch diagnostics.
+ */
+export const httpRules: SeoRule[] = [
+  {
+    id: 'redirect-chain',
+    section: 'http',
+    selector: 'Location',
+    evaluate: ({ fetch, profile }) => (fetch ? evaluateRedirectChain(fetch, profile) : null)
+  },
+  {
+    id: 'https-downgrade',
+    section: 'http',
+    selector: 'Location',
+    evaluate: ({ fetch, profile }) => (fetch ? evaluateHttpsDowngrade(fetch, profile) : null)
+  }
+]
+
+function evaluateRedirectChain(
+  { redirects }: FetchDiagnostics,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const { thresholds } = profile
+  const scoreFor = ruleScorer(profile, 'redirect-chain')
+  if (!redirects.length) {
+    return {
+      label: 'Redirect chain',
+      value: 'No redirects',
+      status: 'ok',
+      score: scoreFor('ok'),
+      message: 'The URL responds directly without redirects.'
+    }
+  }
+
+  const value = describeChain(redirects)
+  const lastTarget = redirects[redirects.length - 1]?.location
+  if (redirects.some((hop) => hop.url === lastTarget)) {
+    return {
+      label: 'Redirect chain',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `The URL redirects in a loop back to ${lastTarget}, so the page never loads.`,
+      recommendation: 'Fix the redirect rules so the chain ends at a URL that responds with 200.'
+    }
+  }
+
+  const hops = `${redirects.length} ${redirects.length === 1 ? 'hop' : 'hops'}`
+  if (redirects.length > thresholds.maxRedirects) {
+    return {
+      label: 'Redirect chain',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The URL redirects through ${hops} — more than the ${thresholds.maxRedirects} allowed.`,
+      recommendation:
+        'Point links and the redirect source straight at the final URL so crawlers need a single hop.'
+    }
+  }
+
+  const temporary = redirects.filter((hop) => hop.status === 302 || hop.status === 307)
+  if (temporary.length) {
+    return {
+      label: 'Redirect chain',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `The chain uses temporary redirects (${temporary.map((hop) => hop.status).join(', ')}).`,
+      recommendation: 'Use 301 or 308 for permanent moves so ranking signals transfer.'
+    }
+  }
+
+  return {
+    label: 'Redirect chain',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `The URL redirects permanently in ${hops}.`
+  }
+}
+
+function evaluateHttpsDowngrade(
+  { redirects }: FetchDiagnostics,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'https-downgrade')
+  const downgrades = redirects.filter(
+    (hop) => hop.url.startsWith('https:') && hop.location.startsWith('http:')
+  )
+
+  if (downgrades.length) {
+    return {
+      label: 'HTTPS downgrade',
+      value: downgrades.map((hop) => `${hop.url} → ${hop.location}`).join(', '),
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: 'A redirect sends visitors from HTTPS to plain HTTP.',
+      recommendation: 'Redirect to the https:// version of the target and enable HSTS.'
+    }
+  }
+
+  return {
+    label: 'HTTPS downgrade',
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'No redirect downgrades HTTPS to HTTP.'
+  }
+}
+
+function describeChain(redirects: RedirectHop[]): string {
+  return redirects.map((hop) => `${hop.status} ${hop.url} → ${hop.location}`).join(', ')
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { checkLangAttribute, checkLanguageTag } from './i18n-codes.js'
+
+describe('checkLangAttribute', () => {
+  it('accepts any well-formed BCP 47 tag', () => {
+    for (const value of ['en', 'es-419', 'fil', 'yue', 'zh-Hant-TW', 'de-CH-1996', 'en-US-x-twain']) {
+      assert.deepEqual(checkLangAttribute(value), { valid: true }, value)
+    }
+  })
+
+  it('rejects malformed tags with a specific reason', () => {
+    assert.match(reason(checkLangAttribute('en_US')), /"_" instead of "-"/)
+    assert.match(reason(checkLangAttribute('GB-en')), /starts with a region/)
+    assert.match(reason(checkLangAttribute('x-default')), /only valid in hreflang/)
+    assert.match(reason(checkLangAttribute('en--US')), /not a well-formed BCP 47/)
+  })
+})
+
+describe('checkLanguageTag', () => {
+  it('accepts ISO 639-1 languages with an optional script and ISO 3166-1 region', () => {
+    for (const value of ['de', 'en-GB', 'zh-Hant-TW']) {
+      assert.deepEqual(checkLanguageTag(value), { valid: true }, value)
+    }
+  })
+
+  it('only accepts x-default when allowed', () => {
+    assert.deepEqual(checkLanguageTag('x-default', true), { valid: true })
+    assert.equal(checkLanguageTag('x-default').valid, false)
+  })
+
+  it('explains common hreflang mistakes', () => {
+    assert.match(reason(checkLanguageTag('en-UK')), /use "GB"/)
+    assert.match(reason(checkLanguageTag('xx')), /not an ISO 639-1 language code/)
+  })
+})
+
+function reason(check: ReturnType<typeof checkLanguageTag>): string {
+  return check.valid ? '' : check.reason
+}
@@ -0,0 +1,113 @@
+/** ISO 639-1 two-letter language codes. */
+const LANGUAGE_CODES = new Set(
+  (
+    'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy ' +
+    'da de dv dz ee el en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu ' +
+    'hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb ' +
+    'lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om ' +
+    'or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ' +
+    'ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+  ).split(' ')
+)
+
+/** ISO 3166-1 alpha-2 region codes. */
+const REGION_CODES = new Set(
+  (
+    'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR ' +
+    'BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ ' +
+    'EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW ' +
+    'GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY ' +
+    'KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV ' +
+    'MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY ' +
+    'QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG ' +
+    'TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+  ).split(' ')
+)
+
+/** Common mistakes worth a targeted hint instead of a generic "unknown region". */
+const REGION_HINTS: Record<string, string> = {
+  UK: 'GB'
+}
+
+export type LanguageTagCheck = { valid: true } | { valid: false; reason: string }
+
+/**
+ * RFC 5646 `langtag` or private-use tag: language (with extlangs), script,
+ * region (ISO 3166-1 or UN M.49), variants, extensions and private use.
+ */
+const BCP47_TAG =
+  /^(?:(?:[a-z]{2,3}(?:-[a-z]{3}){0,3}|[a-z]{4,8})(?:-[a-z]{4})?(?:-(?:[a-z]{2}|\d{3}))?(?:-(?:[a-z\d]{5,8}|\d[a-z\d]{3}))*(?:-[\da-wyz](?:-[a-z\d]{2,8})+)*(?:-x(?:-[a-z\d]{1,8})+)?|x(?:-[a-z\d]{1,8})+)$/i
+
+/**
+ * Validates the structure of an `<html lang>` value, which takes any BCP 47
+ * tag, e.g. `fil`, `es-419` or `zh-Hant-TW`. Subtags are not looked up in
+ * the IANA registry; hreflang values go through `checkLanguageTag` instead.
+ */
+export function checkLangAttribute(value: string): LanguageTagCheck {
+  if (value.toLowerCase() === 'x-default') {
+    return { valid: false, reason: '"x-default" is only valid in hreflang annotations' }
+  }
+  if (value.includes('_')) {
+    return { valid: false, reason: `"${value}" separates subtags with "_" instead of "-"` }
+  }
+  if (!BCP47_TAG.test(value)) {
+    return { valid: false, reason: `"${value}" is not a well-formed BCP 47 language tag` }
+  }
+
+  const [language = '', region, ...rest] = value.split('-')
+  if (
+    !rest.length &&
+    region !== undefined &&
+    REGION_CODES.has(language.toUpperCase()) &&
+    !LANGUAGE_CODES.has(language.toLowerCase()) &&
+    LANGUAGE_CODES.has(region.toLowerCase())
+  ) {
+    return { valid: false, reason: `"${value}" starts with a region — put the language first` }
+  }
+  return { valid: true }
+}
+
+/**
+ * Validates an hreflang value shaped as `language[-Script][-REGION]`,
+ * e.g. `de`, `en-GB` or `zh-Hant-TW`. `x-default` is only accepted when
+ * `allowDefault` is set because it is meaningless in `<html lang>`.
+ */
+export function checkLanguageTag(value: string, allowDefault = false): LanguageTagCheck {
+  if (value.toLowerCase() === 'x-default') {
+    return allowDefault
+      ? { valid: true }
+      : {
+          valid: false,
+          reason: '"x-default" is only valid in hreflang annotations'
+        }
+  }
+
+  const [language = '', ...rest] = value.split('-')
+  if (!LANGUAGE_CODES.has(language.toLowerCase())) {
+    const swapped = REGION_CODES.has(language.toUpperCase()) && rest.length === 1
+    return {
+      valid: false,
+      reason: swapped
+        ? `"${value}" starts with a region — put the language first`
+        : `"${language}" is not an ISO 639-1 language code`
+    }
+  }
+
+  // Optional script subtag such as `Hant` in `zh-Hant-TW`.
+  if (rest[0] && /^[a-z]{4}$/i.test(rest[0])) rest.shift()
+  if (rest.length > 1) {
+    return { valid: false, reason: `"${value}" has too many subtags` }
+  }
+
+  const region = rest[0]
+  if (region !== undefined && !REGION_CODES.has(region.toUpperCase())) {
+    const hint = REGION_HINTS[region.toUpperCase()]
+    return {
+      valid: false,
+      reason: hint
+        ? `"${region}" is not an ISO 3166-1 region — use "${hint}"`
+        : `"${region}" is not an ISO 3166-1 region code`
+    }
+  }
+  return { valid: true }
+}
@@ -0,0 +1,289 @@
+import { load, type CheerioAPI } from 'cheerio'
+import { mapWithConcurrency } from './concurrency.js'
+import { normalizeText, resolveWithoutHash } from './dom-helpers.js'
+import { checkLangAttribute, checkLanguageTag } from './i18n-codes.js'
+import type { RuleContext, RuleEvaluation, SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+
+const HREFLANG_SELECTOR = 'link[rel="alternate"][hreflang]'
+
+/** Upper bound on alternates fetched per page when verifying return links. */
+const MAX_ALTERNATE_FETCHES = 10
+const ALTERNATE_FETCH_CONCURRENCY = 4
+
+interface HreflangAnnotation {
+  hreflang: string
+  /** Absolute URL without fragment, or `undefined` when the href is unusable. */
+  href: string | undefined
+}
+
+export const i18nRules: SeoRule[] = [
+  {
+    id: 'html-lang',
+    section: 'i18n',
+    selector: 'html[lang]',
+    evaluate: ({ $, profile }) => evaluateHtmlLang(normalizeText($('html').attr('lang')), profile)
+  },
+  {
+    id: 'hreflang-codes',
+    section: 'i18n',
+    selector: HREFLANG_SELECTOR,
+    evaluate: ({ $, baseUrl, profile }) => evaluateHreflangCodes(readHreflang($, baseUrl), profile)
+  },
+  {
+    id: 'hreflang-x-default',
+    section: 'i18n',
+    selector: 'link[rel="alternate"][hreflang="x-default"]',
+    evaluate: ({ $, baseUrl, profile }) => evaluateXDefault(readHreflang($, baseUrl), profile)
+  },
+  {
+    id: 'hreflang-self',
+    section: 'i18n',
+    selector: HREFLANG_SELECTOR,
+    evaluate: ({ $, baseUrl, pageUrl, profile }) =>
+      pageUrl ? evaluateSelfReference(readHreflang($, baseUrl), pageUrl, profile) : null
+  },
+  {
+    id: 'hreflang-return-links',
+    section: 'i18n',
+    selector: HREFLANG_SELECTOR,
+    evaluate: (context) => evaluateReturnLinks(context)
+  }
+]
+
+function readHreflang($: CheerioAPI, baseUrl: URL): HreflangAnnotation[] {
+  return $(HREFLANG_SELECTOR)
+    .toArray()
+    .flatMap((element) => {
+      const hreflang = normalizeText($(element).attr('hreflang'))
+      if (!hreflang) return []
+      return [{ hreflang, href: resolveWithoutHash($(element).attr('href'), baseUrl) }]
+    })
+}
+
+function evaluateHtmlLang(value: string | undefined, profile: ScoringProfile): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'html-lang')
+  if (!value) {
+    return {
+      label: 'HTML lang',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'The <html> element has no lang attribute.',
+      recommendation:
+        'Declare the page language, e.g. <html lang="en">, for search engines and screen readers.'
+    }
+  }
+
+  const check = checkLangAttribute(value)
+  if (!check.valid) {
+    return {
+      label: 'HTML lang',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Invalid lang attribute: ${check.reason}.`,
+      recommendation: 'Use a BCP 47 language tag such as "en", "en-GB" or "es-419".'
+    }
+  }
+
+  return {
+    label: 'HTML lang',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Page language is declared.'
+  }
+}
+
+/** Not applicable (`null`) when the page has no hreflang annotations. */
+function evaluateHreflangCodes(
+  annotations: HreflangAnnotation[],
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'hreflang-codes')
+  if (!annotations.length) return null
+
+  const problems: string[] = []
+  for (const { hreflang, href } of annotations) {
+    const check = checkLanguageTag(hreflang, true)
+    if (!check.valid) problems.push(check.reason)
+    if (!href) problems.push(`"${hreflang}" has a missing or invalid href`)
+  }
+
+  const targets = new Map<string, Set<string>>()
+  for (const { hreflang, href } of annotations) {
+    if (!href) continue
+    const key = hreflang.toLowerCase()
+    targets.set(key, (targets.get(key) ?? new Set()).add(href))
+  }
+  for (const [hreflang, hrefs] of targets) {
+    if (hrefs.size > 1) problems.push(`"${hreflang}" points to ${hrefs.size} different URLs`)
+  }
+
+  const value = annotations.map((annotation) => annotation.hreflang).join(', ')
+  if (problems.length) {
+    return {
+      label: 'Hreflang codes',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `${problems.join('; ')}.`,
+      recommendation:
+        'Use language[-REGION] codes such as en-GB and map every code to exactly one URL.'
+    }
+  }
+
+  return {
+    label: 'Hreflang codes',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `${annotations.length} hreflang ${annotations.length === 1 ? 'annotation' : 'annotations'} with valid codes.`
+  }
+}
+
+/** Not applicable (`null`) when the page has no hreflang annotations. */
+function evaluateXDefault(
+  annotations: HreflangAnnotation[],
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'hreflang-x-default')
+  if (!annotations.length) return null
+
+  const fallback = annotations.find(
+    (annotation) => annotation.hreflang.toLowerCase() === 'x-default'
+  )
+  if (!fallback) {
+    return {
+      label: 'Hreflang x-default',
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: 'No x-default alternate is declared.',
+      recommendation:
+        'Add hreflang="x-default" pointing to the language selector or global version of the page.'
+    }
+  }
+
+  return {
+    label: 'Hreflang x-default',
+    ...(fallback.href ? { value: fallback.href } : {}),
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'An x-default fallback is declared.'
+  }
+}
+
+/** Not applicable (`null`) when the page has no hreflang annotations. */
+function evaluateSelfReference(
+  annotations: HreflangAnnotation[],
+  pageUrl: URL,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'hreflang-self')
+  if (!annotations.length) return null
+
+  const url = resolveWithoutHash(pageUrl.toString(), pageUrl)
+  const self = annotations.find((annotation) => annotation.href === url)
+  if (!self) {
+    return {
+      label: 'Hreflang self-reference',
+      ...(url ? { value: url } : {}),
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: 'The hreflang set does not include this page.',
+      recommendation: 'List the page itself among its alternates with its own language code.'
+    }
+  }
+
+  return {
+    label: 'Hreflang self-reference',
+    value: `${self.hreflang} → ${self.href}`,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'The page references itself in its hreflang set.'
+  }
+}
+
+/**
+ * Fetches each alternate and checks that it links back to this page. Not
+ * applicable (`null`) without annotations or when the check is off.
+ */
+async function evaluateReturnLinks({
+  $,
+  baseUrl,
+  pageUrl: documentUrl,
+  profile,
+  network
+}: RuleContext): Promise<RuleEvaluation | null> {
+  const scoreFor = ruleScorer(profile, 'hreflang-return-links')
+  const annotations = readHreflang($, baseUrl)
+  if (!network?.alternates || !documentUrl || !annotations.length) return null
+
+  const { fetchPage } = network
+  const pageUrl = resolveWithoutHash(documentUrl.toString(), documentUrl)
+  const alternates = [
+    ...new Set(annotations.flatMap(({ href }) => (href && href !== pageUrl ? [href] : [])))
+  ]
+  const checked = alternates.slice(0, MAX_ALTERNATE_FETCHES)
+  if (!checked.length) return null
+
+  const results = await mapWithConcurrency(checked, ALTERNATE_FETCH_CONCURRENCY, async (url) => {
+    try {
+      const page = await fetchPage(url)
+      const returnLinks = readHreflang(load(page.html), new URL(page.finalUrl || url))
+      return {
+        url,
+        failed: false,
+        linksBack: returnLinks.some(({ href }) => href === pageUrl)
+      }
+    } catch {
+      return { url, failed: true, linksBack: false }
+    }
+  })
+
+  const skipped = alternates.length - checked.length
+  const value = `${checked.length} ${checked.length === 1 ? 'alternate' : 'alternates'} checked${
+    skipped ? `, ${skipped} skipped` : ''
+  }`
+  const missing = results.filter((result) => !result.failed && !result.linksBack)
+  const failed = results.filter((result) => result.failed)
+  const unreachable = failed.length
+    ? `Could not fetch ${failed.map((result) => result.url).join(', ')}.`
+    : undefined
+
+  if (missing.length) {
+    return {
+      label: 'Hreflang return links',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: [
+        `No return link from ${missing.map((result) => result.url).join(', ')}.`,
+        unreachable
+      ]
+        .filter(Boolean)
+        .join(' '),
+      recommendation:
+        'Every alternate must list this page in its own hreflang set, otherwise search engines ignore the pair.'
+    }
+  }
+
+  if (unreachable) {
+    return {
+      label: 'Hreflang return links',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: unreachable,
+      recommendation: 'Make sure every alternate URL is reachable and returns a 200 response.'
+    }
+  }
+
+  return {
+    label: 'Hreflang return links',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Every fetched alternate links back to this page.'
+  }
+}
@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+import { allowPrivateNetworks } from './fetch-guard.js'
+import { probeImage } from './image-probe.js'
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header, 0)
+  header.writeUInt32BE(13, 8)
+  header.write('IHDR', 12, 'ascii')
+  header.writeUInt32BE(width, 16)
+  header.writeUInt32BE(height, 20)
+  return header
+}
+
+function gif(width: number, height: number): Buffer {
+  const header = Buffer.alloc(10)
+  header.write('GIF89a', 0, 'ascii')
+  header.writeUInt16LE(width, 6)
+  header.writeUInt16LE(height, 8)
+  return header
+}
+
+/** SOI, an APP0 segment to skip, then a baseline SOF0 frame. */
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.from([0xff, 0xe0, 0x00, 0x04, 0x00, 0x00])
+  const sof0 = Buffer.alloc(11)
+  sof0.writeUInt16BE(0xffc0, 0)
+  sof0.writeUInt16BE(9, 2)
+  sof0.writeUInt8(8, 4)
+  sof0.writeUInt16BE(height, 5)
+  sof0.writeUInt16BE(width, 7)
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof0])
+}
+
+function webpExtended(width: number, height: number): Buffer {
+  const header = Buffer.alloc(30)
+  header.write('RIFF', 0, 'ascii')
+  header.write('WEBP', 8, 'ascii')
+  header.write('VP8X', 12, 'ascii')
+  header.writeUIntLE(width - 1, 24, 3)
+  header.writeUIntLE(height - 1, 27, 3)
+  return header
+}
+
+const IMAGES: Record<string, { contentType: string; body: Buffer; status?: number }> = {
+  '/image.png': { contentType: 'image/png', body: png(1200, 630) },
+  '/image.gif': { contentType: 'image/gif', body: gif(320, 200) },
+  '/image.jpg': { contentType: 'image/jpeg', body: jpeg(800, 600) },
+  '/image.webp': { contentType: 'image/webp', body: webpExtended(1600, 900) },
+  '/logo.svg': { contentType: 'image/svg+xml', body: Buffer.from('<svg/>') },
+  '/page.html': { contentType: 'text/html', body: Buffer.from('<p>not an image</p>') },
+  '/missing.png': { contentType: 'text/plain', body: Buffer.from('gone'), status: 404 }
+}
+
+describe('probeImage', () => {
+  let server: Server
+  let origin: string
+  const hits = new Map<string, number>()
+
+  before(async () => {
+    allowPrivateNetworks()
+    server = createServer((req, res) => {
+      const hit = (hits.get(req.url ?? '') ?? 0) + 1
+      hits.set(req.url ?? '', hit)
+      if (req.url === '/flaky.png' && hit === 1) {
+        res.statusCode = 503
+        res.end()
+        return
+      }
+      if (req.url === '/flaky.png' || req.url === '/cached.png') {
+        res.setHeader('Content-Type', 'image/png')
+        res.end(png(600, 315))
+        return
+      }
+      const image = IMAGES[req.url ?? '']
+      if (!image) {
+        res.statusCode = 500
+        res.end()
+        return
+      }
+      res.statusCode = image.status ?? 200
+      res.setHeader('Content-Type', image.contentType)
+      res.end(image.body)
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  it('reads PNG, GIF, JPEG and WebP dimensions from the header', async () => {
+    const expected = [
+      ['/image.png', 'png', 1200, 630],
+      ['/image.gif', 'gif', 320, 200],
+      ['/image.jpg', 'jpeg', 800, 600],
+      ['/image.webp', 'webp', 1600, 900]
+    ] as const
+    for (const [path, format, width, height] of expected) {
+      const probe = await probeImage(`${origin}${path}`)
+      assert.ok(probe.ok, path)
+      assert.equal(probe.format, format)
+      assert.equal(probe.width, width)
+      assert.equal(probe.height, height)
+      assert.equal(probe.bytes, IMAGES[path]?.body.byteLength)
+    }
+  })
+
+  it('falls back to the content type for formats without a readable header', async () => {
+    const probe = await probeImage(`${origin}/logo.svg`)
+    assert.ok(probe.ok)
+    assert.equal(probe.format, 'svg')
+    assert.equal(probe.width, undefined)
+  })
+
+  it('reports responses that are not images', async () => {
+    const probe = await probeImage(`${origin}/page.html`)
+    assert.equal(probe.ok, false)
+    assert.equal(probe.ok ? undefined : probe.contentType, 'text/html')
+  })
+
+  it('reports error statuses', async () => {
+    const probe = await probeImage(`${origin}/missing.png`)
+    assert.deepEqual(probe, {
+      url: `${origin}/missing.png`,
+      ok: false,
+      error: 'Server responded with status 404',
+      status: 404,
+      contentType: 'text/plain'
+    })
+  })
+
+  it('does not keep failed probes for later analyses', async () => {
+    const failed = await probeImage(`${origin}/flaky.png`)
+    assert.equal(failed.ok, false)
+    const retried = await probeImage(`${origin}/flaky.png`)
+    assert.ok(retried.ok)
+    assert.equal(retried.width, 600)
+    assert.equal(hits.get('/flaky.png'), 2)
+  })
+
+  it('reuses successful probes unless they started before `since`', async () => {
+    await probeImage(`${origin}/cached.png`)
+    await probeImage(`${origin}/cached.png`)
+    assert.equal(hits.get('/cached.png'), 1)
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await probeImage(`${origin}/cached.png`, { since: Date.now() })
+    assert.equal(hits.get('/cached.png'), 2)
+  })
+})
@@ -0,0 +1,248 @@
+import { USER_AGENT } from './analysis-service.js'
+import { guardedFetch } from './fetch-guard.js'
+
+export type ImageProbe =
+  | {
+      url: string
+      ok: true
+      contentType: string
+      /** Lower-case format name, e.g. `png`, `jpeg`, `webp`, `gif`, `svg`. */
+      format: string
+      width?: number
+      height?: number
+      /** From `Content-Length` or the downloaded body; absent when neither is known. */
+      bytes?: number
+    }
+  | {
+      url: string
+      ok: false
+      error: string
+      status?: number
+      contentType?: string
+    }
+
+/** Bodies are read up to this size; larger images are reported from their header alone. */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+const CACHE_TTL_MS = 10 * 60 * 1000
+const MAX_CACHE_ENTRIES = 500
+
+const cache = new Map<
+  string,
+  { startedAt: number; expiresAt: number; probe: Promise<ImageProbe> }
+>()
+
+export interface ProbeImageOptions {
+  /** Ignore cached probes started before this time (ms since the epoch). */
+  since?: number | undefined
+}
+
+/**
+ * Fetches an image and reads its format and dimensions from the file header.
+ * Successful results are cached briefly because pages of one site usually
+ * share images; failures are forgotten as soon as they settle, so a passing
+ * timeout or 5xx is retried by the next analysis.
+ */
+export function probeImage(url: string, { since }: ProbeImageOptions = {}): Promise<ImageProbe> {
+  const cached = cache.get(url)
+  const now = Date.now()
+  if (cached && cached.expiresAt > now && (since === undefined || cached.startedAt >= since)) {
+    return cached.probe
+  }
+
+  const probe = fetchImage(url)
+  const entry = { startedAt: now, expiresAt: now + CACHE_TTL_MS, probe }
+  cache.delete(url)
+  cache.set(url, entry)
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value
+    if (oldest !== undefined) cache.delete(oldest)
+  }
+  void probe.then((result) => {
+    if (!result.ok && cache.get(url) === entry) cache.delete(url)
+  })
+  return probe
+}
+
+async function fetchImage(url: string): Promise<ImageProbe> {
+  try {
+    const response = await guardedFetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': USER_AGENT, Accept: 'image/*' },
+      signal: AbortSignal.timeout(10000)
+    })
+    const contentType = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase()
+
+    if (!response.ok) {
+      void response.body?.cancel()
+      return {
+        url,
+        ok: false,
+        error: `Server responded with status ${response.status}`,
+        status: response.status,
+        ...(contentType ? { contentType } : {})
+      }
+    }
+
+    if (!contentType?.startsWith('image/')) {
+      void response.body?.cancel()
+      return {
+        url,
+        ok: false,
+        error: `Served as ${contentType ?? 'an unknown content type'}, not an image`,
+        status: response.status,
+        ...(contentType ? { contentType } : {})
+      }
+    }
+
+    const { data, complete } = await readLimited(response.body, MAX_IMAGE_BYTES)
+    const declaredLength = Number(response.headers.get('content-length'))
+    const bytes = Number.isFinite(declaredLength) && declaredLength > 0
+      ? declaredLength
+      : complete
+        ? data.byteLength
+        : undefined
+    const header = readImageHeader(data)
+
+    return {
+      url,
+      ok: true,
+      contentType,
+      format: header?.format ?? formatFromContentType(contentType),
+      ...(header?.width !== undefined ? { width: header.width, height: header.height } : {}),
+      ...(bytes !== undefined ? { bytes } : {})
+    }
+  } catch (error) {
+    return { url, ok: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+async function readLimited(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number
+): Promise<{ data: Uint8Array; complete: boolean }> {
+  if (!body) return { data: new Uint8Array(), complete: true }
+
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.byteLength
+    if (total >= limit) {
+      await reader.cancel()
+      return { data: concat(chunks, total), complete: false }
+    }
+  }
+
+  return { data: concat(chunks, total), complete: true }
+}
+
+function concat(chunks: Uint8Array[], total: number): Uint8Array {
+  const data = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return data
+}
+
+interface ImageHeader {
+  format: string
+  width?: number
+  height?: number
+}
+
+/** Reads format and dimensions from PNG, GIF, WebP and JPEG headers. */
+function readImageHeader(data: Uint8Array): ImageHeader | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...data.subarray(offset, offset + length))
+
+  if (data.byteLength >= 24 && ascii(1, 3) === 'PNG' && ascii(12, 4) === 'IHDR') {
+    return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  if (data.byteLength >= 10 && (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a')) {
+    return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  }
+
+  if (data.byteLength >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    return readWebpHeader(data, view, ascii(12, 4))
+  }
+
+  if (data.byteLength >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegHeader(data, view)
+  }
+
+  return undefined
+}
+
+function readWebpHeader(data: Uint8Array, view: DataView, chunk: string): ImageHeader {
+  if (chunk === 'VP8 ') {
+    return {
+      format: 'webp',
+      width: view.getUint16(26, true) & 0x3fff,
+      height: view.getUint16(28, true) & 0x3fff
+    }
+  }
+
+  if (chunk === 'VP8L') {
+    const b0 = data[21] ?? 0
+    const b1 = data[22] ?? 0
+    const b2 = data[23] ?? 0
+    const b3 = data[24] ?? 0
+    return {
+      format: 'webp',
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6))
+    }
+  }
+
+  if (chunk === 'VP8X') {
+    const uint24 = (offset: number) =>
+      (data[offset] ?? 0) | ((data[offset + 1] ?? 0) << 8) | ((data[offset + 2] ?? 0) << 16)
+    return { format: 'webp', width: 1 + uint24(24), height: 1 + uint24(27) }
+  }
+
+  return { format: 'webp' }
+}
+
+/** Walks JPEG segments until the first start-of-frame marker, which holds the size. */
+function readJpegHeader(data: Uint8Array, view: DataView): ImageHeader {
+  let offset = 2
+
+  while (offset + 9 < data.byteLength) {
+    if (data[offset] !== 0xff) break
+    const marker = data[offset + 1] ?? 0
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isStartOfFrame) {
+      return {
+        format: 'jpeg',
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7)
+      }
+    }
+
+    offset += 2 + view.getUint16(offset + 2)
+  }
+
+  return { format: 'jpeg' }
+}
+
+function formatFromContentType(contentType: string): string {
+  const subtype = contentType.slice('image/'.length)
+  if (subtype === 'svg+xml') return 'svg'
+  if (subtype === 'jpg' || subtype === 'pjpeg') return 'jpeg'
+  return subtype
+}
@@ -4,16 +4,78 @@ const nodeRequire = createRequire(import.meta.url)
 const express = nodeRequire('express') as typeof import('express')
 const cors = nodeRequire('cors') as typeof import('cors')
 
-import { analyzeQuerySchema, analyzeUrl, mapAnalysisError } from './analysis-service.js'
+import {
+  MAX_HTML_LENGTH,
+  analyzeHtml,
+  analyzeHtmlSchema,
+  analyzeQuerySchema,
+  mapAnalysisError
+} from './analysis-service.js'
+import { analyzeUrlCached } from './analysis-cache.js'
+import { streamAnalysis } from './analysis-stream.js'
+import { ALLOWED_ORIGIN, RATE_LIMIT_HEADERS, apiAccessMiddleware } from './api-access.js'
+import { compareRequestSchema, compareSources } from './compare-service.js'
+import { crawlQuerySchema, crawlSite } from './crawl-service.js'
+import { getHistoryAnalysis, historyQuerySchema, listHistory } from './history-store.js'
+import { runMonitor, startMonitorScheduler } from './monitor-service.js'
+import {
+  createMonitor,
+  createMonitorSchema,
+  deleteMonitor,
+  getMonitor,
+  listMonitors,
+  updateMonitor,
+  updateMonitorSchema
+} from './monitor-store.js'
+import { exportReport, exportRequestSchema } from './report-export.js'
+import { listScoringProfiles } from './scoring-profiles.js'
+import { analyzeSitemap, sitemapQuerySchema } from './sitemap-service.js'
 
 interface AnalyzeQuery {
   url?: string
+  profile?: string
+  alternates?: string
+  canonical?: string
+  images?: string
+  links?: string
+  render?: string
+  fresh?: string
+}
+
+interface CrawlQuery {
+  url?: string
+  depth?: string
+  limit?: string
+  profile?: string
+}
+
+interface HistoryQuery {
+  url?: string
+  limit?: string
+}
+
+interface SitemapQuery {
+  url?: string
+  limit?: string
+  concurrency?: string
+  profile?: string
 }
 
 type AnalyzeRequest = ExpressRequest<unknown, unknown, unknown, AnalyzeQuery>
+type CrawlRequest = ExpressRequest<unknown, unknown, unknown, CrawlQuery>
+type SitemapRequest = ExpressRequest<unknown, unknown, unknown, SitemapQuery>
+type HistoryRequest = ExpressRequest<unknown, unknown, unknown, HistoryQuery>
+type HistoryRunRequest = ExpressRequest<{ id: string }>
+type AnalyzeHtmlRequest = ExpressRequest<unknown, unknown, unknown>
+type CompareRequest = ExpressRequest<unknown, unknown, unknown>
+type ExportRequest = ExpressRequest<unknown, unknown, unknown>
+type CreateMonitorRequest = ExpressRequest<unknown, unknown, unknown>
+type MonitorRequest = ExpressRequest<{ id: string }, unknown, unknown>
+
+const EXPORT_BODY_LIMIT = '25mb'
 
 const app = express()
-app.use(cors())
+app.use(cors({ origin: ALLOWED_ORIGIN, exposedHeaders: [...RATE_LIMIT_HEADERS, 'X-Cache'] }))
 
 const PORT = Number.parseInt(process.env['PORT'] ?? '5174', 10)
 
@@ -21,8 +83,28 @@ app.get('/api/health', (_req: ExpressRequest, res: ExpressResponse) => {
   res.json({ status: 'ok' })
 })
 
+app.get('/api/profiles', (_req: ExpressRequest, res: ExpressResponse) => {
+  res.json(listScoringProfiles())
+})
+
+// Everything below needs an API key (when required) and counts against the rate limit.
+// Bodies are parsed only after that check, so refused clients cannot make the server buffer them.
+app.use('/api', apiAccessMiddleware)
+// Exports carry whole crawl and sitemap reports, which outgrow the HTML limit.
+app.use('/api/export', express.json({ limit: EXPORT_BODY_LIMIT }))
+app.use(express.json({ limit: MAX_HTML_LENGTH * 2 }))
+
 app.get('/api/analyze', async (req: AnalyzeRequest, res: ExpressResponse) => {
-  const validation = analyzeQuerySchema.safeParse({ url: req.query.url })
+  const validation = analyzeQuerySchema.safeParse({
+    url: req.query.url,
+    profile: req.query.profile,
+    alternates: req.query.alternates,
+    canonical: req.query.canonical,
+    images: req.query.images,
+    links: req.query.links,
+    render: req.query.render,
+    fresh: req.query.fresh
+  })
 
   if (!validation.success) {
     res.status(400).json({
@@ -32,10 +114,19 @@ app.get('/api/analyze', async (req: AnalyzeRequest, res: ExpressResponse) => {
     return
   }
 
-  const { url } = validation.data
+  const { url, profile, alternates, canonical, images, links, render, fresh } = validation.data
 
   try {
-    const analysis = await analyzeUrl(url)
+    const analysis = await analyzeUrlCached(url, {
+      profile,
+      checkAlternates: alternates,
+      checkCanonical: canonical,
+      checkImages: images,
+      checkLinks: links,
+      render,
+      fresh
+    })
+    res.setHeader('X-Cache', analysis.cache.status.toUpperCase())
     res.json(analysis)
   } catch (error) {
     const { statusCode, payload } = mapAnalysisError(error)
@@ -43,7 +134,282 @@ app.get('/api/analyze', async (req: AnalyzeRequest, res: ExpressResponse) => {
   }
 })
 
+app.get('/api/analyze/stream', async (req: AnalyzeRequest, res: ExpressResponse) => {
+  const validation = analyzeQuerySchema.safeParse({
+    url: req.query.url,
+    profile: req.query.profile,
+    alternates: req.query.alternates,
+    canonical: req.query.canonical,
+    images: req.query.images,
+    links: req.query.links,
+    render: req.query.render,
+    fresh: req.query.fresh
+  })
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid URL',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { url, profile, alternates, canonical, images, links, render, fresh } = validation.data
+  await streamAnalysis(res, url, {
+    profile,
+    checkAlternates: alternates,
+    checkCanonical: canonical,
+    checkImages: images,
+    checkLinks: links,
+    render,
+    fresh
+  })
+})
+
+app.post('/api/analyze', async (req: AnalyzeHtmlRequest, res: ExpressResponse) => {
+  const validation = analyzeHtmlSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid HTML payload',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { html, baseUrl, profile, checkAlternates, checkCanonical, checkImages, checkLinks } =
+    validation.data
+
+  try {
+    const analysis = await analyzeHtml(html, baseUrl, {
+      profile,
+      checkAlternates,
+      checkCanonical,
+      checkImages,
+      checkLinks
+    })
+    res.json(analysis)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.post('/api/compare', async (req: CompareRequest, res: ExpressResponse) => {
+  const validation = compareRequestSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid comparison request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { before, after, profile } = validation.data
+
+  try {
+    res.json(await compareSources(before, after, { profile }))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.post('/api/export', async (req: ExportRequest, res: ExpressResponse) => {
+  const validation = exportRequestSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid export request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    const report = await exportReport(validation.data)
+    res.setHeader('Content-Type', report.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`)
+    res.send(report.body)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/crawl', async (req: CrawlRequest, res: ExpressResponse) => {
+  const validation = crawlQuerySchema.safeParse({
+    url: req.query.url,
+    depth: req.query.depth,
+    limit: req.query.limit,
+    profile: req.query.profile
+  })
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid crawl request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { url, depth, limit, profile } = validation.data
+
+  try {
+    const report = await crawlSite(url, { maxDepth: depth, maxPages: limit, profile })
+    res.json(report)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/sitemap', async (req: SitemapRequest, res: ExpressResponse) => {
+  const validation = sitemapQuerySchema.safeParse({
+    url: req.query.url,
+    limit: req.query.limit,
+    concurrency: req.query.concurrency,
+    profile: req.query.profile
+  })
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid sitemap request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  const { url, limit, concurrency, profile } = validation.data
+
+  try {
+    const report = await analyzeSitemap(url, { limit, concurrency, profile })
+    res.json(report)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/history', async (req: HistoryRequest, res: ExpressResponse) => {
+  const validation = historyQuerySchema.safeParse({
+    url: req.query.url,
+    limit: req.query.limit
+  })
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid history request',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    res.json(await listHistory(validation.data.url, validation.data.limit))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/history/:id', async (req: HistoryRunRequest, res: ExpressResponse) => {
+  try {
+    const analysis = await getHistoryAnalysis(req.params.id)
+    if (!analysis) {
+      res.status(404).json({ error: 'Analysis not found' })
+      return
+    }
+    res.json(analysis)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/monitors', async (_req: ExpressRequest, res: ExpressResponse) => {
+  try {
+    res.json(await listMonitors())
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.post('/api/monitors', async (req: CreateMonitorRequest, res: ExpressResponse) => {
+  const validation = createMonitorSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid monitor',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    res.status(201).json(await createMonitor(validation.data))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.get('/api/monitors/:id', async (req: MonitorRequest, res: ExpressResponse) => {
+  try {
+    const monitor = await getMonitor(req.params.id)
+    if (!monitor) {
+      res.status(404).json({ error: 'Monitor not found' })
+      return
+    }
+    res.json(monitor)
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.patch('/api/monitors/:id', async (req: MonitorRequest, res: ExpressResponse) => {
+  const validation = updateMonitorSchema.safeParse(req.body ?? {})
+
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid monitor update',
+      details: validation.error.flatten()
+    })
+    return
+  }
+
+  try {
+    res.json(await updateMonitor(req.params.id, validation.data))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.delete('/api/monitors/:id', async (req: MonitorRequest, res: ExpressResponse) => {
+  try {
+    await deleteMonitor(req.params.id)
+    res.status(204).end()
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
+app.post('/api/monitors/:id/run', async (req: MonitorRequest, res: ExpressResponse) => {
+  try {
+    res.json(await runMonitor(req.params.id))
+  } catch (error) {
+    const { statusCode, payload } = mapAnalysisError(error)
+    res.status(statusCode).json(payload)
+  }
+})
+
 app.listen(PORT, () => {
   console.log(`SEO analyzer API started on port ${PORT}`)
+  startMonitorScheduler()
 })
 
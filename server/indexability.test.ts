@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { load } from 'cheerio'
+import type { FetchDiagnostics } from '../shared/analysis-types.js'
+import { buildIndexability } from './indexability.js'
+import type { RobotsTxtCheck } from './robots-txt.js'
+
+function diagnostics(xRobotsTag?: string): FetchDiagnostics {
+  return {
+    status: 200,
+    redirects: [],
+    headers: xRobotsTag ? { 'x-robots-tag': xRobotsTag } : {},
+    timing: { redirectMs: 0, ttfbMs: 0, downloadMs: 0, totalMs: 0 },
+    htmlBytes: 0
+  }
+}
+
+const page = (head = '') => load(`<html><head>${head}</head><body></body></html>`)
+
+describe('buildIndexability', () => {
+  it('treats a page without directives as indexable', () => {
+    const verdict = buildIndexability(page(), diagnostics(), undefined)
+    assert.equal(verdict.indexable, true)
+    assert.deepEqual(verdict.reasons, [])
+  })
+
+  it('blocks on noindex or none in meta robots and meta googlebot', () => {
+    assert.deepEqual(
+      buildIndexability(page('<meta name="robots" content="noindex, follow">'), undefined, undefined)
+        .reasons,
+      ['meta robots contains "noindex"']
+    )
+    assert.deepEqual(
+      buildIndexability(page('<meta name="GoogleBot" content="none">'), undefined, undefined)
+        .reasons,
+      ['meta googlebot contains "none"']
+    )
+  })
+
+  it('ignores meta tags aimed at other crawlers', () => {
+    const verdict = buildIndexability(page('<meta name="bingbot" content="noindex">'), undefined, undefined)
+    assert.equal(verdict.indexable, true)
+  })
+
+  it('reads unscoped and googlebot-scoped X-Robots-Tag directives', () => {
+    assert.equal(buildIndexability(page(), diagnostics('noindex'), undefined).indexable, false)
+    assert.equal(
+      buildIndexability(page(), diagnostics('googlebot: noindex, nofollow'), undefined).indexable,
+      false
+    )
+  })
+
+  it('ignores X-Robots-Tag directives scoped to other crawlers', () => {
+    const verdict = buildIndexability(page(), diagnostics('bingbot: noindex'), undefined)
+    assert.equal(verdict.indexable, true)
+  })
+
+  it('does not let a bare directive inherit the scope of an earlier header', () => {
+    // `X-Robots-Tag: bingbot: noindex` followed by `X-Robots-Tag: noindex`, as fetch joins them.
+    const verdict = buildIndexability(page(), diagnostics('bingbot: noindex, noindex'), undefined)
+    assert.equal(verdict.indexable, false)
+    assert.deepEqual(verdict.reasons, ['X-Robots-Tag contains "noindex"'])
+  })
+
+  it('does not read valued directives such as unavailable_after as a scope', () => {
+    const verdict = buildIndexability(
+      page(),
+      diagnostics('unavailable_after: 25 Jun 2030 15:00:00 PST, noindex'),
+      undefined
+    )
+    assert.deepEqual(verdict.reasons, ['X-Robots-Tag contains "noindex"'])
+  })
+
+  it('blocks when robots.txt disallows Googlebot', () => {
+    const robotsTxt: RobotsTxtCheck = {
+      url: 'https://example.com/robots.txt',
+      status: 'disallowed',
+      rule: { type: 'disallow', pattern: '/private' }
+    }
+    const verdict = buildIndexability(page(), diagnostics(), robotsTxt)
+    assert.equal(verdict.indexable, false)
+    assert.deepEqual(verdict.reasons, ['robots.txt blocks Googlebot (Disallow: /private)'])
+    assert.deepEqual(verdict.robotsTxt, {
+      url: 'https://example.com/robots.txt',
+      status: 'disallowed',
+      rule: 'Disallow: /private'
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import type { CheerioAPI } from 'cheerio'
+import type {
+  FetchDiagnostics,
+  IndexabilityVerdict,
+  RobotsTxtSummary
+} from '../shared/analysis-types.js'
+import { ROBOTS_USER_AGENT, type RobotsRule, type RobotsTxtCheck } from './robots-txt.js'
+
+interface DirectiveSource {
+  /** Where the directives came from, e.g. `meta robots` or `X-Robots-Tag`. */
+  source: string
+  directives: string[]
+}
+
+/** X-Robots-Tag directives whose value contains a colon and must not be read as a user agent. */
+const VALUED_DIRECTIVES = new Set([
+  'unavailable_after',
+  'max-snippet',
+  'max-image-preview',
+  'max-video-preview'
+])
+
+/** Every directive name Google documents for robots meta tags and `X-Robots-Tag`. */
+const KNOWN_DIRECTIVES = new Set([
+  'all',
+  'noindex',
+  'nofollow',
+  'none',
+  'noarchive',
+  'nocache',
+  'nosnippet',
+  'notranslate',
+  'noimageindex',
+  'indexifembedded',
+  ...VALUED_DIRECTIVES
+])
+
+const BLOCKING_DIRECTIVES = new Set(['noindex', 'none'])
+
+/**
+ * Combines meta robots/googlebot tags, the `X-Robots-Tag` header and the
+ * robots.txt check into one verdict for Googlebot.
+ */
+export function buildIndexability(
+  $: CheerioAPI,
+  fetch: FetchDiagnostics | undefined,
+  robotsTxt: RobotsTxtCheck | undefined
+): IndexabilityVerdict {
+  const sources = [
+    ...readMetaDirectives($),
+    ...readHeaderDirectives(fetch?.headers['x-robots-tag'])
+  ]
+
+  const reasons = sources.flatMap(({ source, directives }) =>
+    directives
+      .filter((directive) => BLOCKING_DIRECTIVES.has(directive))
+      .map((directive) => `${source} contains "${directive}"`)
+  )
+  if (robotsTxt?.status === 'disallowed') {
+    reasons.push(`robots.txt blocks Googlebot (${formatRule(robotsTxt.rule)})`)
+  }
+
+  return {
+    indexable: reasons.length === 0,
+    reasons,
+    directives: sources.flatMap(({ source, directives }) =>
+      directives.map((directive) => `${directive} (${source})`)
+    ),
+    ...(robotsTxt ? { robotsTxt: summarizeRobotsTxt(robotsTxt) } : {})
+  }
+}
+
+function readMetaDirectives($: CheerioAPI): DirectiveSource[] {
+  return ['robots', ROBOTS_USER_AGENT].flatMap((name) => {
+    const directives = $(`meta[name]`)
+      .toArray()
+      .filter((element) => $(element).attr('name')?.toLowerCase() === name)
+      .flatMap((element) => splitDirectives($(element).attr('content') ?? ''))
+    return directives.length ? [{ source: `meta ${name}`, directives }] : []
+  })
+}
+
+/**
+ * Parses `X-Robots-Tag`, where directives may be scoped to a crawler
+ * (`googlebot: noindex`). Unscoped and Googlebot-scoped directives apply.
+ * `fetch` joins repeated headers with ", ", which hides where one header
+ * ended, so a known directive after a comma is read as unscoped rather than
+ * inheriting the crawler named before it.
+ */
+function readHeaderDirectives(header: string | undefined): DirectiveSource[] {
+  if (!header) return []
+
+  const directives: string[] = []
+  let scope: string | undefined
+
+  for (const part of header.split(',')) {
+    let token = part.trim().toLowerCase()
+    const match = /^([a-z0-9_-]+)\s*:\s*(.*)$/.exec(token)
+    if (match?.[1] && !VALUED_DIRECTIVES.has(match[1])) {
+      scope = match[1]
+      token = match[2] ?? ''
+    } else if (KNOWN_DIRECTIVES.has(token.split(':')[0]?.trim() ?? '')) {
+      scope = undefined
+    }
+    if (token && (scope === undefined || scope === ROBOTS_USER_AGENT)) {
+      directives.push(token)
+    }
+  }
+
+  return directives.length ? [{ source: 'X-Robots-Tag', directives }] : []
+}
+
+function splitDirectives(value: string): string[] {
+  return value
+    .split(',')
+    .map((directive) => directive.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function summarizeRobotsTxt(check: RobotsTxtCheck): RobotsTxtSummary {
+  if (check.status === 'unavailable') return { url: check.url, status: check.status }
+  return check.rule
+    ? { url: check.url, status: check.status, rule: formatRule(check.rule) }
+    : { url: check.url, status: check.status }
+}
+
+function formatRule(rule: RobotsRule): string {
+  return `${rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${rule.pattern}`
+}
@@ -0,0 +1,117 @@
+import type { CheerioAPI } from 'cheerio'
+import type {
+  LinkCheck,
+  LinkInventory,
+  LinkRel,
+  LinkScope,
+  PageLink
+} from '../shared/analysis-types.js'
+import { USER_AGENT, isRedirectStatus } from './analysis-service.js'
+import { mapWithConcurrency } from './concurrency.js'
+import { normalizeText, resolveMaybeUrl, resolveWithoutHash } from './dom-helpers.js'
+import { guardedFetch } from './fetch-guard.js'
+
+/** Upper bound on distinct URLs requested per page when checking links. */
+const MAX_LINK_CHECKS = 100
+const LINK_CHECK_CONCURRENCY = 6
+
+const TRACKED_RELS: LinkRel[] = ['nofollow', 'sponsored', 'ugc']
+
+export interface LinkInventoryOptions {
+  /** Request every link target to find broken and redirecting links. */
+  check: boolean
+  /** Links on this origin are never requested (the pasted-HTML placeholder host). */
+  skipOrigin?: string | undefined
+}
+
+/** Collects the body's `<a href>` links and optionally checks their targets. */
+export async function buildLinkInventory(
+  $: CheerioAPI,
+  baseUrl: URL,
+  options: LinkInventoryOptions
+): Promise<LinkInventory> {
+  const links = extractLinks($, baseUrl)
+  if (!options.check) return { links, checked: false }
+
+  const targets = [
+    ...new Set(
+      links.flatMap((link) =>
+        link.url && link.scope !== 'other' && new URL(link.url).origin !== options.skipOrigin
+          ? [link.url]
+          : []
+      )
+    )
+  ].slice(0, MAX_LINK_CHECKS)
+  const checks = await mapWithConcurrency(targets, LINK_CHECK_CONCURRENCY, checkLink)
+  const byUrl = new Map(targets.map((url, index) => [url, checks[index]]))
+
+  return {
+    links: links.map((link) => {
+      const check = link.url ? byUrl.get(link.url) : undefined
+      return check ? { ...link, check } : link
+    }),
+    checked: true
+  }
+}
+
+function extractLinks($: CheerioAPI, baseUrl: URL): PageLink[] {
+  return $('body a[href]')
+    .toArray()
+    .map((element): PageLink => {
+      const link = $(element)
+      const href = link.attr('href') ?? ''
+      const rels = (link.attr('rel') ?? '').toLowerCase().split(/\s+/)
+      const base = {
+        href,
+        text: normalizeText(link.text()) ?? normalizeText(link.attr('aria-label')) ?? '',
+        rel: TRACKED_RELS.filter((rel) => rels.includes(rel))
+      }
+
+      const trimmed = href.trim()
+      if (!trimmed || trimmed === '#') return { ...base, scope: 'internal', problem: 'empty' }
+      if (/^javascript:/i.test(trimmed)) return { ...base, scope: 'other', problem: 'javascript' }
+
+      const url = resolveWithoutHash(trimmed, baseUrl)
+      if (!url) return { ...base, scope: 'other', problem: 'invalid' }
+      return { ...base, url, scope: classifyScope(new URL(url), baseUrl) }
+    })
+}
+
+/** `www.` is ignored so links between the apex and www host count as internal. */
+function classifyScope(url: URL, baseUrl: URL): LinkScope {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'other'
+  const host = (value: URL) => value.host.replace(/^www\./, '')
+  return host(url) === host(baseUrl) ? 'internal' : 'external'
+}
+
+/** Tries HEAD first and falls back to GET for servers that reject it. */
+async function checkLink(url: string): Promise<LinkCheck> {
+  try {
+    let response = await requestLink(url, 'HEAD')
+    if (response.status === 405 || response.status === 501) {
+      response = await requestLink(url, 'GET')
+    }
+    void response.body?.cancel()
+
+    const { status } = response
+    if (isRedirectStatus(status)) {
+      const location = resolveMaybeUrl(response.headers.get('location') ?? undefined, new URL(url))
+      return { result: 'redirect', status, ...(location ? { location } : {}) }
+    }
+    return status >= 400 ? { result: 'broken', status } : { result: 'ok', status }
+  } catch (error) {
+    return {
+      result: 'unreachable',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+function requestLink(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+  return guardedFetch(url, {
+    method,
+    redirect: 'manual',
+    headers: { 'User-Agent': USER_AGENT },
+    signal: AbortSignal.timeout(10000)
+  })
+}
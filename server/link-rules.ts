@@ -0,0 +1,143 @@
+import type { LinkInventory, PageLink } from '../shared/analysis-types.js'
+import { listSample, type RuleEvaluation, type SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+
+const LINK_SELECTOR = 'a[href]'
+
+/**
+ * Checks of the link inventory built for the page. Status rules are not
+ * applicable (`null`) unless link checking was enabled.
+ */
+export const linkRules: SeoRule[] = [
+  {
+    id: 'link-hrefs',
+    section: 'links',
+    selector: LINK_SELECTOR,
+    evaluate: ({ links, profile }) => evaluateHrefs(links, profile)
+  },
+  {
+    id: 'broken-links',
+    section: 'links',
+    selector: LINK_SELECTOR,
+    evaluate: ({ links, profile }) => (links.checked ? evaluateBroken(links, profile) : null)
+  },
+  {
+    id: 'redirecting-links',
+    section: 'links',
+    selector: LINK_SELECTOR,
+    evaluate: ({ links, profile }) => (links.checked ? evaluateRedirecting(links, profile) : null)
+  }
+]
+
+function evaluateHrefs(
+  { links }: LinkInventory,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'link-hrefs')
+  if (!links.length) return null
+
+  const internal = links.filter((link) => link.scope === 'internal').length
+  const external = links.filter((link) => link.scope === 'external').length
+  const value = `${links.length} links (${internal} internal, ${external} external)`
+  const javascript = links.filter((link) => link.problem === 'javascript')
+  const empty = links.filter((link) => link.problem === 'empty' || link.problem === 'invalid')
+
+  if (javascript.length || empty.length) {
+    const problems = [
+      javascript.length ? `${javascript.length} use javascript: URLs` : undefined,
+      empty.length ? `${empty.length} have an empty or unusable href` : undefined
+    ].filter(Boolean)
+    return {
+      label: 'Link targets',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Crawlers cannot follow every link: ${problems.join(', ')}.`,
+      recommendation: 'Point links at real URLs and use <button> for scripted actions.'
+    }
+  }
+
+  return {
+    label: 'Link targets',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Every link has a crawlable href.'
+  }
+}
+
+function evaluateBroken(
+  { links }: LinkInventory,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'broken-links')
+  const checked = uniqueChecked(links)
+  if (!checked.length) return null
+
+  const broken = checked.filter(
+    ({ check }) => check?.result === 'broken' || check?.result === 'unreachable'
+  )
+  if (broken.length) {
+    return {
+      label: 'Broken links',
+      value: `${broken.length} of ${checked.length} checked`,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `Broken links: ${listSample(broken.map(describeCheck))}.`,
+      recommendation: 'Fix or remove links that return 4xx/5xx or do not respond.'
+    }
+  }
+
+  return {
+    label: 'Broken links',
+    value: `${checked.length} checked`,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'Every checked link responds without an error.'
+  }
+}
+
+function evaluateRedirecting(
+  { links }: LinkInventory,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'redirecting-links')
+  const checked = uniqueChecked(links)
+  if (!checked.length) return null
+
+  const redirecting = checked.filter(({ check }) => check?.result === 'redirect')
+  if (redirecting.length) {
+    return {
+      label: 'Redirecting links',
+      value: `${redirecting.length} of ${checked.length} checked`,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `Links that redirect: ${listSample(redirecting.map(describeCheck))}.`,
+      recommendation: 'Update links to point straight at the final URL.'
+    }
+  }
+
+  return {
+    label: 'Redirecting links',
+    value: `${checked.length} checked`,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'No checked link redirects.'
+  }
+}
+
+/** One entry per checked URL, since a page often links the same target several times. */
+function uniqueChecked(links: PageLink[]): PageLink[] {
+  const seen = new Set<string>()
+  return links.filter((link) => {
+    if (!link.check || !link.url || seen.has(link.url)) return false
+    seen.add(link.url)
+    return true
+  })
+}
+
+function describeCheck({ url, check }: PageLink): string {
+  if (!check) return url ?? ''
+  if (check.result === 'redirect') return `${url} (${check.status} → ${check.location ?? '?'})`
+  return `${url} (${check.status ?? check.error ?? 'no response'})`
+}
@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict'
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import type {
+  Monitor,
+  MonitorRun,
+  MonitorWebhookPayload,
+  SeoAnalysis
+} from '../shared/analysis-types.js'
+import { allowPrivateNetworks } from './fetch-guard.js'
+import { buildWebhookPayload, detectRegressions, sendWebhook } from './monitor-service.js'
+
+function analysis(overrides: {
+  overallScore: number
+  indexable?: boolean
+  reasons?: string[]
+  errors?: string[]
+}): SeoAnalysis {
+  return {
+    finalUrl: 'https://example.com/',
+    fetchedAt: '2026-01-01T00:00:00.000Z',
+    summary: {
+      overallScore: overrides.overallScore,
+      status: 'warning',
+      indexability: {
+        indexable: overrides.indexable ?? true,
+        reasons: overrides.reasons ?? [],
+        directives: []
+      }
+    },
+    issues: (overrides.errors ?? []).map((id) => ({
+      id,
+      tag: id,
+      section: 'meta',
+      severity: 'error',
+      message: `${id} is broken`,
+      recommendation: ''
+    }))
+  } as unknown as SeoAnalysis
+}
+
+const previousRun: MonitorRun = {
+  analyzedAt: '2025-12-31T00:00:00.000Z',
+  overallScore: 90,
+  indexable: true,
+  errorIssues: ['meta-title'],
+  alerts: []
+}
+
+describe('detectRegressions', () => {
+  it('never alerts on the first run', () => {
+    assert.deepEqual(detectRegressions(undefined, analysis({ overallScore: 10 }), 5), [])
+  })
+
+  it('alerts when the score drops by at least minScoreDrop', () => {
+    assert.deepEqual(
+      detectRegressions(previousRun, analysis({ overallScore: 85 }), 5).map((alert) => alert.type),
+      ['score-drop']
+    )
+    assert.deepEqual(detectRegressions(previousRun, analysis({ overallScore: 86 }), 5), [])
+  })
+
+  it('alerts on errors that the previous run did not have', () => {
+    const alerts = detectRegressions(
+      previousRun,
+      analysis({ overallScore: 90, errors: ['meta-title', 'meta-canonical'] }),
+      5
+    )
+    assert.deepEqual(alerts, [
+      { type: 'new-error', message: 'New error — meta-canonical: meta-canonical is broken' }
+    ])
+  })
+
+  it('alerts when the page stops being indexable', () => {
+    const alerts = detectRegressions(
+      previousRun,
+      analysis({ overallScore: 90, indexable: false, reasons: ['meta robots contains "noindex"'] }),
+      5
+    )
+    assert.deepEqual(alerts, [
+      {
+        type: 'noindex',
+        message: 'Page is no longer indexable: meta robots contains "noindex"'
+      }
+    ])
+  })
+})
+
+describe('sendWebhook', () => {
+  let server: Server
+  let origin: string
+  let received: Array<{ path: string; headers: IncomingHttpHeaders; body: unknown }>
+
+  before(async () => {
+    allowPrivateNetworks()
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()))
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body) })
+        if (req.url === '/redirect') {
+          res.statusCode = 307
+          res.setHeader('Location', '/hook')
+        } else if (req.url === '/fail') {
+          res.statusCode = 500
+        }
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  beforeEach(() => {
+    received = []
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  const monitor = (path: string, webhookFormat: Monitor['webhookFormat']): Monitor => ({
+    id: 'monitor-1',
+    url: 'https://example.com/',
+    intervalMinutes: 60,
+    webhookUrl: `${origin}${path}`,
+    webhookFormat,
+    minScoreDrop: 5,
+    enabled: true,
+    createdAt: '2025-12-01T00:00:00.000Z',
+    nextRunAt: '2026-01-01T01:00:00.000Z',
+    lastRun: previousRun
+  })
+
+  const payloadFor = (target: Monitor): MonitorWebhookPayload => {
+    const current = analysis({ overallScore: 70 })
+    const run: MonitorRun = {
+      analyzedAt: current.fetchedAt,
+      overallScore: 70,
+      indexable: true,
+      errorIssues: [],
+      alerts: detectRegressions(previousRun, current, target.minScoreDrop)
+    }
+    return buildWebhookPayload(target, run, current)
+  }
+
+  it('posts the JSON payload', async () => {
+    const target = monitor('/hook', 'json')
+    const payload = payloadFor(target)
+    await sendWebhook(target, payload)
+
+    assert.equal(received.length, 1)
+    assert.equal(received[0]?.headers['content-type'], 'application/json')
+    assert.deepEqual(received[0]?.body, payload)
+    assert.equal(payload.analysis.previousScore, 90)
+  })
+
+  it('posts a text summary to Slack webhooks', async () => {
+    const target = monitor('/hook', 'slack')
+    await sendWebhook(target, payloadFor(target))
+
+    assert.deepEqual(received[0]?.body, {
+      text: '*SEO regression on <https://example.com/>* — score 70\n• Overall score dropped by 20 (90 → 70).'
+    })
+  })
+
+  it('fails on error statuses and does not follow redirects', async () => {
+    const failing = monitor('/fail', 'json')
+    await assert.rejects(sendWebhook(failing, payloadFor(failing)), /HTTP 500/)
+
+    const redirecting = monitor('/redirect', 'json')
+    await assert.rejects(sendWebhook(redirecting, payloadFor(redirecting)), /HTTP 307/)
+    assert.deepEqual(
+      received.map((request) => request.path),
+      ['/fail', '/redirect']
+    )
+  })
+})
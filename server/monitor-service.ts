@@ -0,0 +1,180 @@
+import type {
+  Monitor,
+  MonitorAlert,
+  MonitorRun,
+  MonitorWebhookPayload,
+  SeoAnalysis
+} from '../shared/analysis-types.js'
+import { USER_AGENT, analyzeUrl, mapAnalysisError } from './analysis-service.js'
+import { guardedFetch } from './fetch-guard.js'
+import { tryRecordAnalysis } from './history-store.js'
+import { getMonitor, listMonitors, monitorNotFound, recordMonitorRun } from './monitor-store.js'
+
+/** How often the scheduler looks for monitors that are due. */
+const SCHEDULER_TICK_MS = 30_000
+
+const runningMonitors = new Set<string>()
+
+/**
+ * Analyzes the monitor's URL, stores the run in the history, compares it with
+ * the previous run and posts the webhook when anything regressed.
+ */
+export async function runMonitor(id: string): Promise<Monitor> {
+  const monitor = await getMonitor(id)
+  if (!monitor) throw monitorNotFound(id)
+  if (runningMonitors.has(id)) return monitor
+
+  runningMonitors.add(id)
+  try {
+    let analysis: SeoAnalysis
+    try {
+      analysis = await analyzeUrl(monitor.url, { profile: monitor.profile })
+    } catch (error) {
+      const { payload } = mapAnalysisError(error)
+      const reason = typeof payload.details === 'string' ? payload.details : payload.error
+      return (await recordMonitorRun(id, { error: reason })) ?? monitor
+    }
+
+    const entry = await tryRecordAnalysis(analysis)
+    const alerts = detectRegressions(monitor.lastRun, analysis, monitor.minScoreDrop)
+    const run: MonitorRun = {
+      analyzedAt: analysis.fetchedAt,
+      overallScore: analysis.summary.overallScore,
+      indexable: analysis.summary.indexability.indexable,
+      errorIssues: errorIssueIds(analysis),
+      ...(entry ? { historyId: entry.id } : {}),
+      alerts
+    }
+
+    if (alerts.length) {
+      try {
+        await sendWebhook(monitor, buildWebhookPayload(monitor, run, analysis))
+      } catch (error) {
+        run.webhookError = error instanceof Error ? error.message : 'Webhook delivery failed.'
+      }
+    }
+
+    return (await recordMonitorRun(id, { run })) ?? monitor
+  } finally {
+    runningMonitors.delete(id)
+  }
+}
+
+/** The first run has nothing to compare against and never alerts. */
+export function detectRegressions(
+  previous: MonitorRun | undefined,
+  analysis: SeoAnalysis,
+  minScoreDrop: number
+): MonitorAlert[] {
+  if (!previous) return []
+
+  const alerts: MonitorAlert[] = []
+  const score = analysis.summary.overallScore
+  const drop = previous.overallScore - score
+  if (drop >= minScoreDrop) {
+    alerts.push({
+      type: 'score-drop',
+      message: `Overall score dropped by ${drop} (${previous.overallScore} → ${score}).`
+    })
+  }
+
+  const knownErrors = new Set(previous.errorIssues)
+  for (const issue of analysis.issues) {
+    if (issue.severity === 'error' && !knownErrors.has(issue.id)) {
+      alerts.push({ type: 'new-error', message: `New error — ${issue.tag}: ${issue.message}` })
+    }
+  }
+
+  const { indexability } = analysis.summary
+  if (previous.indexable && !indexability.indexable) {
+    alerts.push({
+      type: 'noindex',
+      message: `Page is no longer indexable: ${indexability.reasons.join('; ')}`
+    })
+  }
+
+  return alerts
+}
+
+export function buildWebhookPayload(
+  monitor: Monitor,
+  run: MonitorRun,
+  analysis: SeoAnalysis
+): MonitorWebhookPayload {
+  return {
+    event: 'seo.regression',
+    monitor: { id: monitor.id, url: monitor.url },
+    alerts: run.alerts,
+    analysis: {
+      finalUrl: analysis.finalUrl,
+      fetchedAt: analysis.fetchedAt,
+      overallScore: run.overallScore,
+      ...(monitor.lastRun ? { previousScore: monitor.lastRun.overallScore } : {}),
+      status: analysis.summary.status,
+      indexable: run.indexable,
+      ...(run.historyId ? { historyId: run.historyId } : {})
+    }
+  }
+}
+
+/** Slack incoming webhooks only accept `text`/`blocks`, so they get a plain summary. */
+function formatSlackMessage(payload: MonitorWebhookPayload): { text: string } {
+  const lines = payload.alerts.map((alert) => `• ${alert.message}`)
+  return {
+    text: [
+      `*SEO regression on <${payload.monitor.url}>* — score ${payload.analysis.overallScore}`,
+      ...lines
+    ].join('\n')
+  }
+}
+
+export async function sendWebhook(monitor: Monitor, payload: MonitorWebhookPayload): Promise<void> {
+  const body = monitor.webhookFormat === 'slack' ? formatSlackMessage(payload) : payload
+  // Redirects are not followed, so a webhook cannot bounce the payload to another host.
+  const response = await guardedFetch(monitor.webhookUrl, {
+    method: 'POST',
+    redirect: 'manual',
+    headers: { 'Content-Type': 'application/json', 'User-Agent': USER_AGENT },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000)
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}.`)
+  }
+}
+
+/**
+ * Runs due monitors one at a time on a fixed tick. Returns a function that
+ * stops the scheduler.
+ */
+export function startMonitorScheduler(tickMs = SCHEDULER_TICK_MS): () => void {
+  let ticking = false
+
+  const tick = async () => {
+    if (ticking) return
+    ticking = true
+    try {
+      const now = Date.now()
+      const due = (await listMonitors()).filter(
+        (monitor) => monitor.enabled && Date.parse(monitor.nextRunAt) <= now
+      )
+      for (const monitor of due) {
+        await runMonitor(monitor.id).catch((error: unknown) => {
+          console.error(`Monitor ${monitor.id} failed:`, error)
+        })
+      }
+    } catch (error) {
+      console.error('Could not load monitors:', error)
+    } finally {
+      ticking = false
+    }
+  }
+
+  void tick()
+  const timer = setInterval(() => void tick(), tickMs)
+  return () => clearInterval(timer)
+}
+
+function errorIssueIds(analysis: SeoAnalysis): string[] {
+  return analysis.issues.filter((issue) => issue.severity === 'error').map((issue) => issue.id)
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, describe, it } from 'node:test'
+import type { MonitorRun } from '../shared/analysis-types.js'
+
+// The data directory is read when the store is imported.
+const dataDir = await mkdtemp(join(tmpdir(), 'monitor-store-'))
+process.env['ANALYZER_DATA_DIR'] = dataDir
+const { createMonitor, listMonitors, recordMonitorRun, updateMonitor } = await import(
+  './monitor-store.js'
+)
+
+const input = {
+  url: 'https://example.com/',
+  intervalMinutes: 60,
+  webhookUrl: 'https://hooks.example.com/seo',
+  webhookFormat: 'json' as const,
+  minScoreDrop: 1,
+  enabled: true
+}
+
+const run: MonitorRun = {
+  analyzedAt: new Date().toISOString(),
+  overallScore: 80,
+  indexable: true,
+  errorIssues: [],
+  alerts: []
+}
+
+describe('monitor store', () => {
+  after(async () => {
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('takes a new baseline right away when the URL changes', async () => {
+    const monitor = await createMonitor(input)
+    const recorded = await recordMonitorRun(monitor.id, { run })
+    assert.ok(recorded?.lastRun)
+    assert.ok(Date.parse(recorded.nextRunAt) > Date.now())
+
+    const updated = await updateMonitor(monitor.id, { url: 'https://example.com/new' })
+    assert.equal(updated.lastRun, undefined)
+    assert.ok(Date.parse(updated.nextRunAt) <= Date.now())
+  })
+
+  it('keeps the stored monitors unchanged when the write fails', async () => {
+    const stored = await listMonitors()
+
+    // A non-empty directory in place of the file makes the final rename fail.
+    const path = join(dataDir, 'monitors.json')
+    await rm(path)
+    await mkdir(path)
+    await writeFile(join(path, 'blocker'), '')
+
+    await assert.rejects(createMonitor({ ...input, url: 'https://example.com/other' }))
+    await assert.rejects(updateMonitor(stored[0]?.id ?? '', { enabled: false }))
+    assert.deepEqual(await listMonitors(), stored)
+  })
+})
@@ -0,0 +1,209 @@
+import { randomUUID } from 'node:crypto'
+import { z } from 'zod'
+import type { Monitor, MonitorRun } from '../shared/analysis-types.js'
+import { createHttpError, httpUrlSchema, profileSchema } from './analysis-service.js'
+import { createDataFile } from './data-file.js'
+
+export const MIN_INTERVAL_MINUTES = 5
+export const MAX_INTERVAL_MINUTES = 7 * 24 * 60
+export const MAX_MONITORS = 100
+
+const monitorFields = {
+  url: httpUrlSchema,
+  intervalMinutes: z.number().int().min(MIN_INTERVAL_MINUTES).max(MAX_INTERVAL_MINUTES),
+  webhookUrl: httpUrlSchema,
+  webhookFormat: z.enum(['slack', 'json']),
+  minScoreDrop: z.number().int().min(1).max(100),
+  enabled: z.boolean()
+}
+
+export const createMonitorSchema = z
+  .object({
+    ...monitorFields,
+    intervalMinutes: monitorFields.intervalMinutes.default(60),
+    webhookFormat: monitorFields.webhookFormat.default('json'),
+    minScoreDrop: monitorFields.minScoreDrop.default(1),
+    enabled: monitorFields.enabled.default(true),
+    profile: profileSchema.optional()
+  })
+  .strict()
+
+/** Partial update; `profile: null` switches back to the default profile. */
+export const updateMonitorSchema = z
+  .object({
+    url: monitorFields.url.optional(),
+    intervalMinutes: monitorFields.intervalMinutes.optional(),
+    webhookUrl: monitorFields.webhookUrl.optional(),
+    webhookFormat: monitorFields.webhookFormat.optional(),
+    minScoreDrop: monitorFields.minScoreDrop.optional(),
+    enabled: monitorFields.enabled.optional(),
+    profile: profileSchema.nullable().optional()
+  })
+  .strict()
+
+export type MonitorCreate = z.infer<typeof createMonitorSchema>
+export type MonitorUpdate = z.infer<typeof updateMonitorSchema>
+
+interface MonitorsFile {
+  version: 1
+  monitors: Monitor[]
+}
+
+const monitorRunSchema = z
+  .object({
+    analyzedAt: z.string().datetime(),
+    overallScore: z.number(),
+    indexable: z.boolean(),
+    errorIssues: z.array(z.string()),
+    historyId: z.string().optional(),
+    alerts: z.array(
+      z
+        .object({
+          type: z.enum(['score-drop', 'new-error', 'noindex']),
+          message: z.string()
+        })
+        .strict()
+    ),
+    webhookError: z.string().optional()
+  })
+  .strict()
+
+/** Stored monitors; timestamps must parse, or a monitor would silently never run. */
+const monitorsFileSchema = z
+  .object({
+    version: z.literal(1),
+    monitors: z.array(
+      z
+        .object({
+          ...monitorFields,
+          id: z.string().min(1),
+          profile: z.string().min(1).optional(),
+          createdAt: z.string().datetime(),
+          nextRunAt: z.string().datetime(),
+          lastRun: monitorRunSchema.optional(),
+          lastError: z.string().optional()
+        })
+        .strict()
+    )
+  })
+  .strict()
+
+const monitorsFile = createDataFile<MonitorsFile>(
+  'monitors.json',
+  // JSON has no `undefined`, so optional fields parse as absent, as `Monitor` expects.
+  (raw) => monitorsFileSchema.parse(raw) as MonitorsFile,
+  () => ({ version: 1, monitors: [] })
+)
+
+export async function listMonitors(): Promise<Monitor[]> {
+  const { monitors } = await monitorsFile.load()
+  return monitors
+}
+
+export async function getMonitor(id: string): Promise<Monitor | undefined> {
+  const { monitors } = await monitorsFile.load()
+  return monitors.find((monitor) => monitor.id === id)
+}
+
+/** The first run is due right away and becomes the baseline for later alerts. */
+export async function createMonitor(input: MonitorCreate): Promise<Monitor> {
+  const now = new Date().toISOString()
+  const { profile, ...fields } = input
+  const monitor: Monitor = {
+    ...fields,
+    ...(profile ? { profile } : {}),
+    id: randomUUID(),
+    createdAt: now,
+    nextRunAt: now
+  }
+
+  await monitorsFile.update((file) => {
+    if (file.monitors.length >= MAX_MONITORS) {
+      throw createHttpError(409, 'Too many monitors', `At most ${MAX_MONITORS} monitors can exist.`)
+    }
+    file.monitors.push(monitor)
+    return file
+  })
+  return monitor
+}
+
+/**
+ * Changing the URL or profile drops the last run and makes the next run due
+ * right away, so it starts a new baseline.
+ */
+export async function updateMonitor(id: string, update: MonitorUpdate): Promise<Monitor> {
+  const file = await monitorsFile.update((current) => {
+    const monitor = current.monitors.find((item) => item.id === id)
+    if (!monitor) throw monitorNotFound(id)
+
+    const { profile, ...fields } = update
+    const rebaseline =
+      (fields.url !== undefined && fields.url !== monitor.url) ||
+      (profile !== undefined && (profile ?? undefined) !== monitor.profile)
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) Object.assign(monitor, { [key]: value })
+    }
+    if (profile === null) delete monitor.profile
+    else if (profile !== undefined) monitor.profile = profile
+    if (rebaseline) {
+      delete monitor.lastRun
+      monitor.nextRunAt = new Date().toISOString()
+    } else if (fields.intervalMinutes !== undefined || fields.enabled === true) {
+      monitor.nextRunAt = nextRunAfter(monitor, monitor.lastRun?.analyzedAt)
+    }
+    return current
+  })
+  return findStored(file, id)
+}
+
+export async function deleteMonitor(id: string): Promise<void> {
+  await monitorsFile.update((file) => {
+    const index = file.monitors.findIndex((monitor) => monitor.id === id)
+    if (index === -1) throw monitorNotFound(id)
+    file.monitors.splice(index, 1)
+    return file
+  })
+}
+
+/**
+ * Stores the outcome of a run. Returns undefined when the monitor was deleted
+ * while its analysis was running.
+ */
+export async function recordMonitorRun(
+  id: string,
+  outcome: { run: MonitorRun } | { error: string }
+): Promise<Monitor | undefined> {
+  const { monitors } = await monitorsFile.load()
+  if (!monitors.some((monitor) => monitor.id === id)) return undefined
+
+  const file = await monitorsFile.update((current) => {
+    const monitor = current.monitors.find((item) => item.id === id)
+    if (!monitor) return current
+
+    if ('run' in outcome) {
+      monitor.lastRun = outcome.run
+      delete monitor.lastError
+    } else {
+      monitor.lastError = outcome.error
+    }
+    monitor.nextRunAt = nextRunAfter(monitor, new Date().toISOString())
+    return current
+  })
+  return file.monitors.find((monitor) => monitor.id === id)
+}
+
+function nextRunAfter(monitor: Monitor, from: string | undefined): string {
+  if (!from) return new Date().toISOString()
+  return new Date(Date.parse(from) + monitor.intervalMinutes * 60_000).toISOString()
+}
+
+function findStored(file: MonitorsFile, id: string): Monitor {
+  const monitor = file.monitors.find((item) => item.id === id)
+  if (!monitor) throw monitorNotFound(id)
+  return monitor
+}
+
+export function monitorNotFound(id: string) {
+  return createHttpError(404, 'Monitor not found', `No monitor with id ${id}.`)
+}
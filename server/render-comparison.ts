@@ -0,0 +1,37 @@
+import type { RenderedTagChange, SeoAnalysis } from '../shared/analysis-types.js'
+
+/**
+ * Tags whose value differs between the raw-HTML analysis and the rendered one.
+ * Status-only differences are left out: they come from the same value.
+ */
+export function diffRenderedTags(raw: SeoAnalysis, rendered: SeoAnalysis): RenderedTagChange[] {
+  const rawValues = new Map(
+    raw.sections.flatMap((section) =>
+      section.tags.map((tag) => [`${section.id}-${tag.id}`, tag.value] as const)
+    )
+  )
+
+  return rendered.sections.flatMap((section) =>
+    section.tags.flatMap((tag): RenderedTagChange[] => {
+      const before = presentValue(rawValues.get(`${section.id}-${tag.id}`))
+      const after = presentValue(tag.value)
+      if (before === after) return []
+
+      return [
+        {
+          section: section.id,
+          id: tag.id,
+          label: tag.label,
+          change: before === undefined ? 'added' : after === undefined ? 'removed' : 'changed',
+          ...(before !== undefined ? { raw: before } : {}),
+          ...(after !== undefined ? { rendered: after } : {})
+        }
+      ]
+    })
+  )
+}
+
+function presentValue(value: string | undefined): string | undefined {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : undefined
+}
@@ -0,0 +1,237 @@
+import { z } from 'zod'
+import type { ExportFormat } from '../shared/analysis-types.js'
+import {
+  SEVERITY_LABELS,
+  buildReportModel,
+  formatDate,
+  sectionLabel,
+  type ReportModel
+} from './report-model.js'
+import { renderPdf } from './report-pdf.js'
+
+const statusSchema = z.enum(['ok', 'warning', 'error'])
+
+const issueSchema = z
+  .object({
+    id: z.string(),
+    tag: z.string(),
+    section: z.string(),
+    severity: statusSchema,
+    message: z.string(),
+    recommendation: z.string()
+  })
+  .passthrough()
+
+export const analysisSchema = z
+  .object({
+    url: z.string(),
+    finalUrl: z.string(),
+    fetchedAt: z.string(),
+    summary: z
+      .object({
+        overallScore: z.number(),
+        status: statusSchema,
+        profile: z.object({ label: z.string() }).passthrough(),
+        indexability: z
+          .object({ indexable: z.boolean(), reasons: z.array(z.string()) })
+          .passthrough()
+      })
+      .passthrough(),
+    sections: z.array(
+      z
+        .object({ id: z.string(), label: z.string(), score: z.number(), status: statusSchema })
+        .passthrough()
+    ),
+    issues: z.array(issueSchema),
+    missing: z.array(z.string())
+  })
+  .passthrough()
+
+const siteFields = {
+  summary: z
+    .object({
+      pageCount: z.number(),
+      failedCount: z.number(),
+      averageScore: z.number(),
+      sectionAverages: z.record(z.number()),
+      worstPages: z.array(
+        z
+          .object({
+            url: z.string(),
+            overallScore: z.number(),
+            status: statusSchema,
+            issueCount: z.number()
+          })
+          .passthrough()
+      )
+    })
+    .passthrough(),
+  issues: z.array(issueSchema.extend({ pageCount: z.number() })),
+  duplicates: z.array(z.unknown()),
+  failures: z.array(z.object({ url: z.string(), error: z.string() }).passthrough())
+}
+
+const formatSchema = z.enum(['pdf', 'csv', 'markdown'])
+
+/**
+ * Checks every field the renderers read. Other fields are passed through but
+ * typed as `unknown`, so the renderers cannot rely on them.
+ */
+export const exportRequestSchema = z.union([
+  z.object({ format: formatSchema, analysis: analysisSchema }).strict(),
+  z
+    .object({
+      format: formatSchema,
+      crawl: z
+        .object({
+          startUrl: z.string(),
+          crawledAt: z.string(),
+          ...siteFields,
+          pages: z.array(z.object({ analysis: analysisSchema }).passthrough())
+        })
+        .passthrough()
+    })
+    .strict(),
+  z
+    .object({
+      format: formatSchema,
+      sitemap: z
+        .object({
+          sitemapUrl: z.string(),
+          analyzedAt: z.string(),
+          ...siteFields,
+          pages: z.array(analysisSchema)
+        })
+        .passthrough()
+    })
+    .strict()
+])
+
+export type ExportInput = z.infer<typeof exportRequestSchema>
+export type ExportedAnalysis = z.infer<typeof analysisSchema>
+
+export interface ExportedReport {
+  body: Buffer
+  contentType: string
+  fileName: string
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+}
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  pdf: 'pdf',
+  csv: 'csv',
+  markdown: 'md'
+}
+
+export async function exportReport(request: ExportInput): Promise<ExportedReport> {
+  const model = buildReportModel(request)
+  const { format } = request
+  const body =
+    format === 'pdf'
+      ? await renderPdf(model)
+      : Buffer.from(format === 'csv' ? renderCsv(model) : renderMarkdown(model), 'utf8')
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${reportFileStem(model)}.${EXTENSIONS[format]}`
+  }
+}
+
+const CSV_COLUMNS = ['url', 'section', 'tag', 'severity', 'message', 'recommendation']
+
+/** One row per issue and page, so multi-page exports can be filtered by URL. */
+export function renderCsv(model: ReportModel): string {
+  const rows = model.analyses.flatMap((analysis) =>
+    analysis.issues.map((issue) => [
+      analysis.finalUrl || analysis.url,
+      sectionLabel(issue.section),
+      issue.tag,
+      issue.severity,
+      issue.message,
+      issue.recommendation
+    ])
+  )
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/** Quotes every cell and neutralizes leading formula characters for spreadsheet apps. */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return `"${safe.replace(/"/g, '""')}"`
+}
+
+export function renderMarkdown(model: ReportModel): string {
+  const lines = [
+    `## ${model.title}: ${model.target}`,
+    '',
+    `**Score: ${model.score}/100**${model.status ? ` (${SEVERITY_LABELS[model.status]})` : ''}` +
+      ` · ${formatDate(model.generatedAt)}`,
+    '',
+    ...model.facts.map(([label, value]) => `- ${label}: ${markdownText(value)}`)
+  ]
+
+  if (model.sections.length) {
+    lines.push('', '| Section | Score |', '| --- | ---: |')
+    for (const section of model.sections) {
+      const status = section.status ? ` (${SEVERITY_LABELS[section.status]})` : ''
+      lines.push(`| ${section.label} | ${section.score}${status} |`)
+    }
+  }
+
+  if (model.pages.length) {
+    lines.push(
+      '',
+      '### Lowest-scoring pages',
+      '',
+      '| Page | Score | Issues |',
+      '| --- | ---: | ---: |'
+    )
+    for (const page of model.pages) {
+      lines.push(`| ${markdownText(page.url)} | ${page.overallScore} | ${page.issueCount} |`)
+    }
+  }
+
+  lines.push('', `### Issues (${model.issues.length})`, '')
+  if (!model.issues.length) lines.push('No issues found.')
+  for (const issue of model.issues) {
+    const pages = issue.pageCount === undefined ? '' : ` (${plural(issue.pageCount, 'page')})`
+    lines.push(
+      `- **${SEVERITY_LABELS[issue.severity]}** — ${markdownText(issue.tag)} _(${issue.section})_${pages}: ` +
+        markdownText(issue.message)
+    )
+    if (issue.recommendation) lines.push(`  - ${markdownText(issue.recommendation)}`)
+  }
+
+  if (model.failures.length) {
+    lines.push('', `### Failed pages (${model.failures.length})`, '')
+    for (const failure of model.failures) {
+      lines.push(`- ${markdownText(failure.url)}: ${markdownText(failure.error)}`)
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+function markdownText(value: string): string {
+  return value.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\s+/g, ' ')
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function reportFileStem(model: ReportModel): string {
+  let host = 'report'
+  try {
+    host = new URL(model.target).hostname || host
+  } catch {
+    // Pasted HTML without a base URL has no usable host.
+  }
+  return `seo-${host.replace(/[^a-z0-9.-]/gi, '-')}-${model.generatedAt.slice(0, 10)}`
+}
@@ -0,0 +1,124 @@
+import type { PageFailure, PageScore, SectionId, TagStatus } from '../shared/analysis-types.js'
+import type { ExportInput, ExportedAnalysis } from './report-export.js'
+import { SECTION_DEFINITIONS } from './rule-registry.js'
+
+export interface ReportIssue {
+  section: string
+  tag: string
+  severity: TagStatus
+  message: string
+  recommendation: string
+  /** Affected pages, for multi-page reports. */
+  pageCount?: number
+}
+
+export interface ReportSection {
+  label: string
+  score: number
+  status?: TagStatus
+}
+
+/** Format-independent view of a single-page or multi-page result. */
+export interface ReportModel {
+  title: string
+  target: string
+  generatedAt: string
+  score: number
+  /** Overall status; multi-page reports only have an average score. */
+  status?: TagStatus
+  facts: Array<[label: string, value: string]>
+  sections: ReportSection[]
+  issues: ReportIssue[]
+  /** Lowest-scoring pages of a multi-page report. */
+  pages: PageScore[]
+  failures: Array<Pick<PageFailure, 'url' | 'error'>>
+  /** Every page that was analyzed, for the per-page CSV rows. */
+  analyses: ExportedAnalysis[]
+}
+
+export const SEVERITY_LABELS: Record<TagStatus, string> = {
+  ok: 'OK',
+  warning: 'Warning',
+  error: 'Critical'
+}
+
+export function buildReportModel(request: ExportInput): ReportModel {
+  if ('analysis' in request) return pageModel(request.analysis)
+
+  const isCrawl = 'crawl' in request
+  const report = isCrawl ? request.crawl : request.sitemap
+  const { summary } = report
+  const analyses = isCrawl
+    ? request.crawl.pages.map((page) => page.analysis)
+    : request.sitemap.pages
+
+  return {
+    title: isCrawl ? 'Site crawl report' : 'Sitemap report',
+    target: isCrawl ? request.crawl.startUrl : request.sitemap.sitemapUrl,
+    generatedAt: isCrawl ? request.crawl.crawledAt : request.sitemap.analyzedAt,
+    score: summary.averageScore,
+    facts: [
+      ['Pages analyzed', String(summary.pageCount)],
+      ['Pages failed', String(summary.failedCount)],
+      ['Issues', String(report.issues.length)],
+      ['Duplicate clusters', String(report.duplicates.length)]
+    ],
+    sections: SECTION_DEFINITIONS.flatMap(({ id, label }) => {
+      const score = summary.sectionAverages[id]
+      return score === undefined ? [] : [{ label, score }]
+    }),
+    issues: report.issues.map((issue) => ({
+      section: sectionLabel(issue.section),
+      tag: issue.tag,
+      severity: issue.severity,
+      message: issue.message,
+      recommendation: issue.recommendation,
+      pageCount: issue.pageCount
+    })),
+    pages: summary.worstPages,
+    failures: report.failures,
+    analyses
+  }
+}
+
+function pageModel(analysis: ExportedAnalysis): ReportModel {
+  const { summary } = analysis
+  const { indexability } = summary
+  return {
+    title: 'SEO report',
+    target: analysis.finalUrl || analysis.url,
+    generatedAt: analysis.fetchedAt,
+    score: summary.overallScore,
+    status: summary.status,
+    facts: [
+      ['Scoring profile', summary.profile.label],
+      ['Indexable', indexability.indexable ? 'Yes' : `No — ${indexability.reasons.join('; ')}`],
+      ['Issues', String(analysis.issues.length)],
+      ...(analysis.missing.length
+        ? [['Missing tags', analysis.missing.join(', ')] as [string, string]]
+        : [])
+    ],
+    sections: analysis.sections.map(({ label, score, status }) => ({ label, score, status })),
+    issues: analysis.issues.map((issue) => ({
+      section: sectionLabel(issue.section),
+      tag: issue.tag,
+      severity: issue.severity,
+      message: issue.message,
+      recommendation: issue.recommendation
+    })),
+    pages: [],
+    failures: [],
+    analyses: [analysis]
+  }
+}
+
+export function sectionLabel(id: string): string {
+  return SECTION_DEFINITIONS.find((section) => section.id === (id as SectionId))?.label ?? id
+}
+
+export function formatDate(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+}
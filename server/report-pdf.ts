@@ -0,0 +1,244 @@
+import PDFDocument from 'pdfkit'
+import type { TagStatus } from '../shared/analysis-types.js'
+import { SEVERITY_LABELS, formatDate, type ReportModel } from './report-model.js'
+
+const BRAND = {
+  name: 'SEO Meta Analyzer',
+  navy: '#0F172A',
+  blue: '#3B82F6',
+  text: '#111827',
+  muted: '#6B7280',
+  rule: '#E5E7EB'
+}
+
+const STATUS_COLORS: Record<TagStatus, string> = {
+  ok: '#16a34a',
+  warning: '#f59e0b',
+  error: '#dc2626'
+}
+
+const MARGIN = 50
+const HEADER_HEIGHT = 64
+
+type Doc = InstanceType<typeof PDFDocument>
+
+/** Renders the report as an A4 PDF with the app's colors and a page footer. */
+export function renderPdf(model: ReportModel): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: `${model.title}: ${model.target}`, Author: BRAND.name }
+  })
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  drawHeader(doc, model)
+  drawScore(doc, model)
+  drawSections(doc, model)
+  if (model.pages.length) drawPages(doc, model)
+  drawIssues(doc, model)
+  if (model.failures.length) drawFailures(doc, model)
+  drawFooters(doc)
+
+  doc.end()
+  return done
+}
+
+function drawHeader(doc: Doc, model: ReportModel) {
+  const width = doc.page.width
+  doc.rect(0, 0, width, HEADER_HEIGHT).fill(BRAND.navy)
+  doc.rect(0, HEADER_HEIGHT, width, 3).fill(BRAND.blue)
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#FFFFFF').text(BRAND.name, MARGIN, 24)
+  doc
+    .font('Helvetica')
+    .fontSize(10)
+    .fillColor('#CBD5E1')
+    .text(model.title, MARGIN, 28, { width: width - MARGIN * 2, align: 'right' })
+
+  doc.y = HEADER_HEIGHT + 24
+  doc.font('Helvetica-Bold').fontSize(13).fillColor(BRAND.text).text(model.target, MARGIN)
+  doc
+    .font('Helvetica')
+    .fontSize(9)
+    .fillColor(BRAND.muted)
+    .text(`Generated ${formatDate(model.generatedAt)}`)
+  doc.moveDown(1)
+}
+
+function drawScore(doc: Doc, model: ReportModel) {
+  const top = doc.y
+  const color = model.status ? STATUS_COLORS[model.status] : BRAND.blue
+  const radius = 30
+  const centerX = MARGIN + radius
+  const centerY = top + radius
+
+  doc.circle(centerX, centerY, radius).lineWidth(4).stroke(color)
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(20)
+    .fillColor(BRAND.text)
+    .text(String(model.score), MARGIN, centerY - 10, { width: radius * 2, align: 'center' })
+
+  const textX = MARGIN + radius * 2 + 20
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(11)
+    .fillColor(color)
+    .text(
+      model.status ? `${SEVERITY_LABELS[model.status]} overall` : 'Average score',
+      textX,
+      top + 2
+    )
+  doc.font('Helvetica').fontSize(9).fillColor(BRAND.text)
+  for (const [label, value] of model.facts) {
+    doc.text(`${label}: ${value}`, textX, doc.y + 2, { width: doc.page.width - textX - MARGIN })
+  }
+
+  doc.x = MARGIN
+  doc.y = Math.max(doc.y, top + radius * 2) + 16
+}
+
+function drawSections(doc: Doc, model: ReportModel) {
+  drawHeading(doc, 'Section scores')
+  const labelWidth = 160
+  const barWidth = doc.page.width - MARGIN * 2 - labelWidth - 40
+
+  for (const section of model.sections) {
+    ensureSpace(doc, 18)
+    const y = doc.y
+    const color = section.status ? STATUS_COLORS[section.status] : BRAND.blue
+    doc.font('Helvetica').fontSize(9).fillColor(BRAND.text).text(section.label, MARGIN, y, {
+      width: labelWidth
+    })
+    doc.rect(MARGIN + labelWidth, y + 1, barWidth, 8).fill(BRAND.rule)
+    doc.rect(MARGIN + labelWidth, y + 1, (barWidth * section.score) / 100, 8).fill(color)
+    doc
+      .fillColor(BRAND.text)
+      .text(String(section.score), MARGIN + labelWidth + barWidth + 8, y, { width: 32 })
+    doc.x = MARGIN
+    doc.y = y + 16
+  }
+  doc.moveDown(1)
+}
+
+function drawPages(doc: Doc, model: ReportModel) {
+  drawHeading(doc, 'Lowest-scoring pages')
+  for (const page of model.pages) {
+    ensureSpace(doc, 16)
+    const y = doc.y
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(9)
+      .fillColor(STATUS_COLORS[page.status])
+      .text(String(page.overallScore), MARGIN, y, { width: 28 })
+    doc
+      .font('Helvetica')
+      .fillColor(BRAND.text)
+      .text(`${page.url}  (${page.issueCount} issues)`, MARGIN + 32, y, {
+        width: doc.page.width - MARGIN * 2 - 32
+      })
+    doc.x = MARGIN
+    doc.moveDown(0.3)
+  }
+  doc.moveDown(1)
+}
+
+function drawIssues(doc: Doc, model: ReportModel) {
+  drawHeading(doc, `Issues (${model.issues.length})`)
+  if (!model.issues.length) {
+    doc.font('Helvetica').fontSize(9).fillColor(BRAND.muted).text('No issues found.')
+    doc.moveDown(1)
+    return
+  }
+
+  const textX = MARGIN + 12
+  const width = doc.page.width - textX - MARGIN
+  for (const issue of model.issues) {
+    ensureSpace(doc, 48)
+    const y = doc.y
+    doc.rect(MARGIN, y + 1, 4, 30).fill(STATUS_COLORS[issue.severity])
+
+    const pages = issue.pageCount === undefined ? '' : ` · ${issue.pageCount} pages`
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(BRAND.text)
+      .text(issue.tag, textX, y, { width, continued: true })
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(BRAND.muted)
+      .text(`  ${SEVERITY_LABELS[issue.severity]} · ${issue.section}${pages}`)
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor(BRAND.text)
+      .text(issue.message, textX, doc.y + 2, {
+        width
+      })
+    if (issue.recommendation) {
+      doc
+        .fillColor(BRAND.muted)
+        .text(`Action: ${issue.recommendation}`, textX, doc.y + 2, { width })
+    }
+    doc.x = MARGIN
+    doc.y = Math.max(doc.y, y + 32) + 10
+  }
+}
+
+function drawFailures(doc: Doc, model: ReportModel) {
+  doc.moveDown(1)
+  drawHeading(doc, `Failed pages (${model.failures.length})`)
+  doc.font('Helvetica').fontSize(9)
+  for (const failure of model.failures) {
+    ensureSpace(doc, 14)
+    doc.fillColor(BRAND.text).text(failure.url, { continued: true })
+    doc.fillColor(BRAND.muted).text(`  ${failure.error}`)
+  }
+}
+
+function drawHeading(doc: Doc, text: string) {
+  ensureSpace(doc, 40)
+  doc.font('Helvetica-Bold').fontSize(11).fillColor(BRAND.navy).text(text, MARGIN)
+  const y = doc.y + 2
+  doc
+    .moveTo(MARGIN, y)
+    .lineTo(doc.page.width - MARGIN, y)
+    .lineWidth(0.5)
+    .stroke(BRAND.rule)
+  doc.y = y + 8
+}
+
+/** Starts a new page when fewer than `height` points are left above the bottom margin. */
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage()
+    doc.y = MARGIN
+  }
+}
+
+function drawFooters(doc: Doc) {
+  const { start, count } = doc.bufferedPageRange()
+  for (let index = start; index < start + count; index += 1) {
+    doc.switchToPage(index)
+    // Writing inside the bottom margin would otherwise trigger an automatic page break.
+    const bottom = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(BRAND.muted)
+      .text(
+        `${BRAND.name} · Page ${index - start + 1} of ${count}`,
+        MARGIN,
+        doc.page.height - MARGIN / 2 - 8,
+        { width: doc.page.width - MARGIN * 2, align: 'center' }
+      )
+    doc.page.margins.bottom = bottom
+  }
+}
@@ -0,0 +1,189 @@
+import type {
+  BreadcrumbPreviewItem,
+  FaqPreviewItem,
+  ProductRichPreview,
+  RatingPreview,
+  RecipeRichPreview,
+  RichResultPreview
+} from '../shared/analysis-types.js'
+import { normalizeText, resolveMaybeUrl } from './dom-helpers.js'
+import {
+  asList,
+  isRecord,
+  normalizeType,
+  type StructuredDataItem
+} from './structured-data.js'
+import { schemaTypeMatches } from './structured-data-rules.js'
+
+/**
+ * Builds the rich snippet parts of the Google preview from the first
+ * BreadcrumbList, Product, Recipe and FAQPage items found on the page,
+ * including the subtypes the structured-data rules validate.
+ */
+export function buildRichResultPreview(
+  items: StructuredDataItem[],
+  baseUrl: URL
+): RichResultPreview | undefined {
+  const find = (type: string) => {
+    const matches = schemaTypeMatches(type)
+    return items.find((item) => item.types.some((itemType) => matches.includes(itemType)))
+      ?.properties
+  }
+
+  const breadcrumbList = find('BreadcrumbList')
+  const productItem = find('Product')
+  const recipeItem = find('Recipe')
+  const faqPage = find('FAQPage')
+
+  const breadcrumbs = breadcrumbList ? readBreadcrumbs(breadcrumbList, baseUrl) : []
+  const product = productItem ? readProduct(productItem) : undefined
+  const recipe = recipeItem ? readRecipe(recipeItem, baseUrl) : undefined
+  const faq = faqPage ? readFaq(faqPage) : []
+
+  const preview: RichResultPreview = {
+    ...(breadcrumbs.length ? { breadcrumbs } : {}),
+    ...(product ? { product } : {}),
+    ...(recipe ? { recipe } : {}),
+    ...(faq.length ? { faq } : {})
+  }
+  return Object.keys(preview).length ? preview : undefined
+}
+
+function readBreadcrumbs(
+  properties: Record<string, unknown>,
+  baseUrl: URL
+): BreadcrumbPreviewItem[] {
+  return asList(properties['itemListElement'])
+    .filter(isRecord)
+    .map((element, index) => ({
+      element,
+      position: Number(readText(element['position'])) || index + 1
+    }))
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ element }) => {
+      const item = element['item']
+      const name =
+        readText(element['name']) ?? (isRecord(item) ? readText(item['name']) : undefined)
+      if (!name) return []
+      const url = resolveMaybeUrl(readUrl(item), baseUrl)
+      return [url ? { name, url } : { name }]
+    })
+}
+
+function readProduct(properties: Record<string, unknown>): ProductRichPreview | undefined {
+  const name = readText(properties['name'])
+  if (!name) return undefined
+
+  // A ProductGroup usually lists its offers on the variants.
+  const variant = asList(properties['hasVariant']).find(isRecord)
+  const offer = [...asList(properties['offers']), ...asList(variant?.['offers'])].find(isRecord)
+  const price = offer ? (readText(offer['price']) ?? readText(offer['lowPrice'])) : undefined
+  const currency = offer ? readText(offer['priceCurrency']) : undefined
+  const availability = offer ? readText(offer['availability']) : undefined
+  const rating = readRating(properties['aggregateRating'])
+
+  return {
+    name,
+    ...(price ? { price } : {}),
+    ...(currency ? { currency } : {}),
+    ...(availability ? { availability: humanizeEnum(availability) } : {}),
+    ...(rating ? { rating } : {})
+  }
+}
+
+function readRecipe(
+  properties: Record<string, unknown>,
+  baseUrl: URL
+): RecipeRichPreview | undefined {
+  const name = readText(properties['name'])
+  if (!name) return undefined
+
+  const image = resolveMaybeUrl(readUrl(asList(properties['image'])[0]), baseUrl)
+  const totalTime = formatDuration(
+    readText(properties['totalTime']) ?? readText(properties['cookTime'])
+  )
+  const nutrition = asList(properties['nutrition']).find(isRecord)
+  const calories = nutrition ? readText(nutrition['calories']) : undefined
+  const rating = readRating(properties['aggregateRating'])
+
+  return {
+    name,
+    ...(image ? { image } : {}),
+    ...(totalTime ? { totalTime } : {}),
+    ...(calories ? { calories } : {}),
+    ...(rating ? { rating } : {})
+  }
+}
+
+function readFaq(properties: Record<string, unknown>): FaqPreviewItem[] {
+  return asList(properties['mainEntity'])
+    .filter(isRecord)
+    .flatMap((question) => {
+      const answer = asList(question['acceptedAnswer']).find(isRecord)
+      const questionText = readText(question['name'])
+      const answerText = answer ? readText(answer['text']) : undefined
+      return questionText && answerText
+        ? [{ question: questionText, answer: stripTags(answerText) }]
+        : []
+    })
+}
+
+function readRating(value: unknown): RatingPreview | undefined {
+  const rating = asList(value).find(isRecord)
+  if (!rating) return undefined
+
+  const ratingValue = Number.parseFloat(readText(rating['ratingValue']) ?? '')
+  if (!Number.isFinite(ratingValue)) return undefined
+
+  const best = Number.parseFloat(readText(rating['bestRating']) ?? '') || 5
+  const count = Number.parseInt(
+    readText(rating['ratingCount']) ?? readText(rating['reviewCount']) ?? '',
+    10
+  )
+  return { value: ratingValue, best, ...(Number.isFinite(count) ? { count } : {}) }
+}
+
+/** Formats ISO 8601 durations such as `PT1H15M` as `1 hr 15 min`. */
+function formatDuration(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/i.exec(value)
+  if (!match) return value
+
+  const [, days, hours, minutes] = match
+  const parts = [
+    days && Number(days) ? `${Number(days)} d` : undefined,
+    hours && Number(hours) ? `${Number(hours)} hr` : undefined,
+    minutes && Number(minutes) ? `${Number(minutes)} min` : undefined
+  ].filter(Boolean)
+  return parts.length ? parts.join(' ') : undefined
+}
+
+/** `https://schema.org/InStock` → `In stock`. */
+function humanizeEnum(value: string): string {
+  const words = normalizeType(value)
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function readText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value)
+  if (typeof value === 'string') return normalizeText(value)
+  if (Array.isArray(value)) return readText(value[0])
+  return undefined
+}
+
+function readUrl(value: unknown): string | undefined {
+  if (isRecord(value)) {
+    return readText(value['@id']) ?? readText(value['url']) ?? readText(value['contentUrl'])
+  }
+  return readText(value)
+}
+
+function stripTags(value: string): string {
+  return value
+    .replace(/<\/?(?:p|br|div|li|ul|ol|h[1-6])\b[^>]*>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { matchRobotsRules, parseRobotsTxt, selectRules } from './robots-txt.js'
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user agents and collects sitemaps', () => {
+    const robots = parseRobotsTxt(
+      [
+        'Disallow: /ignored # before any group',
+        'User-agent: Googlebot',
+        'User-agent: Googlebot-Image',
+        'Disallow: /private',
+        'Allow: /private/public',
+        '',
+        'User-agent: *',
+        'Disallow:',
+        'Sitemap: https://example.com/sitemap.xml'
+      ].join('\r\n')
+    )
+
+    assert.deepEqual(robots, {
+      groups: [
+        {
+          userAgents: ['googlebot', 'googlebot-image'],
+          rules: [
+            { type: 'disallow', pattern: '/private' },
+            { type: 'allow', pattern: '/private/public' }
+          ]
+        },
+        { userAgents: ['*'], rules: [] }
+      ],
+      sitemaps: ['https://example.com/sitemap.xml']
+    })
+  })
+})
+
+describe('selectRules', () => {
+  const robots = parseRobotsTxt(
+    [
+      'User-agent: *',
+      'Disallow: /all',
+      'User-agent: googlebot',
+      'Disallow: /google',
+      'User-agent: googlebot-news',
+      'Disallow: /news'
+    ].join('\n')
+  )
+
+  it('uses the most specific group naming the crawler', () => {
+    assert.deepEqual(selectRules(robots, 'Googlebot-News'), [
+      { type: 'disallow', pattern: '/news' }
+    ])
+    assert.deepEqual(selectRules(robots, 'googlebot'), [{ type: 'disallow', pattern: '/google' }])
+  })
+
+  it('falls back to the * group', () => {
+    assert.deepEqual(selectRules(robots, 'bingbot'), [{ type: 'disallow', pattern: '/all' }])
+  })
+})
+
+describe('matchRobotsRules', () => {
+  it('lets the longest matching pattern win', () => {
+    const rules = parseRobotsTxt(
+      ['User-agent: *', 'Disallow: /shop', 'Allow: /shop/sale'].join('\n')
+    ).groups[0]?.rules ?? []
+    assert.equal(matchRobotsRules(rules, '/shop/cart').allowed, false)
+    assert.equal(matchRobotsRules(rules, '/shop/sale/shoes').allowed, true)
+    assert.deepEqual(matchRobotsRules(rules, '/about'), { allowed: true })
+  })
+
+  it('prefers Allow when patterns are equally long', () => {
+    const result = matchRobotsRules(
+      [
+        { type: 'disallow', pattern: '/page' },
+        { type: 'allow', pattern: '/page' }
+      ],
+      '/page'
+    )
+    assert.equal(result.allowed, true)
+  })
+
+  it('supports * wildcards and the $ anchor', () => {
+    const rules = [
+      { type: 'disallow' as const, pattern: '/*.pdf$' },
+      { type: 'disallow' as const, pattern: '/search*q=' }
+    ]
+    assert.equal(matchRobotsRules(rules, '/files/report.pdf').allowed, false)
+    assert.equal(matchRobotsRules(rules, '/files/report.pdf?download=1').allowed, true)
+    assert.equal(matchRobotsRules(rules, '/search/results?q=shoes').allowed, false)
+  })
+
+  it('compares percent-encoded and raw paths equally', () => {
+    const rules = [{ type: 'disallow' as const, pattern: '/café' }]
+    assert.equal(matchRobotsRules(rules, '/caf%C3%A9/menu').allowed, false)
+  })
+})
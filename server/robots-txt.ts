@@ -0,0 +1,208 @@
+import { USER_AGENT } from './analysis-service.js'
+import { guardedFetch, readBodyPrefix } from './fetch-guard.js'
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow'
+  /** Path pattern as written, supporting `*` wildcards and a trailing `$` anchor. */
+  pattern: string
+}
+
+export interface RobotsGroup {
+  /** Lower-cased user-agent tokens the group applies to. */
+  userAgents: string[]
+  rules: RobotsRule[]
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+  sitemaps: string[]
+}
+
+export type RobotsTxtCheck =
+  | { url: string; status: 'allowed'; rule?: RobotsRule }
+  | { url: string; status: 'disallowed'; rule: RobotsRule }
+  /** robots.txt could not be fetched (network error or 5xx); crawling is not assumed blocked. */
+  | { url: string; status: 'unavailable'; reason: string }
+
+/** Crawler the indexability verdict is computed for. */
+export const ROBOTS_USER_AGENT = 'googlebot'
+
+/**
+ * Google ignores everything past the first 500 KiB of a robots.txt file, so
+ * downloads stop there and the rest is never parsed.
+ */
+const MAX_ROBOTS_BYTES = 500 * 1024
+
+const CACHE_TTL_MS = 10 * 60 * 1000
+const MAX_CACHE_ENTRIES = 500
+
+const cache = new Map<string, { expiresAt: number; robots: Promise<RobotsTxtLoad> }>()
+
+type RobotsTxtLoad =
+  | { ok: true; robots: RobotsTxt }
+  | { ok: false; reason: string }
+
+/**
+ * Parses robots.txt into user-agent groups. Consecutive `User-agent` lines
+ * share one group; rules before the first `User-agent` line are ignored.
+ */
+export function parseRobotsTxt(source: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | undefined
+  let collectingAgents = false
+
+  for (const rawLine of source.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] }
+        groups.push(current)
+      }
+      if (value) current.userAgents.push(value.toLowerCase())
+      collectingAgents = true
+      continue
+    }
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value)
+      continue
+    }
+
+    if ((field === 'allow' || field === 'disallow') && current) {
+      collectingAgents = false
+      // An empty Disallow allows everything, which is the default anyway.
+      if (value) current.rules.push({ type: field, pattern: value })
+      continue
+    }
+
+    collectingAgents = false
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Rules that apply to `userAgent`: every group naming the most specific
+ * matching token, falling back to `*` groups when none names the crawler.
+ */
+export function selectRules(robots: RobotsTxt, userAgent: string): RobotsRule[] {
+  const agent = userAgent.toLowerCase()
+  let bestToken: string | undefined
+
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      if (token !== '*' && agent.startsWith(token) && token.length > (bestToken?.length ?? 0)) {
+        bestToken = token
+      }
+    }
+  }
+
+  const target = bestToken ?? '*'
+  return robots.groups
+    .filter((group) => group.userAgents.includes(target))
+    .flatMap((group) => group.rules)
+}
+
+/**
+ * Longest matching pattern wins; `Allow` wins a tie. Paths with no matching
+ * rule are allowed.
+ */
+export function matchRobotsRules(
+  rules: RobotsRule[],
+  path: string
+): { allowed: boolean; rule?: RobotsRule } {
+  let best: RobotsRule | undefined
+
+  for (const rule of rules) {
+    if (!patternMatches(rule.pattern, path)) continue
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.type === 'allow')
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? { allowed: best.type === 'allow', rule: best } : { allowed: true }
+}
+
+/** Checks whether Googlebot may crawl `pageUrl` according to its origin's robots.txt. */
+export async function checkRobotsTxt(pageUrl: URL): Promise<RobotsTxtCheck> {
+  const url = new URL('/robots.txt', pageUrl).toString()
+  const loaded = await loadRobotsTxt(url)
+  if (!loaded.ok) return { url, status: 'unavailable', reason: loaded.reason }
+
+  const path = `${pageUrl.pathname}${pageUrl.search}`
+  const { allowed, rule } = matchRobotsRules(selectRules(loaded.robots, ROBOTS_USER_AGENT), path)
+  if (!allowed && rule) return { url, status: 'disallowed', rule }
+  return rule ? { url, status: 'allowed', rule } : { url, status: 'allowed' }
+}
+
+/** Fetches robots.txt once per origin for `CACHE_TTL_MS`, so crawls reuse it. */
+function loadRobotsTxt(url: string): Promise<RobotsTxtLoad> {
+  const cached = cache.get(url)
+  if (cached && cached.expiresAt > Date.now()) return cached.robots
+
+  const robots = fetchRobotsTxt(url)
+  cache.delete(url)
+  cache.set(url, { expiresAt: Date.now() + CACHE_TTL_MS, robots })
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value
+    if (oldest !== undefined) cache.delete(oldest)
+  }
+  return robots
+}
+
+async function fetchRobotsTxt(url: string): Promise<RobotsTxtLoad> {
+  try {
+    const response = await guardedFetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/plain' },
+      signal: AbortSignal.timeout(10000)
+    })
+
+    // A missing robots.txt (4xx) means there are no crawl restrictions.
+    if (response.status >= 400 && response.status < 500) {
+      return { ok: true, robots: { groups: [], sitemaps: [] } }
+    }
+    if (!response.ok) {
+      return { ok: false, reason: `Server responded with status ${response.status}` }
+    }
+
+    const body = await readBodyPrefix(response, MAX_ROBOTS_BYTES)
+    return { ok: true, robots: parseRobotsTxt(new TextDecoder().decode(body)) }
+  } catch (error) {
+    return { ok: false, reason: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const source = body
+    .split('*')
+    .map((part) => escapeRegExp(encodePath(part)))
+    .join('.*')
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(encodePath(path))
+}
+
+/** Normalizes percent-encoding so `/café` and `/caf%C3%A9` compare equal. */
+function encodePath(value: string): string {
+  try {
+    return encodeURI(decodeURI(value))
+  } catch {
+    return value
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
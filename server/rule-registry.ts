@@ -0,0 +1,141 @@
+import type { CheerioAPI } from 'cheerio'
+import type {
+  FetchDiagnostics,
+  IndexabilityVerdict,
+  LinkInventory,
+  SectionId,
+  TagResult
+} from '../shared/analysis-types.js'
+import type { FetchedPage } from './analysis-service.js'
+import type { ImageProbe } from './image-probe.js'
+import type { ScoringProfile } from './scoring-profiles.js'
+
+export interface RuleContext {
+  $: CheerioAPI
+  baseUrl: URL
+  /** Thresholds and scores the rule should apply. */
+  profile: ScoringProfile
+  /** How the page was retrieved; absent for pasted HTML. */
+  fetch?: FetchDiagnostics
+  /** Combined meta, `X-Robots-Tag` and robots.txt verdict, also reported in the summary. */
+  indexability: IndexabilityVerdict
+  /** Body links, with status checks when the caller enabled them. */
+  links: LinkInventory
+  /** URL the document lives at; absent for pasted HTML without a base URL. */
+  pageUrl?: URL
+  /** Only provided when the caller opted into at least one network check. */
+  network?: NetworkAccess
+}
+
+export interface NetworkAccess {
+  fetchPage: (url: string) => Promise<FetchedPage>
+  /** Verify that hreflang alternates link back to the page. */
+  alternates: boolean
+  /** Verify that the canonical URL is an indexable 200 page. */
+  canonical: boolean
+  probeImage: (url: string) => Promise<ImageProbe>
+  /** Fetch og:image and twitter:image to check their type, size and dimensions. */
+  images: boolean
+}
+
+/** What a rule reports; the registry stamps `id` and `tag` from the rule itself. */
+export type RuleEvaluation = Omit<TagResult, 'id' | 'tag'>
+
+export interface SeoRule {
+  /** Stable identifier, also used to build `SeoIssue.id` (`<section>-<rule id>`). */
+  id: string
+  /**
+   * Replaces the rule id in `SeoIssue.id` for rules that existed before the
+   * registry, whose issues were keyed by their selector.
+   */
+  legacyId?: string
+  section: SectionId
+  /** Selector of the element the rule inspects, reported as `TagResult.tag`. */
+  selector: string
+  /**
+   * Returns `null` when the rule does not apply to the page (no tag result is
+   * reported). May be async for rules that need to fetch other resources.
+   */
+  evaluate: (context: RuleContext) => RuleOutcome | Promise<RuleOutcome>
+}
+
+export type RuleOutcome = RuleEvaluation | null
+
+export interface SectionDefinition {
+  id: SectionId
+  label: string
+}
+
+export const SECTION_DEFINITIONS: SectionDefinition[] = [
+  { id: 'meta', label: 'Technical meta tags' },
+  { id: 'openGraph', label: 'Open Graph' },
+  { id: 'twitter', label: 'Twitter Card' },
+  { id: 'structuredData', label: 'Structured data' },
+  { id: 'i18n', label: 'Internationalization' },
+  { id: 'http', label: 'HTTP response' },
+  { id: 'content', label: 'Content' },
+  { id: 'links', label: 'Links' }
+]
+
+export interface RuleRegistry {
+  /** Adds a new rule. Throws when a rule with the same id is already registered. */
+  register: (rule: SeoRule) => void
+  /** Replaces the rule with the same id in place, or appends it when unknown. */
+  override: (rule: SeoRule) => void
+  unregister: (id: string) => void
+  disable: (id: string) => void
+  enable: (id: string) => void
+  isEnabled: (id: string) => boolean
+  /** Enabled rules in registration order, optionally limited to one section. */
+  list: (section?: SectionId) => SeoRule[]
+}
+
+export function createRuleRegistry(initialRules: SeoRule[] = []): RuleRegistry {
+  const rules = new Map<string, SeoRule>()
+  const disabled = new Set<string>()
+
+  const register = (rule: SeoRule) => {
+    if (rules.has(rule.id)) {
+      throw new Error(`Rule "${rule.id}" is already registered.`)
+    }
+    rules.set(rule.id, rule)
+  }
+
+  initialRules.forEach(register)
+
+  return {
+    register,
+    override: (rule) => {
+      rules.set(rule.id, rule)
+    },
+    unregister: (id) => {
+      rules.delete(id)
+      disabled.delete(id)
+    },
+    disable: (id) => {
+      disabled.add(id)
+    },
+    enable: (id) => {
+      disabled.delete(id)
+    },
+    isEnabled: (id) => rules.has(id) && !disabled.has(id),
+    list: (section) =>
+      [...rules.values()].filter(
+        (rule) => !disabled.has(rule.id) && (section === undefined || rule.section === section)
+      )
+  }
+}
+
+export async function runRule(
+  rule: SeoRule,
+  context: RuleContext
+): Promise<TagResult | undefined> {
+  const evaluation = await rule.evaluate(context)
+  return evaluation ? { id: rule.id, tag: rule.selector, ...evaluation } : undefined
+}
+
+/** Up to three values for a rule message, e.g. `a, b, c and 4 more`. */
+export function listSample(values: string[]): string {
+  const sample = values.slice(0, 3).join(', ')
+  return values.length > 3 ? `${sample} and ${values.length - 3} more` : sample
+}
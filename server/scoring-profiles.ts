@@ -0,0 +1,213 @@
+import type {
+  ProfileReference,
+  ScoringProfileInfo,
+  SectionId
+} from '../shared/analysis-types.js'
+
+export interface LengthWindow {
+  /** Values outside `min`–`max` are flagged as warnings. */
+  min: number
+  max: number
+  /** Range quoted in messages and recommendations. */
+  idealMin: number
+  idealMax: number
+}
+
+export interface ScoringThresholds {
+  title: LengthWindow
+  description: LengthWindow
+  ogTitle: LengthWindow
+  ogDescription: LengthWindow
+  twitterTitleMax: number
+  twitterDescriptionMax: number
+  keywordsMax: number
+  /** Redirect hops tolerated before the chain is flagged. */
+  maxRedirects: number
+  /** Pages with less body copy are flagged as thin content. */
+  minWordCount: number
+}
+
+export interface StatusScores {
+  ok: number
+  warning: number
+  /** Tag is present but its value cannot be used (e.g. an unparsable URL). */
+  invalid: number
+  /** A critical tag is absent. */
+  missing: number
+  /** An optional tag is absent. */
+  optionalMissing: number
+}
+
+/** A rule outcome that is scored; each maps to the matching `StatusScores` entry. */
+export type ScoreOutcome = keyof StatusScores
+
+export interface ScoringProfile {
+  id: string
+  label: string
+  description: string
+  thresholds: ScoringThresholds
+  scores: StatusScores
+  /** Scores per rule id and outcome; outcomes not listed use `scores`. */
+  ruleScores: Record<string, Partial<StatusScores>>
+  /** Weight per rule id when averaging a section. Unlisted rules weigh 1. */
+  tagWeights: Record<string, number>
+  /** Weight per section when computing the overall score. Unlisted sections weigh 1. */
+  sectionWeights: Partial<Record<SectionId, number>>
+}
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+const defaultThresholds: ScoringThresholds = {
+  title: { min: 30, max: 70, idealMin: 50, idealMax: 60 },
+  description: { min: 70, max: 160, idealMin: 70, idealMax: 160 },
+  ogTitle: { min: 30, max: 95, idealMin: 40, idealMax: 80 },
+  ogDescription: { min: 80, max: 200, idealMin: 80, idealMax: 200 },
+  twitterTitleMax: 70,
+  twitterDescriptionMax: 200,
+  keywordsMax: 10,
+  maxRedirects: 2,
+  minWordCount: 300
+}
+
+const defaultScores: StatusScores = {
+  ok: 95,
+  warning: 60,
+  invalid: 10,
+  missing: 0,
+  optionalMissing: 50
+}
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    label: 'Default',
+    description: 'The original scoring: graded tag scores, every tag and section weighs the same.',
+    thresholds: defaultThresholds,
+    scores: defaultScores,
+    ruleScores: {
+      keywords: { warning: 55, ok: 80 },
+      canonical: { ok: 90 },
+      robots: { optionalMissing: 60, warning: 40, ok: 85 },
+      'og-description': { ok: 90 },
+      'og-url': { optionalMissing: 55, ok: 85 },
+      'og-type': { optionalMissing: 55, ok: 85 },
+      'twitter-card': { optionalMissing: 55, ok: 85 },
+      'twitter-title': { ok: 90 },
+      'twitter-description': { ok: 90 },
+      'twitter-image': { optionalMissing: 55, ok: 85 }
+    },
+    tagWeights: {},
+    sectionWeights: {}
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'One score per status, with meta keywords counting half as much.',
+    thresholds: defaultThresholds,
+    scores: defaultScores,
+    ruleScores: {},
+    tagWeights: { keywords: 0.5 },
+    sectionWeights: {}
+  },
+  {
+    id: 'e-commerce',
+    label: 'E-commerce',
+    description: 'Product pages: rewards compelling snippets and shareable imagery.',
+    thresholds: {
+      ...defaultThresholds,
+      title: { min: 30, max: 65, idealMin: 45, idealMax: 60 },
+      description: { min: 90, max: 160, idealMin: 120, idealMax: 155 },
+      minWordCount: 150
+    },
+    scores: defaultScores,
+    ruleScores: {},
+    tagWeights: {
+      keywords: 0.25,
+      description: 1.5,
+      'og-image': 2,
+      'og-title': 1.5,
+      'twitter-image': 1.5,
+      'schema-product': 2,
+      'image-alt': 1.5
+    },
+    sectionWeights: { meta: 1, openGraph: 1.5, twitter: 1, structuredData: 1.25 }
+  },
+  {
+    id: 'blog',
+    label: 'Blog',
+    description: 'Editorial content: emphasizes search snippets and article metadata.',
+    thresholds: {
+      ...defaultThresholds,
+      title: { min: 35, max: 70, idealMin: 50, idealMax: 65 },
+      description: { min: 100, max: 160, idealMin: 120, idealMax: 160 },
+      minWordCount: 600
+    },
+    scores: defaultScores,
+    ruleScores: {},
+    tagWeights: {
+      keywords: 0.25,
+      title: 1.5,
+      description: 1.5,
+      'og-type': 1.5,
+      'og-description': 1.5,
+      'schema-article': 2,
+      'word-count': 1.5
+    },
+    sectionWeights: { meta: 1.5, openGraph: 1, twitter: 0.75, content: 1.25 }
+  },
+  {
+    id: 'strict',
+    label: 'Strict',
+    description: 'Tight length windows and harsher penalties for anything off-target.',
+    thresholds: {
+      title: { min: 50, max: 60, idealMin: 50, idealMax: 60 },
+      description: { min: 120, max: 160, idealMin: 120, idealMax: 160 },
+      ogTitle: { min: 40, max: 80, idealMin: 40, idealMax: 80 },
+      ogDescription: { min: 100, max: 200, idealMin: 100, idealMax: 200 },
+      twitterTitleMax: 60,
+      twitterDescriptionMax: 160,
+      keywordsMax: 5,
+      maxRedirects: 1,
+      minWordCount: 300
+    },
+    scores: { ok: 100, warning: 40, invalid: 0, missing: 0, optionalMissing: 20 },
+    ruleScores: {},
+    tagWeights: { keywords: 0 },
+    sectionWeights: {}
+  }
+]
+
+export function findScoringProfile(id: string): ScoringProfile | undefined {
+  return SCORING_PROFILES.find((profile) => profile.id === id)
+}
+
+export function resolveScoringProfile(id: string = DEFAULT_PROFILE_ID): ScoringProfile {
+  const profile = findScoringProfile(id)
+  if (!profile) {
+    throw new Error(`Unknown scoring profile "${id}".`)
+  }
+  return profile
+}
+
+export function listScoringProfiles(): ScoringProfileInfo[] {
+  return SCORING_PROFILES.map(({ id, label, description }) => ({ id, label, description }))
+}
+
+export function toProfileReference({ id, label }: ScoringProfile): ProfileReference {
+  return { id, label }
+}
+
+/** Scores one rule's outcomes: its `ruleScores` entry first, then the profile's `scores`. */
+export function ruleScorer(profile: ScoringProfile, ruleId: string) {
+  const overrides = profile.ruleScores[ruleId]
+  return (outcome: ScoreOutcome): number => overrides?.[outcome] ?? profile.scores[outcome]
+}
+
+/** Weighted mean rounded to an integer; returns 0 when every weight is 0. */
+export function weightedScore(entries: Array<{ score: number; weight: number }>): number {
+  const totalWeight = entries.reduce((sum, { weight }) => sum + weight, 0)
+  if (totalWeight <= 0) return 0
+  return Math.round(
+    entries.reduce((sum, { score, weight }) => sum + score * weight, 0) / totalWeight
+  )
+}
@@ -0,0 +1,138 @@
+import type {
+  AggregatedIssue,
+  DuplicateCluster,
+  PageFailure,
+  PageScore,
+  SectionId,
+  SeoAnalysis,
+  SiteSummary
+} from '../shared/analysis-types.js'
+import { mapAnalysisError, severityRank } from './analysis-service.js'
+import { detectDuplicates } from './duplicate-detection.js'
+
+const WORST_PAGES_LIMIT = 5
+
+export interface SiteReportParts {
+  summary: SiteSummary
+  issues: AggregatedIssue[]
+  duplicates: DuplicateCluster[]
+}
+
+/** Everything multi-page reports share: averages, grouped issues and duplicate clusters. */
+export function buildSiteReport(analyses: SeoAnalysis[], failures: PageFailure[]): SiteReportParts {
+  const duplicates = detectDuplicates(analyses)
+  return {
+    summary: summarizeSite(analyses, failures),
+    issues: sortIssues([...aggregateIssues(analyses), ...duplicates.issues]),
+    duplicates: duplicates.clusters
+  }
+}
+
+export function summarizeSite(analyses: SeoAnalysis[], failures: PageFailure[]): SiteSummary {
+  const pageScores = analyses.map<PageScore>((analysis) => ({
+    url: analysis.finalUrl,
+    overallScore: analysis.summary.overallScore,
+    status: analysis.summary.status,
+    issueCount: analysis.issues.length
+  }))
+
+  const worstPages = [...pageScores]
+    .sort((a, b) => a.overallScore - b.overallScore || b.issueCount - a.issueCount)
+    .slice(0, WORST_PAGES_LIMIT)
+
+  return {
+    pageCount: analyses.length,
+    failedCount: failures.length,
+    averageScore: average(pageScores.map((page) => page.overallScore)),
+    sectionAverages: averageSections(analyses),
+    worstPages
+  }
+}
+
+/** Groups per-page issues by id so each problem is listed once with its affected pages. */
+export function aggregateIssues(analyses: SeoAnalysis[]): AggregatedIssue[] {
+  const groups = new Map<string, { issue: AggregatedIssue; messages: Map<string, number> }>()
+
+  for (const analysis of analyses) {
+    for (const issue of analysis.issues) {
+      const group = groups.get(issue.id)
+      if (!group) {
+        groups.set(issue.id, {
+          issue: {
+            id: issue.id,
+            tag: issue.tag,
+            section: issue.section,
+            severity: issue.severity,
+            message: issue.message,
+            recommendation: issue.recommendation,
+            pageCount: 1,
+            pages: [analysis.finalUrl]
+          },
+          messages: new Map([[issue.message, 1]])
+        })
+        continue
+      }
+
+      group.issue.pageCount += 1
+      group.issue.pages.push(analysis.finalUrl)
+      if (severityRank(issue.severity) < severityRank(group.issue.severity)) {
+        group.issue.severity = issue.severity
+      }
+      group.messages.set(issue.message, (group.messages.get(issue.message) ?? 0) + 1)
+    }
+  }
+
+  return sortIssues(
+    [...groups.values()].map(({ issue, messages }) => ({
+      ...issue,
+      message: mostCommon(messages) ?? issue.message
+    }))
+  )
+}
+
+export function toPageFailure(url: string, error: unknown): PageFailure {
+  const { statusCode, payload } = mapAnalysisError(error)
+  const details = typeof payload.details === 'string' ? `: ${payload.details}` : ''
+  return { url, statusCode, error: `${payload.error}${details}` }
+}
+
+function averageSections(analyses: SeoAnalysis[]): Partial<Record<SectionId, number>> {
+  const scores = new Map<SectionId, number[]>()
+
+  for (const analysis of analyses) {
+    for (const section of analysis.sections) {
+      const list = scores.get(section.id) ?? []
+      list.push(section.score)
+      scores.set(section.id, list)
+    }
+  }
+
+  const averages: Partial<Record<SectionId, number>> = {}
+  for (const [id, values] of scores) {
+    averages[id] = average(values)
+  }
+  return averages
+}
+
+function average(values: number[]): number {
+  if (!values.length) return 0
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+function sortIssues(issues: AggregatedIssue[]): AggregatedIssue[] {
+  return issues.sort(
+    (a, b) => severityRank(a.severity) - severityRank(b.severity) || b.pageCount - a.pageCount
+  )
+}
+
+function mostCommon(counts: Map<string, number>): string | undefined {
+  let best: string | undefined
+  let bestCount = 0
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
@@ -0,0 +1,199 @@
+import { gunzipSync } from 'node:zlib'
+import { load } from 'cheerio'
+import { z } from 'zod'
+import type { PageFailure, SeoAnalysis, SitemapReport } from '../shared/analysis-types.js'
+import {
+  USER_AGENT,
+  analyzeUrl,
+  createHttpError,
+  httpUrlSchema,
+  isAnalysisHttpError,
+  profileSchema,
+  type AnalysisOptions
+} from './analysis-service.js'
+import { mapWithConcurrency } from './concurrency.js'
+import {
+  assertContentType,
+  fetchPolicyError,
+  guardedFetch,
+  readBodyWithLimit
+} from './fetch-guard.js'
+import { buildSiteReport, toPageFailure } from './site-report.js'
+
+export const MAX_SITEMAP_PAGES = 500
+export const MAX_SITEMAP_CONCURRENCY = 8
+
+const MAX_SITEMAP_NESTING = 3
+const MAX_SITEMAP_FILES = 50
+/** The sitemaps protocol caps a file at 50 MB uncompressed; compressed files are held to it too. */
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+/** Gzip files are often served as a generic binary type. */
+const SITEMAP_CONTENT_TYPES = [
+  'application/xml',
+  'text/xml',
+  'text/plain',
+  'application/gzip',
+  'application/x-gzip',
+  'application/octet-stream'
+]
+
+export const sitemapQuerySchema = z
+  .object({
+    url: httpUrlSchema,
+    limit: z.coerce.number().int().min(1).max(MAX_SITEMAP_PAGES).default(100),
+    concurrency: z.coerce.number().int().min(1).max(MAX_SITEMAP_CONCURRENCY).default(4),
+    profile: profileSchema.optional()
+  })
+  .strict()
+
+export interface SitemapOptions extends AnalysisOptions {
+  /** Maximum number of listed URLs to analyze. */
+  limit?: number
+  /** Maximum number of pages fetched at the same time. */
+  concurrency?: number
+}
+
+interface SitemapEntries {
+  sitemaps: string[]
+  urls: string[]
+}
+
+/**
+ * Reads a sitemap (or sitemap index, plain or gzip-compressed) and analyzes every listed URL.
+ */
+export async function analyzeSitemap(
+  sitemapUrl: string,
+  options: SitemapOptions = {}
+): Promise<SitemapReport> {
+  const { limit = 100, concurrency = 4, ...analysisOptions } = options
+  const { sitemaps, urls } = await collectSitemapUrls(sitemapUrl)
+
+  const outcomes = await mapWithConcurrency(urls.slice(0, limit), concurrency, async (url) => {
+    try {
+      return { ok: true as const, analysis: await analyzeUrl(url, analysisOptions) }
+    } catch (error) {
+      return { ok: false as const, failure: toPageFailure(url, error) }
+    }
+  })
+
+  const pages: SeoAnalysis[] = []
+  const failures: PageFailure[] = []
+  for (const outcome of outcomes) {
+    if (outcome.ok) pages.push(outcome.analysis)
+    else failures.push(outcome.failure)
+  }
+
+  return {
+    sitemapUrl,
+    sitemaps,
+    discoveredCount: urls.length,
+    analyzedAt: new Date().toISOString(),
+    ...buildSiteReport(pages, failures),
+    pages,
+    failures
+  }
+}
+
+/** Walks sitemap index files depth-first and returns the unique page URLs they list. */
+export async function collectSitemapUrls(sitemapUrl: string): Promise<SitemapEntries> {
+  const visited = new Set<string>()
+  const urls = new Set<string>()
+
+  const visit = async (url: string, nesting: number) => {
+    if (visited.has(url) || visited.size >= MAX_SITEMAP_FILES) return
+    visited.add(url)
+
+    const entries = parseSitemap(await fetchSitemap(url), url)
+    entries.urls.forEach((entry) => urls.add(entry))
+
+    if (nesting >= MAX_SITEMAP_NESTING) return
+    for (const child of entries.sitemaps) {
+      await visit(child, nesting + 1)
+    }
+  }
+
+  await visit(sitemapUrl, 0)
+  return { sitemaps: [...visited], urls: [...urls] }
+}
+
+async function fetchSitemap(url: string): Promise<string> {
+  let response: Response
+  try {
+    response = await guardedFetch(url, {
+      redirect: 'follow',
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: 'application/xml,text/xml,application/x-gzip;q=0.9,*/*;q=0.5'
+      },
+      signal: AbortSignal.timeout(15000)
+    })
+  } catch (error) {
+    if (isAnalysisHttpError(error)) throw error
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw createHttpError(502, 'Unable to fetch the sitemap', `${url}: ${message}`)
+  }
+
+  if (!response.ok) {
+    throw createHttpError(
+      response.status,
+      'Unable to fetch the sitemap',
+      `${url}: server responded with status ${response.status}`
+    )
+  }
+
+  assertContentType(response, url, SITEMAP_CONTENT_TYPES)
+  const body = Buffer.from(await readBodyWithLimit(response, url, MAX_SITEMAP_BYTES))
+  return decodeSitemapBody(body, url)
+}
+
+function decodeSitemapBody(body: Buffer, url: string): string {
+  if (!isGzip(body)) return body.toString('utf8')
+
+  try {
+    return gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw fetchPolicyError({ reason: 'response-too-large', url, limitBytes: MAX_SITEMAP_BYTES })
+    }
+    throw createHttpError(422, 'Invalid sitemap', `${url}: gzip data could not be decompressed`)
+  }
+}
+
+function isGzip(body: Buffer): boolean {
+  return body.length > 2 && body[0] === 0x1f && body[1] === 0x8b
+}
+
+function parseSitemap(xml: string, url: string): SitemapEntries {
+  const $ = load(xml, { xml: true })
+  const readLocs = (selector: string) =>
+    $(selector)
+      .map((_, element) => resolveLoc($(element).text(), url))
+      .get()
+      .filter((value): value is string => value !== undefined)
+
+  const isIndex = $('sitemapindex').length > 0
+  const isUrlSet = $('urlset').length > 0
+  if (!isIndex && !isUrlSet) {
+    throw createHttpError(
+      422,
+      'Invalid sitemap',
+      `${url}: expected a <urlset> or <sitemapindex> document`
+    )
+  }
+
+  return {
+    sitemaps: isIndex ? readLocs('sitemapindex > sitemap > loc') : [],
+    urls: isUrlSet ? readLocs('urlset > url > loc') : []
+  }
+}
+
+function resolveLoc(value: string, sitemapUrl: string): string | undefined {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+  try {
+    const url = new URL(trimmed, sitemapUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,250 @@
+import type { CheerioAPI } from 'cheerio'
+import type { TagStatus } from '../shared/analysis-types.js'
+import { getMeta, getProperty, resolveMaybeUrl, safeUrl } from './dom-helpers.js'
+import type { ImageProbe } from './image-probe.js'
+import type { RuleContext, RuleEvaluation, SeoRule } from './rule-registry.js'
+import { ruleScorer } from './scoring-profiles.js'
+
+interface ImageRequirements {
+  platform: string
+  /** Largest accepted file in bytes. */
+  maxBytes: number
+  minWidth: number
+  minHeight: number
+  maxWidth?: number
+  maxHeight?: number
+  /** Below this size the image is accepted but rendered as a small thumbnail. */
+  recommendedWidth?: number
+  recommendedHeight?: number
+}
+
+const OPEN_GRAPH_REQUIREMENTS: ImageRequirements = {
+  platform: 'Facebook',
+  maxBytes: 8 * 1024 * 1024,
+  minWidth: 200,
+  minHeight: 200,
+  recommendedWidth: 1200,
+  recommendedHeight: 630
+}
+
+/** Keyed by the lowercase `twitter:card` value. */
+const TWITTER_REQUIREMENTS = new Map<string, ImageRequirements>([
+  [
+    'summary',
+    {
+      platform: 'X (Twitter)',
+      maxBytes: 5 * 1024 * 1024,
+      minWidth: 144,
+      minHeight: 144,
+      maxWidth: 4096,
+      maxHeight: 4096
+    }
+  ],
+  [
+    'summary_large_image',
+    {
+      platform: 'X (Twitter)',
+      maxBytes: 5 * 1024 * 1024,
+      minWidth: 300,
+      minHeight: 157,
+      maxWidth: 4096,
+      maxHeight: 4096
+    }
+  ]
+])
+
+const SUPPORTED_FORMATS = new Set(['png', 'jpeg', 'gif', 'webp'])
+
+interface Finding {
+  status: Exclude<TagStatus, 'ok'>
+  message: string
+  recommendation: string
+}
+
+/**
+ * Downloads the social images and checks them against platform limits.
+ * Rules are not applicable (`null`) without an image URL or when the caller
+ * disabled image checks; a missing image is reported by `og-image` and
+ * `twitter-image`.
+ */
+export const socialImageRules: SeoRule[] = [
+  {
+    id: 'og-image-file',
+    section: 'openGraph',
+    selector: 'meta[property="og:image"]',
+    evaluate: async (context) => {
+      const url = readImageUrl(context, getProperty(context.$, 'og:image'))
+      if (!url || !context.network) return null
+      const probe = await context.network.probeImage(url)
+      return evaluateImage('og-image-file', 'OG image file', probe, OPEN_GRAPH_REQUIREMENTS, context, {
+        width: readDeclaredSize(context.$, 'og:image:width'),
+        height: readDeclaredSize(context.$, 'og:image:height')
+      })
+    }
+  },
+  {
+    id: 'twitter-image-file',
+    section: 'twitter',
+    selector: 'meta[name="twitter:image"], meta[property="og:image"]',
+    evaluate: async (context) => {
+      const { $ } = context
+      const url = readImageUrl(context, getMeta($, 'twitter:image') ?? getProperty($, 'og:image'))
+      if (!url || !context.network) return null
+      const card = getMeta($, 'twitter:card')?.trim().toLowerCase() || 'summary_large_image'
+      const requirements = TWITTER_REQUIREMENTS.get(card)
+      if (!requirements) return null
+      const probe = await context.network.probeImage(url)
+      return evaluateImage('twitter-image-file', 'Twitter image file', probe, requirements, context, {})
+    }
+  }
+]
+
+/** Relative URLs in pasted HTML without a base URL point at the placeholder host and are skipped. */
+function readImageUrl({ baseUrl, pageUrl, network }: RuleContext, value: string | undefined) {
+  if (!network?.images) return undefined
+  const url = safeUrl(resolveMaybeUrl(value, baseUrl) ?? '')
+  if (!url || !/^https?:$/.test(url.protocol)) return undefined
+  return pageUrl || url.origin !== baseUrl.origin ? url.toString() : undefined
+}
+
+function readDeclaredSize($: CheerioAPI, property: string): number | undefined {
+  const value = Number(getProperty($, property))
+  return Number.isInteger(value) && value > 0 ? value : undefined
+}
+
+function evaluateImage(
+  ruleId: string,
+  label: string,
+  probe: ImageProbe,
+  requirements: ImageRequirements,
+  { profile }: RuleContext,
+  declared: { width?: number | undefined; height?: number | undefined }
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, ruleId)
+  if (!probe.ok) {
+    return {
+      label,
+      value: probe.url,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `The image could not be loaded: ${probe.error}.`,
+      recommendation: 'Serve the image with status 200 and an image/* content type.'
+    }
+  }
+
+  const findings = collectFindings(probe, requirements, declared)
+  const value = describeImage(probe)
+  const worst = findings.find((finding) => finding.status === 'error') ?? findings[0]
+
+  if (!worst) {
+    return {
+      label,
+      value,
+      status: 'ok',
+      score: scoreFor('ok'),
+      message: `The image meets the ${requirements.platform} requirements.`
+    }
+  }
+
+  return {
+    label,
+    value,
+    status: worst.status,
+    score: worst.status === 'error' ? scoreFor('invalid') : scoreFor('warning'),
+    message: findings.map((finding) => finding.message).join(' '),
+    recommendation: worst.recommendation
+  }
+}
+
+function collectFindings(
+  probe: ImageProbe & { ok: true },
+  requirements: ImageRequirements,
+  declared: { width?: number | undefined; height?: number | undefined }
+): Finding[] {
+  const { platform } = requirements
+  const findings: Finding[] = []
+
+  if (!SUPPORTED_FORMATS.has(probe.format)) {
+    findings.push({
+      status: 'error',
+      message: `${platform} does not display ${probe.format.toUpperCase()} images.`,
+      recommendation: 'Use a PNG, JPEG, WebP or GIF image.'
+    })
+  }
+
+  if (probe.bytes !== undefined && probe.bytes > requirements.maxBytes) {
+    findings.push({
+      status: 'error',
+      message: `The file is ${formatBytes(probe.bytes)}, above the ${formatBytes(requirements.maxBytes)} ${platform} limit.`,
+      recommendation: 'Compress the image or lower its resolution.'
+    })
+  }
+
+  const { width, height } = probe
+  if (width === undefined || height === undefined) {
+    if (SUPPORTED_FORMATS.has(probe.format)) {
+      findings.push({
+        status: 'warning',
+        message: 'The image dimensions could not be read from the file header.',
+        recommendation: 'Re-export the image as a standard PNG or JPEG.'
+      })
+    }
+    return findings
+  }
+
+  if (width < requirements.minWidth || height < requirements.minHeight) {
+    findings.push({
+      status: 'error',
+      message: `${width}×${height} px is below the ${requirements.minWidth}×${requirements.minHeight} px ${platform} minimum.`,
+      recommendation: `Provide an image of at least ${requirements.minWidth}×${requirements.minHeight} px.`
+    })
+  } else if (
+    (requirements.maxWidth !== undefined && width > requirements.maxWidth) ||
+    (requirements.maxHeight !== undefined && height > requirements.maxHeight)
+  ) {
+    findings.push({
+      status: 'error',
+      message: `${width}×${height} px exceeds the ${requirements.maxWidth}×${requirements.maxHeight} px ${platform} maximum.`,
+      recommendation: `Resize the image to at most ${requirements.maxWidth}×${requirements.maxHeight} px.`
+    })
+  } else if (
+    (requirements.recommendedWidth !== undefined && width < requirements.recommendedWidth) ||
+    (requirements.recommendedHeight !== undefined && height < requirements.recommendedHeight)
+  ) {
+    findings.push({
+      status: 'warning',
+      message: `${width}×${height} px is shown as a small thumbnail; ${requirements.recommendedWidth}×${requirements.recommendedHeight} px is recommended.`,
+      recommendation: `Use an image of ${requirements.recommendedWidth}×${requirements.recommendedHeight} px for large previews.`
+    })
+  }
+
+  if (
+    (declared.width !== undefined && declared.width !== width) ||
+    (declared.height !== undefined && declared.height !== height)
+  ) {
+    findings.push({
+      status: 'warning',
+      message: `og:image:width/height declare ${declared.width ?? '?'}×${declared.height ?? '?'} px but the file is ${width}×${height} px.`,
+      recommendation: 'Update og:image:width and og:image:height to the real image size.'
+    })
+  }
+
+  return findings
+}
+
+function describeImage({ format, width, height, bytes }: ImageProbe & { ok: true }): string {
+  return [
+    width !== undefined && height !== undefined
+      ? `${width}×${height} ${format.toUpperCase()}`
+      : format.toUpperCase(),
+    bytes !== undefined ? formatBytes(bytes) : undefined
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
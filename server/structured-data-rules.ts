@@ -0,0 +1,315 @@
+import type { RuleEvaluation, SeoRule } from './rule-registry.js'
+import { ruleScorer, type ScoringProfile } from './scoring-profiles.js'
+import {
+  FORMAT_LABELS,
+  STRUCTURED_DATA_SELECTOR,
+  asList,
+  extractStructuredData,
+  isRecord,
+  type StructuredDataExtraction,
+  type StructuredDataItem
+} from './structured-data.js'
+
+interface SchemaTypeSpec {
+  /** Rule id suffix, e.g. `product` for `schema-product`. */
+  id: string
+  type: string
+  /** schema.org types validated against this spec, including common subtypes. */
+  matches: string[]
+  required: string[]
+  /** At least one of these properties must be present. */
+  requiredAnyOf?: string[]
+  recommended: string[]
+  /** Checks on nested values (list items, offers…); returns one message per problem. */
+  validateNested?: (properties: Record<string, unknown>) => string[]
+}
+
+const SCHEMA_TYPE_SPECS: SchemaTypeSpec[] = [
+  {
+    id: 'article',
+    type: 'Article',
+    matches: ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'Report'],
+    required: ['headline'],
+    recommended: ['image', 'author', 'datePublished', 'dateModified', 'publisher']
+  },
+  {
+    id: 'product',
+    type: 'Product',
+    matches: ['Product', 'ProductGroup', 'IndividualProduct', 'ProductModel', 'SomeProducts'],
+    required: ['name'],
+    requiredAnyOf: ['offers', 'review', 'aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku'],
+    validateNested: (properties) =>
+      asList(properties['offers']).flatMap((offer) => {
+        if (!isRecord(offer)) return []
+        const missing = ['priceCurrency'].filter((name) => !hasValue(offer[name]))
+        if (!hasValue(offer['price']) && !hasValue(offer['lowPrice'])) missing.unshift('price')
+        return missing.length ? [`Offer is missing ${missing.join(', ')}`] : []
+      })
+  },
+  {
+    id: 'breadcrumb-list',
+    type: 'BreadcrumbList',
+    matches: ['BreadcrumbList'],
+    required: ['itemListElement'],
+    recommended: [],
+    validateNested: (properties) => {
+      const elements = asList(properties['itemListElement'])
+      return elements.flatMap((element, index) => {
+        if (!isRecord(element)) return [`Breadcrumb ${index + 1} is not a ListItem`]
+        const item = element['item']
+        const missing = [
+          ...(hasValue(element['position']) ? [] : ['position']),
+          ...(hasValue(element['name']) || (isRecord(item) && hasValue(item['name']))
+            ? []
+            : ['name']),
+          // The last crumb may omit `item` because it represents the current page.
+          ...(hasValue(item) || index === elements.length - 1 ? [] : ['item'])
+        ]
+        return missing.length ? [`Breadcrumb ${index + 1} is missing ${missing.join(', ')}`] : []
+      })
+    }
+  },
+  {
+    id: 'faq-page',
+    type: 'FAQPage',
+    matches: ['FAQPage'],
+    required: ['mainEntity'],
+    recommended: [],
+    validateNested: (properties) =>
+      asList(properties['mainEntity']).flatMap((question, index) => {
+        if (!isRecord(question)) return [`Question ${index + 1} is not a Question`]
+        const answer = asList(question['acceptedAnswer'])[0]
+        const missing = [
+          ...(hasValue(question['name']) ? [] : ['name']),
+          ...(isRecord(answer) && hasValue(answer['text']) ? [] : ['acceptedAnswer.text'])
+        ]
+        return missing.length ? [`Question ${index + 1} is missing ${missing.join(', ')}`] : []
+      })
+  },
+  {
+    id: 'organization',
+    type: 'Organization',
+    matches: ['Organization', 'Corporation', 'NGO', 'EducationalOrganization'],
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint']
+  },
+  {
+    id: 'local-business',
+    type: 'LocalBusiness',
+    matches: ['LocalBusiness', 'Store', 'Restaurant', 'ProfessionalService'],
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'openingHoursSpecification', 'geo', 'priceRange']
+  },
+  {
+    id: 'website',
+    type: 'WebSite',
+    matches: ['WebSite'],
+    required: ['url'],
+    recommended: ['name', 'potentialAction']
+  },
+  {
+    id: 'event',
+    type: 'Event',
+    matches: ['Event', 'MusicEvent', 'BusinessEvent', 'EducationEvent', 'SportsEvent'],
+    required: ['name', 'startDate', 'location'],
+    recommended: ['endDate', 'image', 'description', 'offers', 'organizer', 'eventStatus']
+  },
+  {
+    id: 'recipe',
+    type: 'Recipe',
+    matches: ['Recipe'],
+    required: ['name', 'image'],
+    recommended: [
+      'author',
+      'datePublished',
+      'description',
+      'recipeIngredient',
+      'recipeInstructions',
+      'totalTime'
+    ]
+  },
+  {
+    id: 'video-object',
+    type: 'VideoObject',
+    matches: ['VideoObject'],
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    recommended: ['description', 'duration', 'contentUrl', 'embedUrl']
+  }
+]
+
+export const structuredDataRules: SeoRule[] = [
+  {
+    id: 'structured-data',
+    section: 'structuredData',
+    selector: STRUCTURED_DATA_SELECTOR,
+    evaluate: ({ $, profile }) => evaluatePresence(extractStructuredData($), profile)
+  },
+  {
+    id: 'structured-data-syntax',
+    section: 'structuredData',
+    selector: STRUCTURED_DATA_SELECTOR,
+    evaluate: ({ $, profile }) => evaluateSyntax(extractStructuredData($), profile)
+  },
+  ...SCHEMA_TYPE_SPECS.map<SeoRule>((spec) => ({
+    id: `schema-${spec.id}`,
+    section: 'structuredData',
+    selector: STRUCTURED_DATA_SELECTOR,
+    evaluate: ({ $, profile }) => evaluateSchemaType(spec, extractStructuredData($), profile)
+  }))
+]
+
+function evaluatePresence(
+  { items }: StructuredDataExtraction,
+  profile: ScoringProfile
+): RuleEvaluation {
+  const scoreFor = ruleScorer(profile, 'structured-data')
+  if (!items.length) {
+    return {
+      label: 'Structured data',
+      status: 'warning',
+      score: scoreFor('optionalMissing'),
+      message: 'No schema.org structured data found.',
+      recommendation:
+        'Describe the page with JSON-LD (e.g. Organization, Article or Product) to qualify for rich results.'
+    }
+  }
+
+  const types = [...new Set(items.flatMap((item) => item.types))]
+  const formats = [...new Set(items.map((item) => FORMAT_LABELS[item.format]))]
+  return {
+    label: 'Structured data',
+    value: types.join(', '),
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `Found ${items.length} ${items.length === 1 ? 'item' : 'items'} in ${formats.join(', ')}.`
+  }
+}
+
+/** Not applicable (`null`) when the page has no structured data markup at all. */
+function evaluateSyntax(
+  { problems, blockCount }: StructuredDataExtraction,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, 'structured-data-syntax')
+  if (!blockCount) return null
+
+  const errors = problems.filter((problem) => problem.severity === 'error')
+  const value = `${blockCount} ${blockCount === 1 ? 'block' : 'blocks'}`
+
+  if (errors.length) {
+    return {
+      label: 'Structured data syntax',
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: errors.map((problem) => problem.message).join(' '),
+      recommendation:
+        'Fix the JSON syntax so search engines can read the markup; validate it with the Rich Results Test.'
+    }
+  }
+
+  if (problems.length) {
+    return {
+      label: 'Structured data syntax',
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: problems.map((problem) => problem.message).join(' '),
+      recommendation: 'Remove empty blocks and give every structured data item a schema.org type.'
+    }
+  }
+
+  return {
+    label: 'Structured data syntax',
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: 'All structured data blocks parsed successfully.'
+  }
+}
+
+/** Types validated as `type`, so other features accept the same items as the rules. */
+export function schemaTypeMatches(type: string): string[] {
+  return SCHEMA_TYPE_SPECS.find((spec) => spec.type === type)?.matches ?? [type]
+}
+
+/** Not applicable (`null`) when the page has no item of the spec's type. */
+function evaluateSchemaType(
+  spec: SchemaTypeSpec,
+  { items }: StructuredDataExtraction,
+  profile: ScoringProfile
+): RuleEvaluation | null {
+  const scoreFor = ruleScorer(profile, `schema-${spec.id}`)
+  const matching = items.filter((item) => item.types.some((type) => spec.matches.includes(type)))
+  if (!matching.length) return null
+
+  const label = `${spec.type} schema`
+  const value = describeItems(spec.type, matching)
+  const requiredProblems = unique(matching.flatMap((item) => findRequiredProblems(spec, item)))
+  const missingRecommended = unique(
+    matching.flatMap((item) => spec.recommended.filter((name) => !hasValue(item.properties[name])))
+  )
+
+  if (requiredProblems.length) {
+    return {
+      label,
+      value,
+      status: 'error',
+      score: scoreFor('invalid'),
+      message: `${spec.type} is not eligible for rich results: ${requiredProblems.join('; ')}.`,
+      recommendation: `Add the required ${spec.type} properties and re-test the markup.`
+    }
+  }
+
+  if (missingRecommended.length) {
+    return {
+      label,
+      value,
+      status: 'warning',
+      score: scoreFor('warning'),
+      message: `${spec.type} is missing recommended properties: ${missingRecommended.join(', ')}.`,
+      recommendation: `Fill in ${missingRecommended.join(', ')} to make the ${spec.type} result richer.`
+    }
+  }
+
+  return {
+    label,
+    value,
+    status: 'ok',
+    score: scoreFor('ok'),
+    message: `${spec.type} markup has every required and recommended property.`
+  }
+}
+
+function findRequiredProblems(spec: SchemaTypeSpec, item: StructuredDataItem): string[] {
+  const { properties } = item
+  const missing = spec.required.filter((name) => !hasValue(properties[name]))
+  const anyOf = spec.requiredAnyOf
+  if (anyOf && !anyOf.some((name) => hasValue(properties[name]))) {
+    missing.push(anyOf.join(' or '))
+  }
+
+  return [
+    ...(missing.length ? [`missing ${missing.join(', ')}`] : []),
+    ...(spec.validateNested?.(properties) ?? [])
+  ]
+}
+
+function describeItems(type: string, items: StructuredDataItem[]): string {
+  const formats = unique(items.map((item) => FORMAT_LABELS[item.format]))
+  const count = items.length > 1 ? ` ×${items.length}` : ''
+  return `${type}${count} (${formats.join(', ')})`
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false
+  if (typeof value === 'string') return value.trim().length > 0
+  if (Array.isArray(value)) return value.some(hasValue)
+  if (isRecord(value)) return Object.keys(value).length > 0
+  return true
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { load } from 'cheerio'
+import { extractStructuredData } from './structured-data.js'
+
+describe('extractStructuredData', () => {
+  it('reads JSON-LD arrays and @graph nodes', () => {
+    const $ = load(`
+      <script type="application/ld+json">
+        {"@context": "https://schema.org", "@graph": [
+          {"@type": "Organization", "name": "Acme"},
+          {"@type": ["https://schema.org/WebSite"], "url": "https://acme.test"}
+        ]}
+      </script>
+      <script type="application/ld+json">[{"@type": "schema:Product", "name": "Anvil"}]</script>
+    `)
+    const { items, problems, blockCount } = extractStructuredData($)
+
+    assert.equal(blockCount, 2)
+    assert.deepEqual(problems, [])
+    assert.deepEqual(
+      items.map(({ format, types }) => ({ format, types })),
+      [
+        { format: 'json-ld', types: ['Organization'] },
+        { format: 'json-ld', types: ['WebSite'] },
+        { format: 'json-ld', types: ['Product'] }
+      ]
+    )
+  })
+
+  it('reports invalid, empty and untyped JSON-LD blocks', () => {
+    const $ = load(`
+      <script type="application/ld+json">{"@type": "Article",}</script>
+      <script type="application/ld+json"></script>
+      <script type="application/ld+json">{"name": "No type"}</script>
+    `)
+    const { items, problems } = extractStructuredData($)
+
+    assert.deepEqual(items, [])
+    assert.deepEqual(
+      problems.map(({ severity, message }) => ({ severity, message: message.split(':')[0] })),
+      [
+        { severity: 'error', message: 'JSON-LD block 1' },
+        { severity: 'warning', message: 'JSON-LD block 2 is empty.' },
+        { severity: 'warning', message: 'JSON-LD block 3 contains an item without @type.' }
+      ]
+    )
+  })
+
+  it('reads Microdata properties, including nested items and element values', () => {
+    const $ = load(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Anvil</h1>
+        <img itemprop="image" src="/anvil.png">
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="priceCurrency" content="USD">
+          <data itemprop="price" value="19.99">$19.99</data>
+        </div>
+      </div>
+      <div itemscope></div>
+    `)
+    const { items, problems, blockCount } = extractStructuredData($)
+
+    assert.equal(blockCount, 2)
+    assert.deepEqual(items, [
+      {
+        format: 'microdata',
+        types: ['Product'],
+        properties: {
+          name: 'Anvil',
+          image: '/anvil.png',
+          offers: { '@type': ['Offer'], priceCurrency: 'USD', price: '19.99' }
+        }
+      }
+    ])
+    assert.deepEqual(
+      problems.map((problem) => problem.message),
+      ['An itemscope element has no itemtype.']
+    )
+  })
+
+  it('reads RDFa properties and collects repeated ones into a list', () => {
+    const $ = load(`
+      <div vocab="https://schema.org/" typeof="Article">
+        <span property="headline">Release notes</span>
+        <span property="schema:author" typeof="Person"><span property="name">Ada</span></span>
+        <a property="sameAs" href="https://a.test">A</a>
+        <a property="sameAs" href="https://b.test">B</a>
+      </div>
+    `)
+    const { items } = extractStructuredData($)
+
+    assert.deepEqual(items, [
+      {
+        format: 'rdfa',
+        types: ['Article'],
+        properties: {
+          headline: 'Release notes',
+          author: { '@type': ['Person'], name: 'Ada' },
+          sameAs: ['https://a.test', 'https://b.test']
+        }
+      }
+    ])
+  })
+})
@@ -0,0 +1,294 @@
+import type { CheerioAPI } from 'cheerio'
+import { normalizeText } from './dom-helpers.js'
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa'
+
+export interface StructuredDataItem {
+  format: StructuredDataFormat
+  /** schema.org type names without the vocabulary prefix, e.g. `Product`. */
+  types: string[]
+  properties: Record<string, unknown>
+}
+
+export interface StructuredDataProblem {
+  format: StructuredDataFormat
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface StructuredDataExtraction {
+  items: StructuredDataItem[]
+  problems: StructuredDataProblem[]
+  /** JSON-LD scripts plus top-level Microdata and RDFa scopes found in the markup. */
+  blockCount: number
+}
+
+export const STRUCTURED_DATA_SELECTOR = 'script[type="application/ld+json"], [itemscope], [typeof]'
+
+export const FORMAT_LABELS: Record<StructuredDataFormat, string> = {
+  'json-ld': 'JSON-LD',
+  microdata: 'Microdata',
+  rdfa: 'RDFa'
+}
+
+type Element = ReturnType<typeof selectAll>[number]
+
+const extractions = new WeakMap<CheerioAPI, StructuredDataExtraction>()
+
+/**
+ * Collects schema.org items from JSON-LD, Microdata and RDFa. Results are
+ * cached per document because every structured data rule needs them.
+ */
+export function extractStructuredData($: CheerioAPI): StructuredDataExtraction {
+  const cached = extractions.get($)
+  if (cached) return cached
+
+  const jsonLd = extractJsonLd($)
+  const microdata = extractMicrodata($)
+  const rdfa = extractRdfa($)
+  const extraction: StructuredDataExtraction = {
+    items: [...jsonLd.items, ...microdata.items, ...rdfa.items],
+    problems: [...jsonLd.problems, ...microdata.problems, ...rdfa.problems],
+    blockCount: jsonLd.blockCount + microdata.blockCount + rdfa.blockCount
+  }
+
+  extractions.set($, extraction)
+  return extraction
+}
+
+/** Strips `https://schema.org/` or `schema:` so types compare by their short name. */
+export function normalizeType(value: string): string {
+  return value
+    .trim()
+    .replace(/^https?:\/\/schema\.org\//i, '')
+    .replace(/^schema:/i, '')
+}
+
+export function readTypes(node: Record<string, unknown>): string[] {
+  const value = node['@type']
+  const values = Array.isArray(value) ? value : [value]
+  return values
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(normalizeType)
+}
+
+function extractJsonLd($: CheerioAPI): StructuredDataExtraction {
+  const items: StructuredDataItem[] = []
+  const problems: StructuredDataProblem[] = []
+  const scripts = selectAll($, 'script[type="application/ld+json"]')
+
+  scripts.forEach((script, index) => {
+    const label = scripts.length > 1 ? `JSON-LD block ${index + 1}` : 'JSON-LD block'
+    const source = stripCommentWrappers($(script).text())
+
+    if (!source) {
+      problems.push({ format: 'json-ld', severity: 'warning', message: `${label} is empty.` })
+      return
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(source)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'invalid JSON'
+      problems.push({ format: 'json-ld', severity: 'error', message: `${label}: ${reason}` })
+      return
+    }
+
+    const nodes = flattenJsonLd(parsed)
+    if (!nodes.length) {
+      problems.push({
+        format: 'json-ld',
+        severity: 'warning',
+        message: `${label} does not contain any objects.`
+      })
+    }
+
+    for (const node of nodes) {
+      const types = readTypes(node)
+      if (!types.length) {
+        problems.push({
+          format: 'json-ld',
+          severity: 'warning',
+          message: `${label} contains an item without @type.`
+        })
+        continue
+      }
+      items.push({ format: 'json-ld', types, properties: node })
+    }
+  })
+
+  return { items, problems, blockCount: scripts.length }
+}
+
+/** Top-level JSON-LD nodes, unwrapping arrays and `@graph` containers. */
+function flattenJsonLd(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd)
+  if (!isRecord(value)) return []
+
+  const graph = value['@graph']
+  if (graph !== undefined) {
+    const nodes = flattenJsonLd(graph)
+    return readTypes(value).length ? [value, ...nodes] : nodes
+  }
+  return [value]
+}
+
+function stripCommentWrappers(source: string): string {
+  return source
+    .trim()
+    .replace(/^<!--/, '')
+    .replace(/-->$/, '')
+    .replace(/^\/\/\s*<!\[CDATA\[/, '')
+    .replace(/\/\/\s*\]\]>$/, '')
+    .trim()
+}
+
+function extractMicrodata($: CheerioAPI): StructuredDataExtraction {
+  const items: StructuredDataItem[] = []
+  const problems: StructuredDataProblem[] = []
+  const scopes = selectAll($, '[itemscope]:not([itemprop])')
+
+  for (const scope of scopes) {
+    const types = splitTokens($(scope).attr('itemtype')).map(normalizeType)
+    if (!types.length) {
+      problems.push({
+        format: 'microdata',
+        severity: 'warning',
+        message: 'An itemscope element has no itemtype.'
+      })
+      continue
+    }
+    items.push({ format: 'microdata', types, properties: readMicrodataScope($, scope) })
+  }
+
+  return { items, problems, blockCount: scopes.length }
+}
+
+function readMicrodataScope($: CheerioAPI, scope: Element): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+
+  $(scope)
+    .find('[itemprop]')
+    .each((_, element) => {
+      if ($(element).parent().closest('[itemscope]')[0] !== scope) return
+
+      const node = $(element)
+      const value =
+        node.attr('itemscope') !== undefined
+          ? {
+              '@type': splitTokens(node.attr('itemtype')).map(normalizeType),
+              ...readMicrodataScope($, element)
+            }
+          : readMicrodataValue($, element)
+
+      for (const name of splitTokens(node.attr('itemprop'))) {
+        addProperty(properties, name, value)
+      }
+    })
+
+  return properties
+}
+
+function readMicrodataValue($: CheerioAPI, element: Element): string | undefined {
+  const node = $(element)
+  const tagName = (node.prop('tagName') ?? '').toLowerCase()
+
+  switch (tagName) {
+    case 'meta':
+      return normalizeText(node.attr('content'))
+    case 'a':
+    case 'area':
+    case 'link':
+      return normalizeText(node.attr('href'))
+    case 'audio':
+    case 'embed':
+    case 'iframe':
+    case 'img':
+    case 'source':
+    case 'video':
+      return normalizeText(node.attr('src'))
+    case 'object':
+      return normalizeText(node.attr('data'))
+    case 'data':
+    case 'meter':
+      return normalizeText(node.attr('value'))
+    case 'time':
+      return normalizeText(node.attr('datetime')) ?? normalizeText(node.text())
+    default:
+      return normalizeText(node.attr('content')) ?? normalizeText(node.text())
+  }
+}
+
+function extractRdfa($: CheerioAPI): StructuredDataExtraction {
+  const items: StructuredDataItem[] = []
+  const scopes = selectAll($, '[typeof]:not([property])')
+
+  for (const scope of scopes) {
+    const types = splitTokens($(scope).attr('typeof')).map(normalizeType)
+    if (types.length) {
+      items.push({ format: 'rdfa', types, properties: readRdfaScope($, scope) })
+    }
+  }
+
+  return { items, problems: [], blockCount: scopes.length }
+}
+
+function readRdfaScope($: CheerioAPI, scope: Element): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+
+  $(scope)
+    .find('[property]')
+    .each((_, element) => {
+      if ($(element).parent().closest('[typeof]')[0] !== scope) return
+
+      const node = $(element)
+      const value =
+        node.attr('typeof') !== undefined
+          ? {
+              '@type': splitTokens(node.attr('typeof')).map(normalizeType),
+              ...readRdfaScope($, element)
+            }
+          : (normalizeText(node.attr('content')) ??
+            normalizeText(node.attr('href')) ??
+            normalizeText(node.attr('src')) ??
+            normalizeText(node.attr('resource')) ??
+            normalizeText(node.text()))
+
+      for (const name of splitTokens(node.attr('property'))) {
+        addProperty(properties, normalizeType(name), value)
+      }
+    })
+
+  return properties
+}
+
+function addProperty(properties: Record<string, unknown>, name: string, value: unknown) {
+  if (value === undefined) return
+  const existing = properties[name]
+  if (existing === undefined) {
+    properties[name] = value
+  } else if (Array.isArray(existing)) {
+    existing.push(value)
+  } else {
+    properties[name] = [existing, value]
+  }
+}
+
+function selectAll($: CheerioAPI, selector: string) {
+  return $(selector).toArray()
+}
+
+function splitTokens(value: string | undefined): string[] {
+  return value ? value.split(/\s+/).filter(Boolean) : []
+}
+
+/** Wraps single schema.org values so one-or-many properties read the same way. */
+export function asList(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,8 +1,20 @@
 export type TagStatus = 'ok' | 'warning' | 'error'
 
-export type SectionId = 'meta' | 'openGraph' | 'twitter'
+export type AnalysisSource = 'url' | 'html'
+
+export type SectionId =
+  | 'meta'
+  | 'openGraph'
+  | 'twitter'
+  | 'structuredData'
+  | 'i18n'
+  | 'http'
+  | 'content'
+  | 'links'
 
 export interface TagResult {
+  /** Identifier of the rule that produced the result. */
+  id: string
   tag: string
   label: string
   value?: string
@@ -37,10 +49,20 @@ export interface SearchPreview {
   domain: string
 }
 
+export interface ImageDetails {
+  /** Lower-case format name, e.g. `png` or `jpeg`. */
+  format: string
+  width?: number
+  height?: number
+  bytes?: number
+}
+
 export interface SocialPreview {
   title: string
   description: string
   image?: string
+  /** Only present when the image was fetched and could be read. */
+  imageDetails?: ImageDetails
   url: string
   siteName: string
 }
@@ -49,26 +71,441 @@ export interface TwitterPreview extends SocialPreview {
   card: string
 }
 
+export interface BreadcrumbPreviewItem {
+  name: string
+  url?: string
+}
+
+export interface RatingPreview {
+  value: number
+  best: number
+  count?: number
+}
+
+export interface ProductRichPreview {
+  name: string
+  price?: string
+  currency?: string
+  /** Human-readable schema.org availability, e.g. `In stock`. */
+  availability?: string
+  rating?: RatingPreview
+}
+
+export interface RecipeRichPreview {
+  name: string
+  image?: string
+  /** Human-readable total time, e.g. `1 hr 15 min`. */
+  totalTime?: string
+  calories?: string
+  rating?: RatingPreview
+}
+
+export interface FaqPreviewItem {
+  question: string
+  answer: string
+}
+
+/** Rich snippet enhancements derived from the page's structured data. */
+export interface RichResultPreview {
+  breadcrumbs?: BreadcrumbPreviewItem[]
+  product?: ProductRichPreview
+  recipe?: RecipeRichPreview
+  faq?: FaqPreviewItem[]
+}
+
 export interface SeoPreviews {
   google: SearchPreview
   openGraph: SocialPreview
   twitter: TwitterPreview
+  /** Present when Product, Recipe, FAQPage or BreadcrumbList markup is detected. */
+  richResult?: RichResultPreview
+}
+
+export interface ProfileReference {
+  id: string
+  label: string
+}
+
+export interface ScoringProfileInfo extends ProfileReference {
+  description: string
+}
+
+export interface RobotsTxtSummary {
+  url: string
+  /** `unavailable` when robots.txt could not be fetched; crawling is then not assumed blocked. */
+  status: 'allowed' | 'disallowed' | 'unavailable'
+  /** Deciding rule, e.g. `Disallow: /private/`. */
+  rule?: string
+}
+
+export interface IndexabilityVerdict {
+  indexable: boolean
+  /** Why the page cannot be indexed; empty when it can. */
+  reasons: string[]
+  /** Directives that apply to Googlebot from meta tags and `X-Robots-Tag`, with their source. */
+  directives: string[]
+  /** Only present for fetched pages. */
+  robotsTxt?: RobotsTxtSummary
 }
 
 export interface SeoSummary {
   overallScore: number
   status: TagStatus
   sectionScores: Record<SectionId, number>
+  /** Scoring profile used to compute the scores. */
+  profile: ProfileReference
+  indexability: IndexabilityVerdict
+}
+
+export interface RedirectHop {
+  url: string
+  status: number
+  /** Absolute target of the `Location` header. */
+  location: string
+}
+
+export interface FetchTiming {
+  /** Time spent following redirects before the final request started. */
+  redirectMs: number
+  /** Time to first byte of the final response. */
+  ttfbMs: number
+  /** Time spent reading the final response body. */
+  downloadMs: number
+  totalMs: number
+}
+
+/** How the page was retrieved; only present for URL analyses. */
+export interface FetchDiagnostics {
+  status: number
+  redirects: RedirectHop[]
+  /** Selected response headers of the final response, keyed by lower-case name. */
+  headers: Record<string, string>
+  timing: FetchTiming
+  /** Size of the decoded HTML body in bytes. */
+  htmlBytes: number
+}
+
+/** `other` covers non-HTTP schemes such as `mailto:` and `tel:`. */
+export type LinkScope = 'internal' | 'external' | 'other'
+
+export type LinkRel = 'nofollow' | 'sponsored' | 'ugc'
+
+/** The href cannot be followed: blank or `#`, a `javascript:` URL, or unparsable. */
+export type LinkProblem = 'empty' | 'javascript' | 'invalid'
+
+export interface LinkCheck {
+  result: 'ok' | 'redirect' | 'broken' | 'unreachable'
+  status?: number
+  /** Redirect target, resolved against the link URL. */
+  location?: string
+  error?: string
+}
+
+export interface PageLink {
+  /** The raw `href` attribute. */
+  href: string
+  /** Absolute URL; absent when the href has a problem. */
+  url?: string
+  text: string
+  scope: LinkScope
+  rel: LinkRel[]
+  problem?: LinkProblem
+  /** Present when link checking was enabled and the URL was requested. */
+  check?: LinkCheck
+}
+
+export interface LinkInventory {
+  links: PageLink[]
+  /** Whether link targets were requested; links beyond the check limit stay unchecked. */
+  checked: boolean
 }
 
 export interface SeoAnalysis {
   url: string
   finalUrl: string
+  source: AnalysisSource
   fetchedAt: string
   summary: SeoSummary
   sections: SectionResult[]
   issues: SeoIssue[]
   missing: string[]
   previews: SeoPreviews
+  links: LinkInventory
+  fetch?: FetchDiagnostics
+  /** Present when the page was analyzed after rendering it in a headless browser. */
+  rendering?: RenderComparison
+  /** How the server's analysis cache answered; only set on `GET /api/analyze`. */
+  cache?: AnalysisCacheInfo
+}
+
+/** A tag whose value differs between the raw HTML and the rendered DOM. */
+export interface RenderedTagChange {
+  section: SectionId
+  id: string
+  label: string
+  /** `added`: only present after JavaScript ran; `removed`: JavaScript deleted it. */
+  change: 'added' | 'changed' | 'removed'
+  raw?: string
+  rendered?: string
+}
+
+export interface RenderComparison {
+  /** Overall score of the raw HTML, before JavaScript ran. */
+  rawScore: number
+  /** URL the browser ended on, including client-side redirects. */
+  renderedUrl: string
+  /** Time until the network went idle. */
+  renderMs: number
+  changes: RenderedTagChange[]
 }
 
+/** Steps of a URL analysis, in the order they start. */
+export type AnalysisStage = 'fetch' | 'render' | 'parse' | 'robots' | 'links' | 'sections' | 'images'
+
+/**
+ * Partial results streamed by `GET /api/analyze/stream` as `progress` events;
+ * the finished `SeoAnalysis` follows as a `result` event.
+ */
+export type AnalysisProgress =
+  | { type: 'stage'; stage: AnalysisStage }
+  | { type: 'fetched'; finalUrl: string; fetch: FetchDiagnostics }
+  | { type: 'links'; links: LinkInventory }
+  | { type: 'section'; section: SectionResult }
+
+/**
+ * `hit`: served from the cache. `revalidated`: the page answered 304 to a
+ * conditional request, so the cached analysis was reused. `miss`: nothing
+ * usable was cached. `bypass`: `fresh=true` or caching is disabled.
+ */
+export type CacheStatus = 'hit' | 'miss' | 'revalidated' | 'bypass'
+
+export interface AnalysisCacheInfo {
+  status: CacheStatus
+  /** When the page was last fetched or revalidated. */
+  storedAt: string
+  /** When the entry has to be revalidated; absent when caching is disabled. */
+  expiresAt?: string
+}
+
+
+export interface PageFailure {
+  url: string
+  statusCode: number
+  error: string
+}
+
+export interface PageScore {
+  url: string
+  overallScore: number
+  status: TagStatus
+  issueCount: number
+}
+
+export interface SiteSummary {
+  pageCount: number
+  failedCount: number
+  averageScore: number
+  /** Average per section, over the pages that report that section. */
+  sectionAverages: Partial<Record<SectionId, number>>
+  worstPages: PageScore[]
+}
+
+/** A `SeoIssue` grouped across every page that reports it. */
+export interface AggregatedIssue {
+  id: string
+  tag: string
+  section: SectionId
+  /** Worst severity seen for this issue. */
+  severity: TagStatus
+  /** Most common message among the affected pages. */
+  message: string
+  recommendation: string
+  pageCount: number
+  pages: string[]
+}
+
+export type DuplicateField = 'title' | 'description' | 'canonical'
+
+export interface DuplicatePage {
+  url: string
+  value: string
+}
+
+/** Pages whose title, description or canonical are identical (`exact`) or nearly so (`near`). */
+export interface DuplicateCluster {
+  id: string
+  field: DuplicateField
+  kind: 'exact' | 'near'
+  /** Lowest pairwise similarity inside the cluster, from 0 to 1. */
+  similarity: number
+  pages: DuplicatePage[]
+}
+
+export interface CrawledPage {
+  depth: number
+  analysis: SeoAnalysis
+}
+
+export interface CrawlReport {
+  startUrl: string
+  maxDepth: number
+  maxPages: number
+  crawledAt: string
+  summary: SiteSummary
+  issues: AggregatedIssue[]
+  duplicates: DuplicateCluster[]
+  pages: CrawledPage[]
+  failures: PageFailure[]
+}
+
+export interface SitemapReport {
+  sitemapUrl: string
+  /** Every sitemap file that was read, including nested index entries. */
+  sitemaps: string[]
+  /** URLs listed across all sitemaps, before the analysis limit was applied. */
+  discoveredCount: number
+  analyzedAt: string
+  summary: SiteSummary
+  issues: AggregatedIssue[]
+  duplicates: DuplicateCluster[]
+  pages: SeoAnalysis[]
+  failures: PageFailure[]
+}
+
+/** One stored analysis run, without the full analysis body. */
+export interface HistoryEntry {
+  id: string
+  url: string
+  finalUrl: string
+  analyzedAt: string
+  overallScore: number
+  status: TagStatus
+  /** Scores of the sections that had results in this run. */
+  sectionScores: Partial<Record<SectionId, number>>
+  profile: ProfileReference
+  issueCount: number
+}
+
+export interface AnalysisHistory {
+  url: string
+  /** Oldest run first. */
+  entries: HistoryEntry[]
+}
+
+/** Identifies one side of a comparison in a `CompareRequest`. */
+export type CompareSource = { url: string } | { historyId: string }
+
+export interface CompareRequest {
+  before: CompareSource
+  after: CompareSource
+  profile?: string
+}
+
+export interface ScoreDelta {
+  before?: number
+  after?: number
+  /** `after - before`, treating a missing side as 0. */
+  delta: number
+}
+
+export interface SectionDiff extends ScoreDelta {
+  id: SectionId
+  label: string
+}
+
+export interface TagSnapshot {
+  value?: string
+  status: TagStatus
+  score: number
+}
+
+export interface TagChange {
+  section: SectionId
+  id: string
+  label: string
+  change: 'added' | 'removed' | 'changed'
+  before?: TagSnapshot
+  after?: TagSnapshot
+}
+
+export interface AnalysisDiff {
+  before: Pick<SeoAnalysis, 'url' | 'finalUrl' | 'fetchedAt' | 'source'>
+  after: Pick<SeoAnalysis, 'url' | 'finalUrl' | 'fetchedAt' | 'source'>
+  overall: ScoreDelta
+  sections: SectionDiff[]
+  /** Tags whose value or status differ; unchanged tags are omitted. */
+  tags: TagChange[]
+  issues: {
+    /** Issues present only in `after`. */
+    added: SeoIssue[]
+    /** Issues present only in `before`. */
+    resolved: SeoIssue[]
+  }
+}
+
+/** `slack` posts `{ text }` for incoming webhooks; `json` posts a `MonitorWebhookPayload`. */
+export type WebhookFormat = 'slack' | 'json'
+
+export type MonitorAlertType = 'score-drop' | 'new-error' | 'noindex'
+
+export interface MonitorAlert {
+  type: MonitorAlertType
+  message: string
+}
+
+export interface MonitorRun {
+  analyzedAt: string
+  overallScore: number
+  indexable: boolean
+  /** Ids of error-severity issues, compared against the next run. */
+  errorIssues: string[]
+  /** History entry of the analysis, when it could be stored. */
+  historyId?: string
+  alerts: MonitorAlert[]
+  /** Set when alerts were raised but the webhook could not be delivered. */
+  webhookError?: string
+}
+
+export interface MonitorInput {
+  url: string
+  /** Minutes between runs. */
+  intervalMinutes: number
+  webhookUrl: string
+  webhookFormat: WebhookFormat
+  profile?: string
+  /** Smallest drop of the overall score that raises an alert. */
+  minScoreDrop: number
+  enabled: boolean
+}
+
+export interface Monitor extends MonitorInput {
+  id: string
+  createdAt: string
+  nextRunAt: string
+  lastRun?: MonitorRun
+  /** Why the most recent run failed; cleared by the next successful run. */
+  lastError?: string
+}
+
+export interface MonitorWebhookPayload {
+  event: 'seo.regression'
+  monitor: Pick<Monitor, 'id' | 'url'>
+  alerts: MonitorAlert[]
+  analysis: {
+    finalUrl: string
+    fetchedAt: string
+    overallScore: number
+    previousScore?: number
+    status: TagStatus
+    indexable: boolean
+    historyId?: string
+  }
+}
+
+export type ExportFormat = 'pdf' | 'csv' | 'markdown'
+
+/** A result to export, exactly as the analysis, crawl or sitemap endpoint returned it. */
+export type ExportSource =
+  | { analysis: SeoAnalysis }
+  | { crawl: CrawlReport }
+  | { sitemap: SitemapReport }
@@ -1,23 +1,70 @@
-import { useState } from 'react'
-import type { SeoAnalysis } from '../shared/analysis-types'
-import { AnalyzeError, analyzeUrl } from './lib/analyze'
+import { useEffect, useState } from 'react'
+import type { AnalysisHistory, ScoringProfileInfo, SeoAnalysis } from '../shared/analysis-types'
+import { AnalyzeError, analyzeHtml, fetchProfiles, type AnalyzeOptions } from './lib/analyze'
+import {
+  EMPTY_PARTIAL_ANALYSIS,
+  applyProgress,
+  streamAnalyzeUrl,
+  type PartialAnalysis
+} from './lib/analyze-stream'
+import { fetchHistory } from './lib/history'
+import { AnalysisProgress } from './components/analysis-progress'
+import { ApiKeyField } from './components/api-key-field'
+import { CacheNotice } from './components/cache-notice'
+import { CompareView } from './components/compare-view'
+import { CrawlView } from './components/crawl-view'
+import { ExportButtons } from './components/export-buttons'
+import { FetchDetails } from './components/fetch-details'
 import { IssuesList } from './components/issues-list'
+import { LinksPanel } from './components/links-panel'
+import { MonitorsView } from './components/monitors-view'
 import { Previews } from './components/previews'
+import { RenderComparisonPanel } from './components/render-comparison'
+import { ScoreTrend } from './components/score-trend'
 import { SectionDetails } from './components/section-details'
+import { SitemapView } from './components/sitemap-view'
 import { SummaryCards } from './components/summary-cards'
 import { UrlForm } from './components/url-form'
+import { ViewTabs } from './components/view-tabs'
+
+type AppView = 'page' | 'crawl' | 'sitemap' | 'compare' | 'monitors'
+
+const VIEW_TABS: Array<{ id: AppView; label: string }> = [
+  { id: 'page', label: 'Single page' },
+  { id: 'crawl', label: 'Site crawl' },
+  { id: 'sitemap', label: 'Sitemap' },
+  { id: 'compare', label: 'Compare' },
+  { id: 'monitors', label: 'Monitors' }
+]
 
 function App() {
+  const [view, setView] = useState<AppView>('page')
   const [analysis, setAnalysis] = useState<SeoAnalysis>()
+  const [history, setHistory] = useState<AnalysisHistory>()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string>()
+  const [profiles, setProfiles] = useState<ScoringProfileInfo[]>([])
+  const [lastOptions, setLastOptions] = useState<AnalyzeOptions>({})
+  const [partial, setPartial] = useState<PartialAnalysis>()
+
+  useEffect(() => {
+    fetchProfiles()
+      .then(setProfiles)
+      .catch(() => setProfiles([]))
+  }, [])
 
-  const handleAnalyze = async (url: string) => {
+  const runAnalysis = async (request: () => Promise<SeoAnalysis>) => {
     try {
       setIsLoading(true)
       setError(undefined)
-      const result = await analyzeUrl(url)
+      const result = await request()
       setAnalysis(result)
+      setHistory(undefined)
+      if (result.source === 'url') {
+        fetchHistory(result.url)
+          .then(setHistory)
+          .catch(() => setHistory(undefined))
+      }
     } catch (err) {
       if (err instanceof AnalyzeError) {
         setError(err.message)
@@ -26,9 +73,30 @@ function App() {
       setError('We could not finish the analysis. Please try again.')
     } finally {
       setIsLoading(false)
+      setPartial(undefined)
     }
   }
 
+  /** Streams the analysis so sections show up while the remaining checks run. */
+  const runStreamedAnalysis = (url: string, options: AnalyzeOptions) => {
+    setPartial(EMPTY_PARTIAL_ANALYSIS)
+    return runAnalysis(() =>
+      streamAnalyzeUrl(url, options, (progress) =>
+        setPartial((current) => current && applyProgress(current, progress))
+      )
+    )
+  }
+
+  const handleAnalyze = (url: string, options: AnalyzeOptions) => {
+    setLastOptions(options)
+    return runStreamedAnalysis(url, options)
+  }
+
+  const handleRefresh = (url: string) => runStreamedAnalysis(url, { ...lastOptions, fresh: true })
+
+  const handleAnalyzeHtml = (html: string, baseUrl: string | undefined, options: AnalyzeOptions) =>
+    runAnalysis(() => analyzeHtml(html, baseUrl, options))
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-[#0F172A] to-[#1E293B] text-gray-100 antialiased">
       <div className="mx-auto flex max-w-6xl flex-col gap-12 px-6 py-16">
@@ -40,40 +108,98 @@ function App() {
             Instant audit of meta tags and social previews
           </h1>
           <p className="mx-auto max-w-2xl text-sm text-gray-300 md:text-base md:leading-relaxed">
-            Enter a URL to check core SEO tags, Open Graph, and Twitter Card data.
+            Enter a URL or paste HTML to check core SEO tags, Open Graph, and Twitter Card data.
             Get actionable recommendations and real previews for search and social.
           </p>
+          <ApiKeyField />
         </header>
 
-        <UrlForm isLoading={isLoading} onSubmit={handleAnalyze} initialUrl={analysis?.finalUrl ?? ''} />
+        <ViewTabs tabs={VIEW_TABS} active={view} onChange={setView} />
 
-        {error && (
-          <div className="rounded-2xl border border-danger/40 bg-danger/10 p-4 text-sm text-danger shadow-lg shadow-danger/10 backdrop-blur">
-            {error}
-          </div>
-        )}
+        {view === 'crawl' && <CrawlView profiles={profiles} />}
 
-        {analysis ? (
+        {view === 'sitemap' && <SitemapView profiles={profiles} />}
+
+        {view === 'compare' && <CompareView profiles={profiles} />}
+
+        {view === 'monitors' && <MonitorsView profiles={profiles} />}
+
+        {view === 'page' && (
           <>
-            <SummaryCards analysis={analysis} />
-
-            <section className="space-y-4">
-              <h2 className="text-xl font-semibold text-gray-100">Visual previews</h2>
-              <Previews previews={analysis.previews} />
-            </section>
-
-            <section className="space-y-4">
-              <h2 className="text-xl font-semibold text-gray-100">Technical SEO</h2>
-              <SectionDetails sections={analysis.sections} />
-            </section>
-
-            <section className="space-y-4">
-              <h2 className="text-xl font-semibold text-gray-100">Recommendations</h2>
-              <IssuesList issues={analysis.issues} missing={analysis.missing} />
-            </section>
+            <UrlForm
+              isLoading={isLoading}
+              profiles={profiles}
+              onSubmit={handleAnalyze}
+              onSubmitHtml={handleAnalyzeHtml}
+              initialUrl={analysis?.finalUrl ?? ''}
+            />
+
+            {error && (
+              <div className="rounded-2xl border border-danger/40 bg-danger/10 p-4 text-sm text-danger shadow-lg shadow-danger/10 backdrop-blur">
+                {error}
+              </div>
+            )}
+
+            {partial ? (
+              <AnalysisProgress partial={partial} />
+            ) : analysis ? (
+              <>
+                <div className="space-y-4">
+                  <ExportButtons source={{ analysis }} />
+                  {analysis.cache && (
+                    <CacheNotice
+                      cache={analysis.cache}
+                      isLoading={isLoading}
+                      onRefresh={() => void handleRefresh(analysis.url)}
+                    />
+                  )}
+                  <SummaryCards analysis={analysis} />
+                </div>
+
+                {history && (
+                  <section className="space-y-4">
+                    <h2 className="text-xl font-semibold text-gray-100">Score history</h2>
+                    <ScoreTrend history={history} />
+                  </section>
+                )}
+
+                {analysis.rendering && (
+                  <section className="space-y-4">
+                    <h2 className="text-xl font-semibold text-gray-100">Raw vs rendered</h2>
+                    <RenderComparisonPanel
+                      rendering={analysis.rendering}
+                      renderedScore={analysis.summary.overallScore}
+                    />
+                  </section>
+                )}
+
+                <section className="space-y-4">
+                  <h2 className="text-xl font-semibold text-gray-100">Visual previews</h2>
+                  <Previews previews={analysis.previews} />
+                </section>
+
+                <section className="space-y-4">
+                  <h2 className="text-xl font-semibold text-gray-100">Technical SEO</h2>
+                  {analysis.fetch && (
+                    <FetchDetails fetch={analysis.fetch} finalUrl={analysis.finalUrl} />
+                  )}
+                  <SectionDetails sections={analysis.sections} />
+                </section>
+
+                <section className="space-y-4">
+                  <h2 className="text-xl font-semibold text-gray-100">Links</h2>
+                  <LinksPanel inventory={analysis.links} />
+                </section>
+
+                <section className="space-y-4">
+                  <h2 className="text-xl font-semibold text-gray-100">Recommendations</h2>
+                  <IssuesList issues={analysis.issues} missing={analysis.missing} />
+                </section>
+              </>
+            ) : (
+              <EmptyState />
+            )}
           </>
-        ) : (
-          <EmptyState />
         )}
       </div>
     </div>
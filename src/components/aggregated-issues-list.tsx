@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import type { AggregatedIssue } from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
+import { getStatusConfig } from '../lib/status'
+
+interface AggregatedIssuesListProps {
+  issues: AggregatedIssue[]
+}
+
+export function AggregatedIssuesList({ issues }: AggregatedIssuesListProps) {
+  const [expandedId, setExpandedId] = useState<string>()
+
+  if (!issues.length) {
+    return (
+      <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 text-sm text-gray-300 shadow-lg shadow-black/20 backdrop-blur-lg">
+        ✅ No issues found across the analyzed pages.
+      </section>
+    )
+  }
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+        Issues across pages
+      </h3>
+      <ul className="mt-4 space-y-3">
+        {issues.map((issue) => {
+          const config = getStatusConfig(issue.severity)
+          const isExpanded = expandedId === issue.id
+          return (
+            <li
+              key={issue.id}
+              className="rounded-xl border border-white/10 bg-[#0F172A]/60 p-4 shadow-inner shadow-black/10 backdrop-blur"
+            >
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? undefined : issue.id)}
+                className="flex w-full flex-col gap-2 text-left md:flex-row md:items-center md:justify-between"
+                aria-expanded={isExpanded}
+              >
+                <div>
+                  <p className="text-sm font-semibold text-gray-100">
+                    {issue.tag} — {issue.pageCount} {issue.pageCount === 1 ? 'page' : 'pages'}
+                  </p>
+                  <p className="text-xs text-gray-300">Section: {sectionLabel(issue.section)}</p>
+                </div>
+                <span className={`inline-flex w-fit items-center rounded-full px-3 py-1 text-xs ${config.badge}`}>
+                  {config.label}
+                </span>
+              </button>
+              <p className="mt-2 text-sm text-gray-300">{issue.message}</p>
+              {issue.recommendation && (
+                <p className="mt-2 text-xs text-gray-300">
+                  <span className="font-semibold text-gray-100">Action:</span>{' '}
+                  {issue.recommendation}
+                </p>
+              )}
+              {isExpanded && (
+                <ul className="mt-3 space-y-1 border-t border-white/10 pt-3 text-xs text-[#60A5FA]">
+                  {issue.pages.map((page) => (
+                    <li key={page} className="truncate" title={page}>
+                      {page}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
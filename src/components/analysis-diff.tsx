@@ -0,0 +1,192 @@
+import type {
+  AnalysisDiff,
+  ScoreDelta,
+  SeoIssue,
+  TagChange,
+  TagSnapshot
+} from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
+import { getStatusConfig } from '../lib/status'
+
+interface AnalysisDiffReportProps {
+  diff: AnalysisDiff
+}
+
+export function AnalysisDiffReport({ diff }: AnalysisDiffReportProps) {
+  return (
+    <div className="flex flex-col gap-8">
+      <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+        <div className="grid gap-4 md:grid-cols-[1fr_auto_1fr] md:items-center">
+          <SideSummary label="Before" side={diff.before} score={diff.overall.before} />
+          <div className="text-center">
+            <p className="text-xs uppercase tracking-wide text-gray-300">Overall</p>
+            <DeltaValue delta={diff.overall.delta} className="text-3xl font-semibold" />
+          </div>
+          <SideSummary label="After" side={diff.after} score={diff.overall.after} />
+        </div>
+
+        <h3 className="mt-6 text-sm font-semibold uppercase tracking-wide text-gray-300">
+          Section scores
+        </h3>
+        <ul className="mt-3 grid gap-2 md:grid-cols-2">
+          {diff.sections.map((section) => (
+            <li
+              key={section.id}
+              className="flex items-center justify-between rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2 text-sm"
+            >
+              <span className="text-gray-100">{section.label}</span>
+              <span className="flex items-center gap-3 font-mono text-xs text-gray-300">
+                {formatScores(section)}
+                <DeltaValue delta={section.delta} className="w-10 text-right" />
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <TagChanges changes={diff.tags} />
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <IssueChanges
+          title="New issues"
+          issues={diff.issues.added}
+          empty="No new issues in the after analysis."
+        />
+        <IssueChanges
+          title="Resolved issues"
+          issues={diff.issues.resolved}
+          empty="None of the earlier issues were resolved."
+        />
+      </div>
+    </div>
+  )
+}
+
+interface SideSummaryProps {
+  label: string
+  side: AnalysisDiff['before']
+  score: number | undefined
+}
+
+function SideSummary({ label, side, score }: SideSummaryProps) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs uppercase tracking-wide text-gray-300">{label}</p>
+      <p className="break-all text-sm text-gray-100">{side.finalUrl || side.url}</p>
+      <p className="text-xs text-gray-300">
+        {new Date(side.fetchedAt).toLocaleString()} · score {score ?? '—'}
+      </p>
+    </div>
+  )
+}
+
+function DeltaValue({ delta, className = '' }: { delta: number; className?: string }) {
+  const tone = delta > 0 ? 'text-success' : delta < 0 ? 'text-danger' : 'text-gray-300'
+  return (
+    <span className={`${tone} ${className}`}>
+      {delta > 0 ? '+' : ''}
+      {delta}
+    </span>
+  )
+}
+
+function TagChanges({ changes }: { changes: TagChange[] }) {
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+        Tag changes ({changes.length})
+      </h3>
+      {changes.length ? (
+        <ul className="mt-4 space-y-2">
+          {changes.map((change) => (
+            <li
+              key={`${change.section}-${change.id}`}
+              className="rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2 text-sm"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-gray-100">
+                  {change.label}{' '}
+                  <span className="text-xs text-gray-300">· {sectionLabel(change.section)}</span>
+                </span>
+                <span className="rounded-full bg-white/5 px-2 py-0.5 text-xs text-gray-300">
+                  {change.change}
+                </span>
+              </div>
+              <div className="mt-1 grid gap-1 text-xs md:grid-cols-2">
+                <TagSide snapshot={change.before} />
+                <TagSide snapshot={change.after} arrow />
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-300">Tag values and statuses are identical.</p>
+      )}
+    </section>
+  )
+}
+
+interface TagSideProps {
+  snapshot: TagSnapshot | undefined
+  arrow?: boolean
+}
+
+function TagSide({ snapshot, arrow = false }: TagSideProps) {
+  if (!snapshot) return <span className="text-gray-400">{arrow ? '→ ' : ''}Not evaluated</span>
+  const config = getStatusConfig(snapshot.status)
+  return (
+    <span className="min-w-0 break-words text-gray-300">
+      {arrow ? '→ ' : ''}
+      <span className={config.accent}>{snapshot.status}</span> ·{' '}
+      {snapshot.value ? <span className="font-mono">{snapshot.value}</span> : 'No value'}
+    </span>
+  )
+}
+
+interface IssueChangesProps {
+  title: string
+  issues: SeoIssue[]
+  empty: string
+}
+
+function IssueChanges({ title, issues, empty }: IssueChangesProps) {
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+        {title} ({issues.length})
+      </h3>
+      {issues.length ? (
+        <ul className="mt-4 space-y-3">
+          {issues.map((issue) => {
+            const config = getStatusConfig(issue.severity)
+            return (
+              <li
+                key={issue.id}
+                className="rounded-xl border border-white/10 bg-[#0F172A]/60 p-4 shadow-inner shadow-black/10"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-100">{issue.tag}</p>
+                    <p className="text-xs text-gray-300">Section: {sectionLabel(issue.section)}</p>
+                  </div>
+                  <span
+                    className={`inline-flex items-center rounded-full px-3 py-1 text-xs ${config.badge}`}
+                  >
+                    {config.label}
+                  </span>
+                </div>
+                <p className="mt-2 text-sm text-gray-300">{issue.message}</p>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-300">{empty}</p>
+      )}
+    </section>
+  )
+}
+
+function formatScores({ before, after }: ScoreDelta): string {
+  return `${before ?? '—'} → ${after ?? '—'}`
+}
@@ -0,0 +1,64 @@
+import type { AnalysisStage } from '../../shared/analysis-types'
+import type { PartialAnalysis } from '../lib/analyze-stream'
+import { FetchDetails } from './fetch-details'
+import { LinksPanel } from './links-panel'
+import { SectionDetails } from './section-details'
+
+interface AnalysisProgressProps {
+  partial: PartialAnalysis
+}
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  fetch: 'Fetching the page',
+  render: 'Rendering JavaScript',
+  parse: 'Parsing HTML',
+  robots: 'Checking robots.txt',
+  links: 'Collecting links',
+  sections: 'Evaluating sections',
+  images: 'Downloading social images'
+}
+
+export function AnalysisProgress({ partial }: AnalysisProgressProps) {
+  const current = partial.stages.length - 1
+
+  return (
+    <>
+      <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+        <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+          Analyzing {partial.finalUrl ?? 'page'}
+        </h2>
+        <ol className="mt-4 space-y-2 text-sm">
+          {partial.stages.map((stage, index) => (
+            <li
+              key={stage}
+              className={`flex items-center gap-2 ${index === current ? 'text-[#60A5FA]' : 'text-gray-300'}`}
+            >
+              <span aria-hidden className="w-4 text-center">
+                {index === current ? '…' : '✓'}
+              </span>
+              {STAGE_LABELS[stage]}
+              {stage === 'sections' && ` (${partial.sections.length} done)`}
+            </li>
+          ))}
+        </ol>
+      </section>
+
+      {(partial.fetch || partial.sections.length > 0) && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-gray-100">Technical SEO</h2>
+          {partial.fetch && partial.finalUrl && (
+            <FetchDetails fetch={partial.fetch} finalUrl={partial.finalUrl} />
+          )}
+          <SectionDetails sections={partial.sections} />
+        </section>
+      )}
+
+      {partial.links && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-gray-100">Links</h2>
+          <LinksPanel inventory={partial.links} />
+        </section>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { getApiKey, setApiKey } from '../lib/api-key'
+
+/** Collapsed by default: keys are only needed when the server requires them or for higher limits. */
+export function ApiKeyField() {
+  const [value, setValue] = useState(getApiKey)
+  const [saved, setSaved] = useState(false)
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setApiKey(value)
+    setSaved(true)
+  }
+
+  return (
+    <details className="mx-auto w-full max-w-md text-left text-xs text-gray-300">
+      <summary className="cursor-pointer text-center">
+        {getApiKey() ? 'API key set' : 'Use an API key'}
+      </summary>
+      <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+        <input
+          type="password"
+          value={value}
+          onChange={(event) => {
+            setValue(event.target.value)
+            setSaved(false)
+          }}
+          placeholder="API key"
+          autoComplete="off"
+          aria-label="API key"
+          className="w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-3 py-2 text-sm text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+        />
+        <button
+          type="submit"
+          className="rounded-xl bg-[#3B82F6] px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-[#60A5FA]"
+        >
+          {saved ? 'Saved' : 'Save'}
+        </button>
+      </form>
+      <p className="mt-2 text-gray-400">
+        Stored in this browser and sent with every request. Leave empty to use the anonymous limit.
+      </p>
+    </details>
+  )
+}
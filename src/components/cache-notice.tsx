@@ -0,0 +1,31 @@
+import type { AnalysisCacheInfo } from '../../shared/analysis-types'
+
+interface CacheNoticeProps {
+  cache: AnalysisCacheInfo
+  isLoading: boolean
+  onRefresh: () => void
+}
+
+/** Shown when the server answered from its cache instead of fetching the page again. */
+export function CacheNotice({ cache, isLoading, onRefresh }: CacheNoticeProps) {
+  if (cache.status === 'miss' || cache.status === 'bypass') return null
+
+  const storedAt = new Date(cache.storedAt).toLocaleTimeString()
+  return (
+    <div className="flex flex-col gap-2 rounded-xl border border-white/10 bg-[#0F172A]/60 px-4 py-3 text-xs text-gray-300 md:flex-row md:items-center md:justify-between">
+      <p>
+        {cache.status === 'revalidated'
+          ? `The page has not changed since ${storedAt}, so the cached analysis was reused.`
+          : `Served from the cache — the page was fetched at ${storedAt}.`}
+      </p>
+      <button
+        type="button"
+        onClick={onRefresh}
+        disabled={isLoading}
+        className="rounded-lg border border-white/10 px-3 py-1.5 font-semibold uppercase tracking-wide text-gray-100 transition hover:border-[#3B82F6] disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Re-analyze now
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react'
+import type {
+  AnalysisDiff,
+  AnalysisHistory,
+  CompareRequest,
+  ScoringProfileInfo
+} from '../../shared/analysis-types'
+import { AnalyzeError, urlSchema } from '../lib/analyze'
+import { compareAnalyses } from '../lib/compare'
+import { fetchHistory } from '../lib/history'
+import { AnalysisDiffReport } from './analysis-diff'
+import { ViewTabs } from './view-tabs'
+
+type CompareMode = 'urls' | 'history'
+
+const MODE_TABS: Array<{ id: CompareMode; label: string }> = [
+  { id: 'urls', label: 'Two URLs' },
+  { id: 'history', label: 'Past runs' }
+]
+
+interface CompareViewProps {
+  profiles: ScoringProfileInfo[]
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60'
+
+export function CompareView({ profiles }: CompareViewProps) {
+  const [mode, setMode] = useState<CompareMode>('urls')
+  const [beforeUrl, setBeforeUrl] = useState('')
+  const [afterUrl, setAfterUrl] = useState('')
+  const [profile, setProfile] = useState('')
+  const [historyUrl, setHistoryUrl] = useState('')
+  const [history, setHistory] = useState<AnalysisHistory>()
+  const [beforeRun, setBeforeRun] = useState('')
+  const [afterRun, setAfterRun] = useState('')
+  const [diff, setDiff] = useState<AnalysisDiff>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const run = async (task: () => Promise<void>, fallbackError: string) => {
+    try {
+      setIsLoading(true)
+      setError(undefined)
+      await task()
+    } catch (err) {
+      setError(err instanceof AnalyzeError ? err.message : fallbackError)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const submitComparison = (request: CompareRequest) =>
+    run(async () => setDiff(await compareAnalyses(request)), 'The comparison did not finish.')
+
+  const handleCompareUrls = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const before = urlSchema.safeParse(beforeUrl)
+    const after = urlSchema.safeParse(afterUrl)
+    if (!before.success || !after.success) {
+      setError('Enter two valid URLs.')
+      return
+    }
+    void submitComparison({
+      before: { url: before.data },
+      after: { url: after.data },
+      ...(profile ? { profile } : {})
+    })
+  }
+
+  const handleLoadHistory = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const parsed = urlSchema.safeParse(historyUrl)
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Enter a valid URL.')
+      return
+    }
+    void run(async () => {
+      const result = await fetchHistory(parsed.data)
+      const { entries } = result
+      setHistory(result)
+      setBeforeRun(entries[entries.length - 2]?.id ?? '')
+      setAfterRun(entries[entries.length - 1]?.id ?? '')
+    }, 'Unable to load the analysis history.')
+  }
+
+  const handleCompareRuns = () => {
+    if (!beforeRun || !afterRun || beforeRun === afterRun) {
+      setError('Pick two different runs.')
+      return
+    }
+    void submitComparison({ before: { historyId: beforeRun }, after: { historyId: afterRun } })
+  }
+
+  return (
+    <div className="flex flex-col gap-12">
+      <div className="flex flex-col gap-5 rounded-xl border border-white/10 bg-[#1E293B]/70 p-7 shadow-lg shadow-black/20 backdrop-blur-md">
+        <ViewTabs tabs={MODE_TABS} active={mode} onChange={setMode} label="Comparison source" />
+
+        {mode === 'urls' ? (
+          <form onSubmit={handleCompareUrls} className="flex flex-col gap-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <label className="flex flex-col gap-1 text-xs text-gray-300">
+                Before (e.g. production)
+                <input
+                  type="url"
+                  placeholder="https://example.com"
+                  value={beforeUrl}
+                  onChange={(event) => setBeforeUrl(event.target.value)}
+                  className={inputClassName}
+                  disabled={isLoading}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-gray-300">
+                After (e.g. staging)
+                <input
+                  type="url"
+                  placeholder="https://staging.example.com"
+                  value={afterUrl}
+                  onChange={(event) => setAfterUrl(event.target.value)}
+                  className={inputClassName}
+                  disabled={isLoading}
+                />
+              </label>
+            </div>
+            <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
+              <label className="flex flex-col gap-1 text-xs text-gray-300">
+                Scoring profile
+                <select
+                  value={profile}
+                  onChange={(event) => setProfile(event.target.value)}
+                  className={inputClassName}
+                  disabled={isLoading}
+                >
+                  <option value="">Default</option>
+                  {profiles.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <CompareButton isLoading={isLoading} type="submit" />
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-col gap-3">
+            <form onSubmit={handleLoadHistory} className="flex flex-col gap-3 md:flex-row">
+              <input
+                type="url"
+                placeholder="https://example.com"
+                value={historyUrl}
+                onChange={(event) => setHistoryUrl(event.target.value)}
+                className={inputClassName}
+                disabled={isLoading}
+                aria-label="URL with stored analyses"
+              />
+              <button
+                type="submit"
+                className="rounded-xl border border-white/10 px-6 py-3 text-sm font-semibold uppercase tracking-wide text-gray-100 transition hover:border-[#3B82F6] disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={isLoading}
+              >
+                Load runs
+              </button>
+            </form>
+            {history &&
+              (history.entries.length < 2 ? (
+                <p className="text-sm text-gray-300">
+                  At least two stored analyses of this URL are needed to compare runs.
+                </p>
+              ) : (
+                <div className="flex flex-col gap-3 md:flex-row md:items-end">
+                  <RunSelect
+                    label="Before"
+                    history={history}
+                    value={beforeRun}
+                    onChange={setBeforeRun}
+                  />
+                  <RunSelect
+                    label="After"
+                    history={history}
+                    value={afterRun}
+                    onChange={setAfterRun}
+                  />
+                  <CompareButton isLoading={isLoading} type="button" onClick={handleCompareRuns} />
+                </div>
+              ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-danger">{error}</p>}
+        <p className="text-xs text-gray-300">
+          URLs are analyzed fresh; past runs come from the stored analysis history.
+        </p>
+      </div>
+
+      {diff && <AnalysisDiffReport diff={diff} />}
+    </div>
+  )
+}
+
+interface RunSelectProps {
+  label: string
+  history: AnalysisHistory
+  value: string
+  onChange: (id: string) => void
+}
+
+function RunSelect({ label, history, value, onChange }: RunSelectProps) {
+  return (
+    <label className="flex flex-1 flex-col gap-1 text-xs text-gray-300">
+      {label}
+      <select
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className={inputClassName}
+      >
+        {[...history.entries].reverse().map((entry) => (
+          <option key={entry.id} value={entry.id}>
+            {new Date(entry.analyzedAt).toLocaleString()} — score {entry.overallScore}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+interface CompareButtonProps {
+  isLoading: boolean
+  type: 'submit' | 'button'
+  onClick?: () => void
+}
+
+function CompareButton({ isLoading, type, onClick }: CompareButtonProps) {
+  return (
+    <button
+      type={type}
+      onClick={onClick}
+      className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={isLoading}
+    >
+      {isLoading && (
+        <span className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+      )}
+      Compare
+    </button>
+  )
+}
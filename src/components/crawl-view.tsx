@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import type { CrawlReport, ScoringProfileInfo } from '../../shared/analysis-types'
+import { AnalyzeError, urlSchema } from '../lib/analyze'
+import { crawlSite } from '../lib/crawl'
+import { ExportButtons } from './export-buttons'
+import { IssuesList } from './issues-list'
+import { SectionDetails } from './section-details'
+import { SiteResults } from './site-results'
+import { SummaryCards } from './summary-cards'
+
+interface CrawlViewProps {
+  profiles: ScoringProfileInfo[]
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60'
+
+export function CrawlView({ profiles }: CrawlViewProps) {
+  const [url, setUrl] = useState('')
+  const [depth, setDepth] = useState(2)
+  const [limit, setLimit] = useState(25)
+  const [profile, setProfile] = useState('')
+  const [report, setReport] = useState<CrawlReport>()
+  const [selectedUrl, setSelectedUrl] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const parsed = urlSchema.safeParse(url)
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Enter a valid URL.')
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      setError(undefined)
+      setSelectedUrl(undefined)
+      const result = await crawlSite(parsed.data, {
+        depth,
+        limit,
+        ...(profile ? { profile } : {})
+      })
+      setReport(result)
+    } catch (err) {
+      setError(err instanceof AnalyzeError ? err.message : 'The crawl did not finish. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selected = report?.pages.find((page) => page.analysis.finalUrl === selectedUrl)?.analysis
+
+  return (
+    <div className="flex flex-col gap-12">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-5 rounded-xl border border-white/10 bg-[#1E293B]/70 p-7 shadow-lg shadow-black/20 backdrop-blur-md"
+      >
+        <label htmlFor="crawl-url" className="text-sm font-semibold uppercase tracking-wide text-gray-100">
+          Start URL
+        </label>
+        <div className="flex flex-col gap-3 md:flex-row">
+          <input
+            id="crawl-url"
+            type="url"
+            placeholder="https://example.com"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            className={inputClassName}
+            disabled={isLoading}
+            autoComplete="url"
+          />
+          <button
+            type="submit"
+            className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isLoading}
+          >
+            {isLoading && (
+              <span className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+            )}
+            Crawl
+          </button>
+        </div>
+        <div className="grid gap-3 text-xs text-gray-300 md:grid-cols-3">
+          <label className="flex flex-col gap-1">
+            Link depth
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={depth}
+              onChange={(event) => setDepth(Number(event.target.value))}
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Page limit
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={limit}
+              onChange={(event) => setLimit(Number(event.target.value))}
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Scoring profile
+            <select
+              value={profile}
+              onChange={(event) => setProfile(event.target.value)}
+              className={inputClassName}
+              disabled={isLoading}
+            >
+              <option value="">Default</option>
+              {profiles.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {error && <p className="text-sm text-danger">{error}</p>}
+        <p className="text-xs text-gray-300">
+          We follow same-origin links breadth-first and analyze every page we reach.
+        </p>
+      </form>
+
+      {report && (
+        <SiteResults
+          title="Crawled pages"
+          caption={`Depth ≤ ${report.maxDepth} · limit ${report.maxPages} pages`}
+          summary={report.summary}
+          issues={report.issues}
+          duplicates={report.duplicates}
+          pages={report.pages}
+          failures={report.failures}
+          selectedUrl={selectedUrl}
+          onSelect={setSelectedUrl}
+          actions={<ExportButtons source={{ crawl: report }} />}
+        />
+      )}
+
+      {selected && (
+        <>
+          <SummaryCards analysis={selected} />
+          <SectionDetails sections={selected.sections} />
+          <IssuesList issues={selected.issues} missing={selected.missing} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import type { DuplicateCluster, DuplicateField } from '../../shared/analysis-types'
+import { getStatusConfig } from '../lib/status'
+
+interface DuplicateClustersProps {
+  clusters: DuplicateCluster[]
+}
+
+const FIELD_LABELS: Record<DuplicateField, string> = {
+  title: 'Title',
+  description: 'Meta Description',
+  canonical: 'Canonical'
+}
+
+export function DuplicateClusters({ clusters }: DuplicateClustersProps) {
+  if (!clusters.length) return null
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+        Duplicate content
+      </h3>
+      <ul className="mt-4 space-y-3">
+        {clusters.map((cluster) => (
+          <li
+            key={cluster.id}
+            className="rounded-xl border border-white/10 bg-[#0F172A]/60 p-4 shadow-inner shadow-black/10 backdrop-blur"
+          >
+            <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+              <p className="text-sm font-semibold text-gray-100">
+                {FIELD_LABELS[cluster.field]} — {cluster.pages.length} pages
+              </p>
+              <span
+                className={`inline-flex w-fit items-center rounded-full px-3 py-1 text-xs ${
+                  getStatusConfig(cluster.kind === 'exact' ? 'error' : 'warning').badge
+                }`}
+              >
+                {cluster.kind === 'exact'
+                  ? 'Exact match'
+                  : `${Math.round(cluster.similarity * 100)}% similar`}
+              </span>
+            </div>
+            <ul className="mt-3 space-y-2 border-t border-white/10 pt-3 text-xs">
+              {cluster.pages.map((page) => (
+                <li key={page.url} className="flex flex-col gap-0.5">
+                  <span className="truncate text-[#60A5FA]" title={page.url}>
+                    {page.url}
+                  </span>
+                  <span className="truncate text-gray-300" title={page.value}>
+                    {page.value}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import type { ExportFormat, ExportSource } from '../../shared/analysis-types'
+import { AnalyzeError } from '../lib/analyze'
+import { copyMarkdownReport, downloadReport } from '../lib/export'
+
+const FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'pdf', label: 'PDF' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'markdown', label: 'Markdown' }
+]
+
+interface ExportButtonsProps {
+  source: ExportSource
+}
+
+export function ExportButtons({ source }: ExportButtonsProps) {
+  const [pending, setPending] = useState<ExportFormat | 'copy'>()
+  const [message, setMessage] = useState<string>()
+
+  const run = async (id: ExportFormat | 'copy', action: () => Promise<void>, done?: string) => {
+    try {
+      setPending(id)
+      setMessage(undefined)
+      await action()
+      if (done) setMessage(done)
+    } catch (err) {
+      setMessage(err instanceof AnalyzeError ? err.message : 'Export failed. Please try again.')
+    } finally {
+      setPending(undefined)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 text-xs">
+      {message && <span className="text-gray-300">{message}</span>}
+      <span className="uppercase tracking-wide text-gray-400">Export</span>
+      {FORMATS.map((format) => (
+        <ExportButton
+          key={format.id}
+          label={format.label}
+          busy={pending === format.id}
+          disabled={pending !== undefined}
+          onClick={() => void run(format.id, () => downloadReport(source, format.id))}
+        />
+      ))}
+      <ExportButton
+        label="Copy Markdown"
+        busy={pending === 'copy'}
+        disabled={pending !== undefined}
+        onClick={() => void run('copy', () => copyMarkdownReport(source), 'Copied to clipboard.')}
+      />
+    </div>
+  )
+}
+
+interface ExportButtonProps {
+  label: string
+  busy: boolean
+  disabled: boolean
+  onClick: () => void
+}
+
+function ExportButton({ label, busy, disabled, onClick }: ExportButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className="flex items-center gap-1.5 rounded-lg border border-white/10 px-3 py-1.5 font-semibold uppercase tracking-wide text-gray-100 transition hover:border-[#3B82F6] disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      {busy && (
+        <span className="inline-flex h-3 w-3 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+      )}
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,93 @@
+import type { FetchDiagnostics } from '../../shared/analysis-types'
+
+interface FetchDetailsProps {
+  fetch: FetchDiagnostics
+  finalUrl: string
+}
+
+export function FetchDetails({ fetch, finalUrl }: FetchDetailsProps) {
+  const { timing } = fetch
+  const stats = [
+    { label: 'Status', value: String(fetch.status) },
+    { label: 'Time to first byte', value: formatDuration(timing.ttfbMs) },
+    { label: 'Download', value: formatDuration(timing.downloadMs) },
+    { label: 'Total', value: formatDuration(timing.totalMs) },
+    { label: 'HTML size', value: formatBytes(fetch.htmlBytes) }
+  ]
+  const headers = Object.entries(fetch.headers)
+
+  return (
+    <article className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/25 backdrop-blur-xl">
+      <header>
+        <p className="text-xs uppercase tracking-wide text-gray-300">Fetch</p>
+        <h3 className="text-xl font-semibold text-gray-100">Response diagnostics</h3>
+      </header>
+
+      <dl className="mt-5 grid gap-3 sm:grid-cols-3 lg:grid-cols-5">
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            className="rounded-xl border border-white/10 bg-[#0F172A]/60 p-4 shadow-inner shadow-black/10"
+          >
+            <dt className="text-xs uppercase tracking-wide text-gray-300">{stat.label}</dt>
+            <dd className="mt-1 text-lg font-semibold text-gray-100">{stat.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="mt-5">
+        <h4 className="text-sm font-semibold text-gray-100">
+          Redirect chain
+          {timing.redirectMs > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-300">
+              ({formatDuration(timing.redirectMs)})
+            </span>
+          )}
+        </h4>
+        <ol className="mt-2 space-y-2 text-sm">
+          {fetch.redirects.map((hop) => (
+            <li
+              key={`${hop.url}-${hop.location}`}
+              className="flex gap-3 rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2"
+            >
+              <span className="font-mono text-warning">{hop.status}</span>
+              <span className="break-all text-gray-300">{hop.url}</span>
+            </li>
+          ))}
+          <li className="flex gap-3 rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2">
+            <span className="font-mono text-success">{fetch.status}</span>
+            <span className="break-all text-gray-100">{finalUrl}</span>
+          </li>
+        </ol>
+      </div>
+
+      {headers.length > 0 && (
+        <div className="mt-5">
+          <h4 className="text-sm font-semibold text-gray-100">Response headers</h4>
+          <table className="mt-2 w-full text-left text-sm">
+            <tbody>
+              {headers.map(([name, value]) => (
+                <tr key={name} className="border-t border-white/10">
+                  <th className="w-48 py-2 pr-4 align-top font-mono text-xs font-normal text-gray-300">
+                    {name}
+                  </th>
+                  <td className="break-all py-2 text-gray-100">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </article>
+  )
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${ms} ms`
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
@@ -1,4 +1,5 @@
 import type { SeoIssue } from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
 import { getStatusConfig } from '../lib/status'
 
 interface IssuesListProps {
@@ -58,17 +59,3 @@ export function IssuesList({ issues, missing }: IssuesListProps) {
     </section>
   )
 }
-
-function sectionLabel(section: SeoIssue['section']): string {
-  switch (section) {
-    case 'meta':
-      return 'Technical SEO'
-    case 'openGraph':
-      return 'Social (Open Graph)'
-    case 'twitter':
-      return 'Twitter Card'
-    default:
-      return section
-  }
-}
-
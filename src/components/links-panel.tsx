@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import type { LinkInventory, PageLink, TagStatus } from '../../shared/analysis-types'
+import { getStatusConfig } from '../lib/status'
+
+type TypeFilter = 'all' | 'internal' | 'external' | 'other' | 'nofollow' | 'sponsored' | 'ugc'
+
+type StatusFilter = 'all' | 'ok' | 'redirect' | 'broken' | 'problem' | 'unchecked'
+
+const TYPE_FILTERS: Array<{ id: TypeFilter; label: string }> = [
+  { id: 'all', label: 'All types' },
+  { id: 'internal', label: 'Internal' },
+  { id: 'external', label: 'External' },
+  { id: 'other', label: 'Other schemes' },
+  { id: 'nofollow', label: 'nofollow' },
+  { id: 'sponsored', label: 'sponsored' },
+  { id: 'ugc', label: 'ugc' }
+]
+
+const STATUS_FILTERS: Array<{ id: StatusFilter; label: string }> = [
+  { id: 'all', label: 'All statuses' },
+  { id: 'ok', label: 'OK' },
+  { id: 'redirect', label: 'Redirects' },
+  { id: 'broken', label: 'Broken' },
+  { id: 'problem', label: 'Unusable href' },
+  { id: 'unchecked', label: 'Not checked' }
+]
+
+interface LinksPanelProps {
+  inventory: LinkInventory
+}
+
+export function LinksPanel({ inventory }: LinksPanelProps) {
+  const [type, setType] = useState<TypeFilter>('all')
+  const [status, setStatus] = useState<StatusFilter>('all')
+
+  if (!inventory.links.length) {
+    return (
+      <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 text-sm text-gray-300 shadow-lg shadow-black/20 backdrop-blur-lg">
+        No links found in the page body.
+      </section>
+    )
+  }
+
+  const visible = inventory.links.filter(
+    (link) => matchesType(link, type) && (status === 'all' || linkStatus(link) === status)
+  )
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+          Links ({visible.length} of {inventory.links.length})
+        </h3>
+        <div className="flex gap-2">
+          <FilterSelect label="Link type" value={type} options={TYPE_FILTERS} onChange={setType} />
+          <FilterSelect
+            label="Link status"
+            value={status}
+            options={STATUS_FILTERS}
+            onChange={setStatus}
+          />
+        </div>
+      </header>
+      {!inventory.checked && (
+        <p className="mt-2 text-xs text-gray-300">
+          Link targets were not requested — enable link checking to find broken and redirecting
+          links.
+        </p>
+      )}
+      {visible.length ? (
+        <ul className="mt-4 space-y-2">
+          {visible.map((link, index) => (
+            <LinkRow key={`${link.href}-${index}`} link={link} />
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-300">No links match the selected filters.</p>
+      )}
+    </section>
+  )
+}
+
+interface FilterSelectProps<T extends string> {
+  label: string
+  value: T
+  options: Array<{ id: T; label: string }>
+  onChange: (value: T) => void
+}
+
+function FilterSelect<T extends string>({ label, value, options, onChange }: FilterSelectProps<T>) {
+  return (
+    <select
+      aria-label={label}
+      value={value}
+      onChange={(event) => onChange(event.target.value as T)}
+      className="rounded-xl border border-white/10 bg-[#0F172A]/70 px-3 py-2 text-sm text-gray-100 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+    >
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function LinkRow({ link }: { link: PageLink }) {
+  const status = linkStatus(link)
+  const severity = STATUS_SEVERITY[status]
+
+  return (
+    <li className="flex flex-col gap-1 rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2 text-sm md:flex-row md:items-center md:gap-3">
+      <span
+        className={`w-24 shrink-0 font-mono text-xs ${severity ? getStatusConfig(severity).accent : 'text-gray-400'}`}
+      >
+        {describeStatus(link)}
+      </span>
+      <span className="min-w-0 flex-1">
+        <span className="block break-all text-gray-100">
+          {link.url ?? (link.href || '(empty)')}
+        </span>
+        {link.check?.location && (
+          <span className="block break-all text-xs text-gray-300">→ {link.check.location}</span>
+        )}
+      </span>
+      <span className="truncate text-xs text-gray-300 md:w-48" title={link.text}>
+        {link.text || 'No anchor text'}
+      </span>
+      <span className="flex shrink-0 gap-1 text-xs">
+        <span className="rounded-full bg-white/5 px-2 py-0.5 text-gray-300">{link.scope}</span>
+        {link.rel.map((rel) => (
+          <span key={rel} className="rounded-full bg-[#3B82F6]/15 px-2 py-0.5 text-[#60A5FA]">
+            {rel}
+          </span>
+        ))}
+      </span>
+    </li>
+  )
+}
+
+const STATUS_SEVERITY: Record<Exclude<StatusFilter, 'all'>, TagStatus | undefined> = {
+  ok: 'ok',
+  redirect: 'warning',
+  broken: 'error',
+  problem: 'warning',
+  unchecked: undefined
+}
+
+function matchesType(link: PageLink, type: TypeFilter): boolean {
+  if (type === 'all') return true
+  if (type === 'internal' || type === 'external' || type === 'other') return link.scope === type
+  return link.rel.includes(type)
+}
+
+function linkStatus(link: PageLink): Exclude<StatusFilter, 'all'> {
+  if (link.problem) return 'problem'
+  if (!link.check) return 'unchecked'
+  if (link.check.result === 'unreachable') return 'broken'
+  return link.check.result
+}
+
+function describeStatus(link: PageLink): string {
+  if (link.problem) return link.problem
+  if (!link.check) return '—'
+  return link.check.status !== undefined ? String(link.check.status) : 'no response'
+}
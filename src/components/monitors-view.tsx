@@ -0,0 +1,319 @@
+import { useEffect, useState } from 'react'
+import type { Monitor, ScoringProfileInfo, WebhookFormat } from '../../shared/analysis-types'
+import { AnalyzeError, urlSchema } from '../lib/analyze'
+import {
+  createMonitor,
+  deleteMonitor,
+  fetchMonitors,
+  runMonitor,
+  updateMonitor
+} from '../lib/monitors'
+import { getStatusConfig } from '../lib/status'
+
+interface MonitorsViewProps {
+  profiles: ScoringProfileInfo[]
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60'
+
+export function MonitorsView({ profiles }: MonitorsViewProps) {
+  const [monitors, setMonitors] = useState<Monitor[]>([])
+  const [url, setUrl] = useState('')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [webhookFormat, setWebhookFormat] = useState<WebhookFormat>('slack')
+  const [intervalMinutes, setIntervalMinutes] = useState(60)
+  const [minScoreDrop, setMinScoreDrop] = useState(1)
+  const [profile, setProfile] = useState('')
+  const [busyId, setBusyId] = useState<string>()
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string>()
+
+  useEffect(() => {
+    fetchMonitors()
+      .then(setMonitors)
+      .catch((err: unknown) =>
+        setError(err instanceof AnalyzeError ? err.message : 'Unable to load monitors.')
+      )
+  }, [])
+
+  const replaceMonitor = (monitor: Monitor) =>
+    setMonitors((current) => current.map((item) => (item.id === monitor.id ? monitor : item)))
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const page = urlSchema.safeParse(url)
+    const webhook = urlSchema.safeParse(webhookUrl)
+    if (!page.success || !webhook.success) {
+      setError('Enter a valid page URL and webhook URL.')
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      setError(undefined)
+      const monitor = await createMonitor({
+        url: page.data,
+        webhookUrl: webhook.data,
+        webhookFormat,
+        intervalMinutes,
+        minScoreDrop,
+        ...(profile ? { profile } : {})
+      })
+      setMonitors((current) => [...current, monitor])
+      setUrl('')
+    } catch (err) {
+      setError(err instanceof AnalyzeError ? err.message : 'Unable to create the monitor.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const withMonitor = async (id: string, action: () => Promise<void>, fallbackError: string) => {
+    try {
+      setBusyId(id)
+      setError(undefined)
+      await action()
+    } catch (err) {
+      setError(err instanceof AnalyzeError ? err.message : fallbackError)
+    } finally {
+      setBusyId(undefined)
+    }
+  }
+
+  const handleRun = (id: string) =>
+    withMonitor(id, async () => replaceMonitor(await runMonitor(id)), 'The monitor run failed.')
+
+  const handleToggle = (monitor: Monitor) =>
+    withMonitor(
+      monitor.id,
+      async () => replaceMonitor(await updateMonitor(monitor.id, { enabled: !monitor.enabled })),
+      'Unable to update the monitor.'
+    )
+
+  const handleDelete = (id: string) =>
+    withMonitor(
+      id,
+      async () => {
+        await deleteMonitor(id)
+        setMonitors((current) => current.filter((item) => item.id !== id))
+      },
+      'Unable to delete the monitor.'
+    )
+
+  return (
+    <div className="flex flex-col gap-12">
+      <form
+        onSubmit={handleCreate}
+        className="flex flex-col gap-5 rounded-xl border border-white/10 bg-[#1E293B]/70 p-7 shadow-lg shadow-black/20 backdrop-blur-md"
+      >
+        <div className="grid gap-3 text-xs text-gray-300 md:grid-cols-2">
+          <label className="flex flex-col gap-1">
+            Page URL
+            <input
+              type="url"
+              placeholder="https://example.com"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Webhook URL
+            <input
+              type="url"
+              placeholder="https://hooks.slack.com/services/…"
+              value={webhookUrl}
+              onChange={(event) => setWebhookUrl(event.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+        </div>
+        <div className="grid gap-3 text-xs text-gray-300 md:grid-cols-4">
+          <label className="flex flex-col gap-1">
+            Payload
+            <select
+              value={webhookFormat}
+              onChange={(event) => setWebhookFormat(event.target.value as WebhookFormat)}
+              className={inputClassName}
+              disabled={isSaving}
+            >
+              <option value="slack">Slack message</option>
+              <option value="json">Generic JSON</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Interval (minutes)
+            <input
+              type="number"
+              min={5}
+              max={10080}
+              value={intervalMinutes}
+              onChange={(event) => setIntervalMinutes(Number(event.target.value))}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Alert on score drop of
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={minScoreDrop}
+              onChange={(event) => setMinScoreDrop(Number(event.target.value))}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Scoring profile
+            <select
+              value={profile}
+              onChange={(event) => setProfile(event.target.value)}
+              className={inputClassName}
+              disabled={isSaving}
+            >
+              <option value="">Default</option>
+              {profiles.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <p className="text-xs text-gray-300">
+            The webhook fires when the overall score drops, a new critical issue appears, or the
+            page stops being indexable. The first run sets the baseline.
+          </p>
+          <button
+            type="submit"
+            className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isSaving}
+          >
+            Add monitor
+          </button>
+        </div>
+        {error && <p className="text-sm text-danger">{error}</p>}
+      </form>
+
+      {monitors.length ? (
+        <ul className="space-y-4">
+          {monitors.map((monitor) => (
+            <MonitorCard
+              key={monitor.id}
+              monitor={monitor}
+              busy={busyId === monitor.id}
+              onRun={() => void handleRun(monitor.id)}
+              onToggle={() => void handleToggle(monitor)}
+              onDelete={() => void handleDelete(monitor.id)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 text-sm text-gray-300 shadow-lg shadow-black/20 backdrop-blur-lg">
+          No monitors yet. Add a URL above to re-analyze it on a schedule.
+        </section>
+      )}
+    </div>
+  )
+}
+
+interface MonitorCardProps {
+  monitor: Monitor
+  busy: boolean
+  onRun: () => void
+  onToggle: () => void
+  onDelete: () => void
+}
+
+function MonitorCard({ monitor, busy, onRun, onToggle, onDelete }: MonitorCardProps) {
+  const { lastRun } = monitor
+
+  return (
+    <li className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div className="min-w-0">
+          <p className="break-all text-sm font-semibold text-gray-100">{monitor.url}</p>
+          <p className="text-xs text-gray-300">
+            Every {formatInterval(monitor.intervalMinutes)} ·{' '}
+            {monitor.webhookFormat === 'slack' ? 'Slack' : 'JSON'} webhook ·{' '}
+            {monitor.enabled
+              ? `next run ${new Date(monitor.nextRunAt).toLocaleString()}`
+              : 'paused'}
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <MonitorButton label={busy ? 'Working…' : 'Run now'} onClick={onRun} disabled={busy} />
+          <MonitorButton
+            label={monitor.enabled ? 'Pause' : 'Resume'}
+            onClick={onToggle}
+            disabled={busy}
+          />
+          <MonitorButton label="Delete" onClick={onDelete} disabled={busy} danger />
+        </div>
+      </div>
+
+      {lastRun ? (
+        <div className="mt-4 text-sm text-gray-300">
+          <p>
+            Last run {new Date(lastRun.analyzedAt).toLocaleString()} · score{' '}
+            <span className="font-semibold text-gray-100">{lastRun.overallScore}</span>
+            {!lastRun.indexable && <span className="text-danger"> · not indexable</span>}
+          </p>
+          {lastRun.alerts.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {lastRun.alerts.map((alert, index) => (
+                <li key={index} className={`text-xs ${getStatusConfig('error').accent}`}>
+                  {alert.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {lastRun.webhookError && (
+            <p className="mt-2 text-xs text-warning">
+              Webhook not delivered: {lastRun.webhookError}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-gray-300">Not run yet.</p>
+      )}
+      {monitor.lastError && (
+        <p className="mt-2 text-xs text-danger">Last run failed: {monitor.lastError}</p>
+      )}
+    </li>
+  )
+}
+
+interface MonitorButtonProps {
+  label: string
+  onClick: () => void
+  disabled: boolean
+  danger?: boolean
+}
+
+function MonitorButton({ label, onClick, disabled, danger = false }: MonitorButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-lg border border-white/10 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition disabled:cursor-not-allowed disabled:opacity-60 ${
+        danger ? 'text-danger hover:border-danger' : 'text-gray-100 hover:border-[#3B82F6]'
+      }`}
+    >
+      {label}
+    </button>
+  )
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes % 1440 === 0) return minutes === 1440 ? 'day' : `${minutes / 1440} days`
+  if (minutes % 60 === 0) return minutes === 60 ? 'hour' : `${minutes / 60} hours`
+  return `${minutes} minutes`
+}
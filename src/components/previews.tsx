@@ -1,4 +1,14 @@
-import type { SeoPreviews } from '../../shared/analysis-types'
+import type {
+  BreadcrumbPreviewItem,
+  FaqPreviewItem,
+  ImageDetails,
+  ProductRichPreview,
+  RatingPreview,
+  RecipeRichPreview,
+  RichResultPreview,
+  SearchPreview,
+  SeoPreviews
+} from '../../shared/analysis-types'
 
 interface PreviewsProps {
   previews: SeoPreviews
@@ -8,7 +18,7 @@ export function Previews({ previews }: PreviewsProps) {
   return (
     <section className="grid gap-5 lg:grid-cols-3">
       <PreviewCard title="Google Preview">
-        <GooglePreview {...previews.google} />
+        <GooglePreview {...previews.google} richResult={previews.richResult} />
       </PreviewCard>
       <PreviewCard title="Facebook / LinkedIn">
         <SocialPreview {...previews.openGraph} />
@@ -36,32 +46,127 @@ function PreviewCard({ title, children }: PreviewCardProps) {
   )
 }
 
-function GooglePreview({
-  title,
-  description,
-  url,
-  domain
-}: SeoPreviews['google']) {
+interface GooglePreviewProps extends SearchPreview {
+  richResult?: RichResultPreview | undefined
+}
+
+function GooglePreview({ title, description, url, domain, richResult }: GooglePreviewProps) {
+  const recipe = richResult?.recipe
+
   return (
     <div className="space-y-2">
-      <p className="text-xs text-emerald-400">{domain}</p>
-      <a
-        href={url}
-        target="_blank"
-        rel="noreferrer"
-        className="block text-lg font-semibold text-[#3B82F6] transition hover:text-[#60A5FA] hover:underline"
-      >
-        {title}
-      </a>
-      <p className="text-sm text-gray-300">{description || 'Description not found.'}</p>
+      {richResult?.breadcrumbs ? (
+        <BreadcrumbTrail domain={domain} items={richResult.breadcrumbs} />
+      ) : (
+        <p className="text-xs text-emerald-400">{domain}</p>
+      )}
+      <div className="flex gap-3">
+        <div className="min-w-0 flex-1 space-y-2">
+          <a
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            className="block text-lg font-semibold text-[#3B82F6] transition hover:text-[#60A5FA] hover:underline"
+          >
+            {title}
+          </a>
+          {richResult?.product && <ProductSnippet product={richResult.product} />}
+          {recipe && <RecipeSnippet recipe={recipe} />}
+          <p className="text-sm text-gray-300">{description || 'Description not found.'}</p>
+        </div>
+        {recipe?.image && (
+          <img
+            src={recipe.image}
+            alt=""
+            className="h-20 w-20 shrink-0 rounded-lg object-cover"
+            loading="lazy"
+          />
+        )}
+      </div>
+      {richResult?.faq && <FaqAccordion items={richResult.faq} />}
     </div>
   )
 }
 
+function BreadcrumbTrail({ domain, items }: { domain: string; items: BreadcrumbPreviewItem[] }) {
+  return (
+    <p className="truncate text-xs text-emerald-400">
+      {[domain, ...items.map((item) => item.name)].join(' › ')}
+    </p>
+  )
+}
+
+function ProductSnippet({ product }: { product: ProductRichPreview }) {
+  const details = [
+    product.price ? formatPrice(product.price, product.currency) : undefined,
+    product.availability
+  ].filter(Boolean)
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-300">
+      {product.rating && <RatingStars rating={product.rating} />}
+      {details.length > 0 && <span>{details.join(' · ')}</span>}
+    </div>
+  )
+}
+
+function RecipeSnippet({ recipe }: { recipe: RecipeRichPreview }) {
+  const details = [recipe.totalTime, recipe.calories].filter(Boolean)
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-300">
+      {recipe.rating && <RatingStars rating={recipe.rating} />}
+      {details.length > 0 && <span>{details.join(' · ')}</span>}
+    </div>
+  )
+}
+
+function RatingStars({ rating }: { rating: RatingPreview }) {
+  const filled = Math.round((rating.value / rating.best) * 5)
+
+  return (
+    <span className="flex items-center gap-1">
+      <span className="text-gray-100">{rating.value}</span>
+      <span aria-label={`Rated ${rating.value} out of ${rating.best}`} className="text-amber-400">
+        {'★'.repeat(filled)}
+        <span className="text-gray-500">{'★'.repeat(Math.max(0, 5 - filled))}</span>
+      </span>
+      {rating.count !== undefined && <span>({rating.count.toLocaleString()})</span>}
+    </span>
+  )
+}
+
+function FaqAccordion({ items }: { items: FaqPreviewItem[] }) {
+  return (
+    <div className="divide-y divide-white/10 border-t border-white/10">
+      {items.map((item) => (
+        <details key={item.question} className="group py-2 text-sm">
+          <summary className="cursor-pointer list-none text-gray-100 marker:hidden">
+            <span className="mr-2 inline-block text-gray-400 transition group-open:rotate-90">›</span>
+            {item.question}
+          </summary>
+          <p className="mt-2 pl-4 text-gray-300">{item.answer}</p>
+        </details>
+      ))}
+    </div>
+  )
+}
+
+function formatPrice(price: string, currency: string | undefined): string {
+  const amount = Number(price)
+  if (!currency || !Number.isFinite(amount)) return currency ? `${price} ${currency}` : price
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${price} ${currency}`
+  }
+}
+
 function SocialPreview({
   title,
   description,
   image,
+  imageDetails,
   url,
   siteName
 }: SeoPreviews['openGraph']) {
@@ -79,6 +184,7 @@ function SocialPreview({
           Image not provided
         </div>
       )}
+      {imageDetails && <ImageDetailsBar details={imageDetails} />}
       <div className="bg-[#1E293B]/60 p-4">
         <p className="text-xs text-gray-300">{siteName}</p>
         <p className="mt-2 text-base font-semibold text-gray-100">{title}</p>
@@ -91,10 +197,33 @@ function SocialPreview({
   )
 }
 
+function ImageDetailsBar({ details }: { details: ImageDetails }) {
+  const parts = [
+    details.width !== undefined && details.height !== undefined
+      ? `${details.width}×${details.height} px`
+      : 'Unknown size',
+    details.format.toUpperCase(),
+    details.bytes !== undefined ? formatBytes(details.bytes) : undefined
+  ].filter(Boolean)
+
+  return (
+    <p className="border-t border-white/10 bg-[#0F172A]/60 px-4 py-1.5 text-xs text-gray-300">
+      {parts.join(' · ')}
+    </p>
+  )
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
 function TwitterPreview({
   title,
   description,
   image,
+  imageDetails,
   url,
   siteName,
   card
@@ -113,6 +242,7 @@ function TwitterPreview({
           Image not provided
         </div>
       )}
+      {imageDetails && <ImageDetailsBar details={imageDetails} />}
       <div className="bg-[#1E293B]/60 p-4">
         <p className="text-xs text-gray-300">
           {siteName} · Twitter card: {card}
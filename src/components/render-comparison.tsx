@@ -0,0 +1,108 @@
+import type { RenderComparison, RenderedTagChange, TagStatus } from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
+import { getStatusConfig } from '../lib/status'
+
+interface RenderComparisonPanelProps {
+  rendering: RenderComparison
+  renderedScore: number
+}
+
+const CHANGE_LABELS: Record<RenderedTagChange['change'], string> = {
+  added: 'Only after JavaScript',
+  changed: 'Changed by JavaScript',
+  removed: 'Removed by JavaScript'
+}
+
+const CHANGE_STATUS: Record<RenderedTagChange['change'], TagStatus> = {
+  added: 'warning',
+  changed: 'warning',
+  removed: 'error'
+}
+
+export function RenderComparisonPanel({ rendering, renderedScore }: RenderComparisonPanelProps) {
+  const delta = renderedScore - rendering.rawScore
+  const addedCount = rendering.changes.filter((change) => change.change === 'added').length
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <div className="grid gap-4 text-center md:grid-cols-3">
+        <ScoreColumn label="Raw HTML" value={String(rendering.rawScore)} />
+        <ScoreColumn
+          label="Difference"
+          value={delta > 0 ? `+${delta}` : String(delta)}
+          className={delta === 0 ? 'text-gray-300' : delta > 0 ? 'text-success' : 'text-danger'}
+        />
+        <ScoreColumn label="Rendered" value={String(renderedScore)} />
+      </div>
+      <p className="mt-4 text-xs text-gray-300">
+        Rendered in {(rendering.renderMs / 1000).toFixed(1)}s
+        {rendering.renderedUrl ? ` · ${rendering.renderedUrl}` : ''}
+        {addedCount > 0 &&
+          ` · ${addedCount} ${addedCount === 1 ? 'tag is' : 'tags are'} invisible to crawlers that do not run JavaScript`}
+      </p>
+
+      {rendering.changes.length ? (
+        <ul className="mt-4 space-y-2">
+          {rendering.changes.map((change) => {
+            const config = getStatusConfig(CHANGE_STATUS[change.change])
+            return (
+              <li
+                key={`${change.section}-${change.id}`}
+                className="rounded-lg border border-white/10 bg-[#0F172A]/60 px-3 py-2 text-sm"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-gray-100">
+                    {change.label}{' '}
+                    <span className="text-xs text-gray-300">· {sectionLabel(change.section)}</span>
+                  </span>
+                  <span
+                    className={`rounded-full px-2 py-0.5 text-xs ${config.subtle} ${config.accent}`}
+                  >
+                    {CHANGE_LABELS[change.change]}
+                  </span>
+                </div>
+                <div className="mt-1 grid gap-1 text-xs text-gray-300 md:grid-cols-2">
+                  <TagValue value={change.raw} />
+                  <TagValue value={change.rendered} arrow />
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <p className="mt-4 text-sm text-gray-300">
+          The raw HTML already contains every tag; JavaScript does not change the SEO metadata.
+        </p>
+      )}
+    </section>
+  )
+}
+
+interface ScoreColumnProps {
+  label: string
+  value: string
+  className?: string
+}
+
+function ScoreColumn({ label, value, className = 'text-gray-100' }: ScoreColumnProps) {
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-gray-300">{label}</p>
+      <p className={`text-3xl font-semibold ${className}`}>{value}</p>
+    </div>
+  )
+}
+
+interface TagValueProps {
+  value: string | undefined
+  arrow?: boolean
+}
+
+function TagValue({ value, arrow = false }: TagValueProps) {
+  return (
+    <span className="min-w-0 break-words">
+      {arrow ? '→ ' : ''}
+      {value ? <span className="font-mono">{value}</span> : 'Not present'}
+    </span>
+  )
+}
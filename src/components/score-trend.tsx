@@ -0,0 +1,205 @@
+import { useState } from 'react'
+import type { AnalysisHistory, HistoryEntry, SectionId } from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
+
+const WIDTH = 640
+const HEIGHT = 220
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 }
+
+const OVERALL_COLOR = '#3B82F6'
+const SECTION_COLORS = [
+  '#16a34a',
+  '#f59e0b',
+  '#a855f7',
+  '#ec4899',
+  '#14b8a6',
+  '#f97316',
+  '#84cc16',
+  '#e11d48'
+]
+
+interface ScoreTrendProps {
+  history: AnalysisHistory
+}
+
+export function ScoreTrend({ history }: ScoreTrendProps) {
+  const [shownSections, setShownSections] = useState<SectionId[]>([])
+  const { entries } = history
+
+  if (entries.length < 2) {
+    return (
+      <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 text-sm text-gray-300 shadow-lg shadow-black/20 backdrop-blur-lg">
+        {entries.length === 1
+          ? 'This is the first stored analysis of this URL. Run it again later to see the score trend.'
+          : 'No stored analyses for this URL yet.'}
+      </section>
+    )
+  }
+
+  const sections = [
+    ...new Set(entries.flatMap((entry) => Object.keys(entry.sectionScores) as SectionId[]))
+  ]
+  const colorOf = (section: SectionId) =>
+    SECTION_COLORS[sections.indexOf(section) % SECTION_COLORS.length] ?? OVERALL_COLOR
+  const toggleSection = (section: SectionId) =>
+    setShownSections((current) =>
+      current.includes(section) ? current.filter((id) => id !== section) : [...current, section]
+    )
+
+  const first = entries[0]
+  const latest = entries[entries.length - 1]
+  const change = first && latest ? latest.overallScore - first.overallScore : 0
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/20 backdrop-blur-xl">
+      <header className="flex flex-col gap-1 md:flex-row md:items-baseline md:justify-between">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+          Score trend — {entries.length} runs
+        </h3>
+        <p className="text-xs text-gray-300">
+          Overall {change >= 0 ? '+' : ''}
+          {change} since {formatDate(first?.analyzedAt)}
+        </p>
+      </header>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mt-4 w-full"
+        role="img"
+        aria-label="Overall and section scores over time"
+      >
+        {[0, 25, 50, 75, 100].map((score) => (
+          <g key={score}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yFor(score)}
+              y2={yFor(score)}
+              stroke="rgba(255,255,255,0.08)"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={yFor(score) + 4}
+              textAnchor="end"
+              className="fill-gray-400 text-[10px]"
+            >
+              {score}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-gray-400 text-[10px]">
+          {formatDate(first?.analyzedAt)}
+        </text>
+        <text
+          x={WIDTH - PADDING.right}
+          y={HEIGHT - 8}
+          textAnchor="end"
+          className="fill-gray-400 text-[10px]"
+        >
+          {formatDate(latest?.analyzedAt)}
+        </text>
+
+        {shownSections.map((section) => (
+          <TrendLine
+            key={section}
+            entries={entries}
+            color={colorOf(section)}
+            label={sectionLabel(section)}
+            score={(entry) => entry.sectionScores[section]}
+          />
+        ))}
+        <TrendLine
+          entries={entries}
+          color={OVERALL_COLOR}
+          label="Overall"
+          score={(entry) => entry.overallScore}
+          emphasized
+        />
+      </svg>
+
+      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        <span className="inline-flex items-center gap-1.5 rounded-full bg-white/5 px-3 py-1 text-gray-100">
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: OVERALL_COLOR }} />
+          Overall
+        </span>
+        {sections.map((section) => {
+          const shown = shownSections.includes(section)
+          return (
+            <button
+              key={section}
+              type="button"
+              onClick={() => toggleSection(section)}
+              aria-pressed={shown}
+              className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 transition ${
+                shown ? 'bg-white/10 text-gray-100' : 'bg-white/5 text-gray-400 hover:text-gray-100'
+              }`}
+            >
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: shown ? colorOf(section) : 'rgb(107 114 128)' }}
+              />
+              {sectionLabel(section)}
+            </button>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
+interface TrendLineProps {
+  entries: HistoryEntry[]
+  color: string
+  label: string
+  score: (entry: HistoryEntry) => number | undefined
+  emphasized?: boolean
+}
+
+/** Runs where the section had no result leave a gap in the line. */
+function TrendLine({ entries, color, label, score, emphasized = false }: TrendLineProps) {
+  const points = entries.map((entry, index) => {
+    const value = score(entry)
+    return value === undefined ? undefined : { entry, value, x: xFor(index, entries.length) }
+  })
+  const path = points
+    .map((point, index) =>
+      point ? `${points[index - 1] ? 'L' : 'M'}${point.x},${yFor(point.value)}` : ''
+    )
+    .join(' ')
+
+  return (
+    <g>
+      <path d={path} fill="none" stroke={color} strokeWidth={emphasized ? 2.5 : 1.5} />
+      {points.map(
+        (point) =>
+          point && (
+            <circle
+              key={point.entry.id}
+              cx={point.x}
+              cy={yFor(point.value)}
+              r={emphasized ? 3.5 : 2.5}
+              fill={color}
+            >
+              <title>
+                {label}: {point.value} — {formatDate(point.entry.analyzedAt)}
+              </title>
+            </circle>
+          )
+      )}
+    </g>
+  )
+}
+
+function xFor(index: number, count: number): number {
+  const span = WIDTH - PADDING.left - PADDING.right
+  return PADDING.left + (count > 1 ? (span * index) / (count - 1) : span / 2)
+}
+
+function yFor(score: number): number {
+  const span = HEIGHT - PADDING.top - PADDING.bottom
+  return PADDING.top + span * (1 - score / 100)
+}
+
+function formatDate(value: string | undefined): string {
+  return value ? new Date(value).toLocaleString() : ''
+}
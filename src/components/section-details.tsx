@@ -22,7 +22,7 @@ export function SectionDetails({ sections }: SectionDetailsProps) {
           </header>
           <div className="mt-5 space-y-3">
             {section.tags.map((tag) => (
-              <TagRow key={tag.tag} tag={tag} />
+              <TagRow key={tag.id} tag={tag} />
             ))}
           </div>
         </article>
@@ -0,0 +1,171 @@
+import type {
+  AggregatedIssue,
+  DuplicateCluster,
+  PageFailure,
+  SectionId,
+  SeoAnalysis,
+  SiteSummary
+} from '../../shared/analysis-types'
+import { sectionLabel } from '../lib/sections'
+import { getStatusConfig } from '../lib/status'
+import { AggregatedIssuesList } from './aggregated-issues-list'
+import { DuplicateClusters } from './duplicate-clusters'
+
+export interface SitePageRow {
+  analysis: SeoAnalysis
+  depth?: number
+}
+
+interface SiteResultsProps {
+  title: string
+  caption?: string
+  summary: SiteSummary
+  issues: AggregatedIssue[]
+  duplicates: DuplicateCluster[]
+  pages: SitePageRow[]
+  failures: PageFailure[]
+  selectedUrl?: string | undefined
+  onSelect: (url: string) => void
+  /** Rendered above the summary cards, e.g. export buttons. */
+  actions?: React.ReactNode
+}
+
+export function SiteResults({
+  title,
+  caption,
+  summary,
+  issues,
+  duplicates,
+  pages,
+  failures,
+  selectedUrl,
+  onSelect,
+  actions
+}: SiteResultsProps) {
+  const showDepth = pages.some((page) => page.depth !== undefined)
+
+  return (
+    <section className="space-y-5">
+      {actions}
+
+      <SiteSummaryCards summary={summary} />
+
+      <AggregatedIssuesList issues={issues} />
+
+      <DuplicateClusters clusters={duplicates} />
+
+      <article className="overflow-hidden rounded-2xl border border-white/10 bg-[#1E293B]/60 shadow-lg shadow-black/20 backdrop-blur-xl">
+        <header className="flex items-center justify-between px-6 pt-6">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-300">
+            {title}
+          </h3>
+          {caption && <p className="text-xs text-gray-300">{caption}</p>}
+        </header>
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-gray-400">
+              <tr>
+                <th className="px-6 py-3 font-semibold">Page</th>
+                {showDepth && <th className="px-3 py-3 font-semibold">Depth</th>}
+                <th className="px-3 py-3 font-semibold">Score</th>
+                <th className="px-3 py-3 font-semibold">Status</th>
+                <th className="px-6 py-3 font-semibold">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map(({ depth, analysis }) => {
+                const config = getStatusConfig(analysis.summary.status)
+                const isSelected = analysis.finalUrl === selectedUrl
+                return (
+                  <tr
+                    key={analysis.finalUrl}
+                    onClick={() => onSelect(analysis.finalUrl)}
+                    className={`cursor-pointer border-t border-white/5 transition hover:bg-white/5 ${
+                      isSelected ? 'bg-[#3B82F6]/10' : ''
+                    }`}
+                  >
+                    <td className="max-w-md truncate px-6 py-3 text-gray-100" title={analysis.finalUrl}>
+                      {analysis.finalUrl}
+                    </td>
+                    {showDepth && <td className="px-3 py-3 text-gray-300">{depth}</td>}
+                    <td className="px-3 py-3 font-semibold text-gray-100">
+                      {analysis.summary.overallScore}
+                    </td>
+                    <td className="px-3 py-3">
+                      <span className={`inline-flex rounded-full px-3 py-1 text-xs ${config.badge}`}>
+                        {config.label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-gray-300">{analysis.issues.length}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </article>
+
+      {failures.length > 0 && (
+        <article className="rounded-2xl border border-dashed border-danger/60 bg-danger/10 p-6 shadow-inner shadow-danger/10 backdrop-blur">
+          <h3 className="text-sm font-semibold text-danger">Pages that could not be analyzed</h3>
+          <ul className="mt-3 space-y-2 text-sm text-danger">
+            {failures.map((failure) => (
+              <li key={failure.url}>
+                <span className="font-semibold">{failure.url}</span> — {failure.error}
+              </li>
+            ))}
+          </ul>
+        </article>
+      )}
+    </section>
+  )
+}
+
+function SiteSummaryCards({ summary }: { summary: SiteSummary }) {
+  const sectionAverages = Object.entries(summary.sectionAverages) as Array<[SectionId, number]>
+
+  return (
+    <div className="grid gap-5 md:grid-cols-3">
+      <article className="rounded-2xl border border-white/10 bg-[#0F172A]/60 p-6 shadow-[0_25px_60px_-25px_rgba(15,23,42,0.8)] backdrop-blur-xl">
+        <p className="text-sm uppercase tracking-wide text-gray-300">Average score</p>
+        <p className="mt-2 text-3xl font-semibold text-gray-100">
+          {summary.averageScore}
+          <span className="ml-1 text-base font-normal text-gray-400">/ 100</span>
+        </p>
+        <p className="mt-3 text-xs text-gray-300">
+          {summary.pageCount} pages analyzed · {summary.failedCount} failed
+        </p>
+        <ul className="mt-4 space-y-1 text-xs text-gray-300">
+          {sectionAverages.map(([id, score]) => (
+            <li key={id} className="flex justify-between">
+              <span>{sectionLabel(id)}</span>
+              <span className="font-semibold text-gray-100">{score}</span>
+            </li>
+          ))}
+        </ul>
+      </article>
+      <article className="md:col-span-2 rounded-2xl border border-white/10 bg-[#1E293B]/60 p-6 shadow-lg shadow-black/25 backdrop-blur">
+        <p className="text-sm uppercase tracking-wide text-gray-300">Worst pages</p>
+        {summary.worstPages.length ? (
+          <ul className="mt-3 space-y-2">
+            {summary.worstPages.map((page) => {
+              const config = getStatusConfig(page.status)
+              return (
+                <li key={page.url} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="truncate text-gray-100" title={page.url}>
+                    {page.url}
+                  </span>
+                  <span className={`shrink-0 font-semibold ${config.accent}`}>
+                    {page.overallScore} · {page.issueCount} issues
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        ) : (
+          <p className="mt-3 text-sm text-gray-300">No pages were analyzed.</p>
+        )}
+      </article>
+    </div>
+  )
+}
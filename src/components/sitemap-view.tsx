@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import type { ScoringProfileInfo, SitemapReport } from '../../shared/analysis-types'
+import { AnalyzeError, urlSchema } from '../lib/analyze'
+import { analyzeSitemap } from '../lib/sitemap'
+import { ExportButtons } from './export-buttons'
+import { IssuesList } from './issues-list'
+import { SectionDetails } from './section-details'
+import { SiteResults } from './site-results'
+import { SummaryCards } from './summary-cards'
+
+interface SitemapViewProps {
+  profiles: ScoringProfileInfo[]
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60'
+
+export function SitemapView({ profiles }: SitemapViewProps) {
+  const [url, setUrl] = useState('')
+  const [limit, setLimit] = useState(100)
+  const [profile, setProfile] = useState('')
+  const [report, setReport] = useState<SitemapReport>()
+  const [selectedUrl, setSelectedUrl] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string>()
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const parsed = urlSchema.safeParse(url)
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Enter a valid URL.')
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      setError(undefined)
+      setSelectedUrl(undefined)
+      const result = await analyzeSitemap(parsed.data, {
+        limit,
+        ...(profile ? { profile } : {})
+      })
+      setReport(result)
+    } catch (err) {
+      setError(err instanceof AnalyzeError ? err.message : 'The sitemap audit did not finish. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const selected = report?.pages.find((page) => page.finalUrl === selectedUrl)
+
+  return (
+    <div className="flex flex-col gap-12">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-5 rounded-xl border border-white/10 bg-[#1E293B]/70 p-7 shadow-lg shadow-black/20 backdrop-blur-md"
+      >
+        <label htmlFor="sitemap-url" className="text-sm font-semibold uppercase tracking-wide text-gray-100">
+          Sitemap URL
+        </label>
+        <div className="flex flex-col gap-3 md:flex-row">
+          <input
+            id="sitemap-url"
+            type="url"
+            placeholder="https://example.com/sitemap.xml"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            className={inputClassName}
+            disabled={isLoading}
+            autoComplete="url"
+          />
+          <button
+            type="submit"
+            className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={isLoading}
+          >
+            {isLoading && (
+              <span className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+            )}
+            Audit sitemap
+          </button>
+        </div>
+        <div className="grid gap-3 text-xs text-gray-300 md:grid-cols-2">
+          <label className="flex flex-col gap-1">
+            Page limit
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={limit}
+              onChange={(event) => setLimit(Number(event.target.value))}
+              className={inputClassName}
+              disabled={isLoading}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Scoring profile
+            <select
+              value={profile}
+              onChange={(event) => setProfile(event.target.value)}
+              className={inputClassName}
+              disabled={isLoading}
+            >
+              <option value="">Default</option>
+              {profiles.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {error && <p className="text-sm text-danger">{error}</p>}
+        <p className="text-xs text-gray-300">
+          Sitemap indexes and gzip-compressed sitemaps are followed; listed pages are analyzed a few
+          at a time.
+        </p>
+      </form>
+
+      {report && (
+        <SiteResults
+          title="Sitemap pages"
+          caption={`${report.discoveredCount} URLs in ${report.sitemaps.length} sitemap files`}
+          summary={report.summary}
+          issues={report.issues}
+          duplicates={report.duplicates}
+          pages={report.pages.map((analysis) => ({ analysis }))}
+          failures={report.failures}
+          selectedUrl={selectedUrl}
+          onSelect={setSelectedUrl}
+          actions={<ExportButtons source={{ sitemap: report }} />}
+        />
+      )}
+
+      {selected && (
+        <>
+          <SummaryCards analysis={selected} />
+          <SectionDetails sections={selected.sections} />
+          <IssuesList issues={selected.issues} missing={selected.missing} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -20,7 +20,7 @@ export function SummaryCards({ analysis }: SummaryCardsProps) {
           <StatusBadge status={analysis.summary.status} />
         </header>
         <p className="mt-4 max-w-lg text-sm text-gray-300">
-          Final URL:{' '}
+          {analysis.source === 'html' ? 'Pasted HTML, base URL:' : 'Final URL:'}{' '}
           <a
             href={analysis.finalUrl}
             target="_blank"
@@ -33,6 +33,10 @@ export function SummaryCards({ analysis }: SummaryCardsProps) {
         <p className="mt-2 text-xs text-gray-300">
           Last updated: {new Date(analysis.fetchedAt).toLocaleString()}
         </p>
+        <p className="mt-1 text-xs text-gray-300">
+          Scoring profile: {analysis.summary.profile.label}
+        </p>
+        <IndexabilityVerdict indexability={analysis.summary.indexability} />
       </article>
       {analysis.sections.map((section) => (
         <article
@@ -59,6 +63,34 @@ export function SummaryCards({ analysis }: SummaryCardsProps) {
   )
 }
 
+interface IndexabilityVerdictProps {
+  indexability: SeoAnalysis['summary']['indexability']
+}
+
+function IndexabilityVerdict({ indexability }: IndexabilityVerdictProps) {
+  const config = getStatusConfig(indexability.indexable ? 'ok' : 'error')
+  return (
+    <div className={`mt-4 rounded-xl border border-white/10 p-3 ${config.subtle}`}>
+      <p className={`text-sm font-semibold ${config.accent}`}>
+        {indexability.indexable ? 'Indexable' : 'Not indexable'}
+      </p>
+      {indexability.reasons.length > 0 && (
+        <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs text-gray-300">
+          {indexability.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      {indexability.robotsTxt && (
+        <p className="mt-1 text-xs text-gray-300">
+          robots.txt: {indexability.robotsTxt.status}
+          {indexability.robotsTxt.rule && ` (${indexability.robotsTxt.rule})`}
+        </p>
+      )}
+    </div>
+  )
+}
+
 interface StatusBadgeProps {
   status: Parameters<typeof getStatusConfig>[0]
 }
@@ -1,18 +1,53 @@
 import { useState } from 'react'
-import { urlSchema } from '../lib/analyze'
+import type { ScoringProfileInfo } from '../../shared/analysis-types'
+import { urlSchema, type AnalyzeOptions } from '../lib/analyze'
+
+type InputMode = 'url' | 'html'
 
 interface UrlFormProps {
   isLoading: boolean
-  onSubmit: (url: string) => void
+  profiles: ScoringProfileInfo[]
+  onSubmit: (url: string, options: AnalyzeOptions) => void
+  onSubmitHtml: (html: string, baseUrl: string | undefined, options: AnalyzeOptions) => void
   initialUrl?: string
 }
 
-export function UrlForm({ isLoading, onSubmit, initialUrl = '' }: UrlFormProps) {
+export function UrlForm({
+  isLoading,
+  profiles,
+  onSubmit,
+  onSubmitHtml,
+  initialUrl = ''
+}: UrlFormProps) {
+  const [mode, setMode] = useState<InputMode>('url')
+  const [profile, setProfile] = useState('')
+  const [checkAlternates, setCheckAlternates] = useState(false)
+  const [checkCanonical, setCheckCanonical] = useState(false)
+  const [checkImages, setCheckImages] = useState(true)
+  const [checkLinks, setCheckLinks] = useState(false)
+  const [render, setRender] = useState(false)
   const [value, setValue] = useState(initialUrl)
+  const [html, setHtml] = useState('')
+  const [baseUrl, setBaseUrl] = useState('')
   const [error, setError] = useState<string>()
 
+  const analyzeOptions = (): AnalyzeOptions => ({
+    ...(profile ? { profile } : {}),
+    ...(checkAlternates ? { checkAlternates } : {}),
+    ...(checkCanonical ? { checkCanonical } : {}),
+    ...(checkImages ? {} : { checkImages }),
+    ...(checkLinks ? { checkLinks } : {}),
+    ...(render && mode === 'url' ? { render } : {})
+  })
+
   const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault()
+
+    if (mode === 'html') {
+      submitHtml()
+      return
+    }
+
     const parsed = urlSchema.safeParse(value)
 
     if (!parsed.success) {
@@ -21,7 +56,34 @@ export function UrlForm({ isLoading, onSubmit, initialUrl = '' }: UrlFormProps)
     }
 
     setError(undefined)
-    onSubmit(parsed.data)
+    onSubmit(parsed.data, analyzeOptions())
+  }
+
+  const submitHtml = () => {
+    if (!html.trim()) {
+      setError('Paste the HTML you want to analyze.')
+      return
+    }
+
+    if (!baseUrl.trim()) {
+      setError(undefined)
+      onSubmitHtml(html, undefined, analyzeOptions())
+      return
+    }
+
+    const parsedBase = urlSchema.safeParse(baseUrl)
+    if (!parsedBase.success) {
+      setError(parsedBase.error.issues[0]?.message ?? 'Enter a valid base URL.')
+      return
+    }
+
+    setError(undefined)
+    onSubmitHtml(html, parsedBase.data, analyzeOptions())
+  }
+
+  const switchMode = (next: InputMode) => {
+    setMode(next)
+    setError(undefined)
   }
 
   return (
@@ -29,44 +91,192 @@ export function UrlForm({ isLoading, onSubmit, initialUrl = '' }: UrlFormProps)
       onSubmit={handleSubmit}
       className="flex flex-col gap-5 rounded-xl border border-white/10 bg-[#1E293B]/70 p-7 shadow-lg shadow-black/20 backdrop-blur-md"
     >
-      <label htmlFor="url" className="text-sm font-semibold text-gray-100 tracking-wide uppercase">
-        Page URL
-      </label>
-      <div className="flex flex-col gap-3 md:flex-row">
-        <input
-          id="url"
-          name="url"
-          type="url"
-          placeholder="https://example.com"
-          value={value}
-          onChange={(event) => setValue(event.target.value)}
-          className="w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
-          aria-invalid={Boolean(error)}
-          aria-describedby={error ? 'url-error' : undefined}
-          disabled={isLoading}
-          autoComplete="url"
-        />
-        <button
-          type="submit"
-          className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#60A5FA] focus-visible:ring-offset-2 focus-visible:ring-offset-[#0F172A] disabled:cursor-not-allowed disabled:opacity-60"
-          disabled={isLoading}
-        >
-          {isLoading && (
-            <span className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
-          )}
-          Analyze
-        </button>
+      <div className="flex gap-2" role="tablist" aria-label="Input type">
+        <ModeTab active={mode === 'url'} disabled={isLoading} onClick={() => switchMode('url')}>
+          Page URL
+        </ModeTab>
+        <ModeTab active={mode === 'html'} disabled={isLoading} onClick={() => switchMode('html')}>
+          Paste HTML
+        </ModeTab>
+      </div>
+
+      {mode === 'url' ? (
+        <div className="flex flex-col gap-3 md:flex-row">
+          <label htmlFor="url" className="sr-only">
+            Page URL
+          </label>
+          <input
+            id="url"
+            name="url"
+            type="url"
+            placeholder="https://example.com"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className="w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+            aria-invalid={Boolean(error)}
+            aria-describedby={error ? 'url-error' : undefined}
+            disabled={isLoading}
+            autoComplete="url"
+          />
+          <SubmitButton isLoading={isLoading} />
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          <label htmlFor="html" className="sr-only">
+            HTML source
+          </label>
+          <textarea
+            id="html"
+            name="html"
+            rows={10}
+            placeholder="<!doctype html>&#10;<html>&#10;  <head>…</head>&#10;</html>"
+            value={html}
+            onChange={(event) => setHtml(event.target.value)}
+            className="w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 font-mono text-sm text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+            aria-invalid={Boolean(error)}
+            aria-describedby={error ? 'url-error' : undefined}
+            disabled={isLoading}
+            spellCheck={false}
+          />
+          <div className="flex flex-col gap-3 md:flex-row">
+            <label htmlFor="base-url" className="sr-only">
+              Base URL
+            </label>
+            <input
+              id="base-url"
+              name="baseUrl"
+              type="url"
+              placeholder="Base URL for relative links (optional)"
+              value={baseUrl}
+              onChange={(event) => setBaseUrl(event.target.value)}
+              className="w-full rounded-xl border border-white/10 bg-[#0F172A]/70 px-4 py-3 text-base text-gray-100 placeholder-gray-500 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+              disabled={isLoading}
+              autoComplete="url"
+            />
+            <SubmitButton isLoading={isLoading} />
+          </div>
+        </div>
+      )}
+
+      {profiles.length > 0 && (
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <label
+            htmlFor="profile"
+            className="text-xs font-semibold uppercase tracking-wide text-gray-300"
+          >
+            Scoring profile
+          </label>
+          <select
+            id="profile"
+            name="profile"
+            value={profile}
+            onChange={(event) => setProfile(event.target.value)}
+            disabled={isLoading}
+            className="rounded-xl border border-white/10 bg-[#0F172A]/70 px-3 py-2 text-sm text-gray-100 outline-none transition focus:border-[#3B82F6] focus:ring-2 focus:ring-[#3B82F6]/60"
+          >
+            <option value="">Default</option>
+            {profiles.map((item) => (
+              <option key={item.id} value={item.id} title={item.description}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <CheckboxOption checked={checkAlternates} disabled={isLoading} onChange={setCheckAlternates}>
+          Verify hreflang return links (fetches up to 10 alternate pages)
+        </CheckboxOption>
+        <CheckboxOption checked={checkCanonical} disabled={isLoading} onChange={setCheckCanonical}>
+          Verify the canonical URL responds with an indexable 200 page
+        </CheckboxOption>
+        <CheckboxOption checked={checkImages} disabled={isLoading} onChange={setCheckImages}>
+          Download social images to check their format, file size and dimensions
+        </CheckboxOption>
+        <CheckboxOption checked={checkLinks} disabled={isLoading} onChange={setCheckLinks}>
+          Check links for errors and redirects (requests up to 100 URLs)
+        </CheckboxOption>
+        {mode === 'url' && (
+          <CheckboxOption checked={render} disabled={isLoading} onChange={setRender}>
+            Render JavaScript in a headless browser and compare with the raw HTML
+          </CheckboxOption>
+        )}
       </div>
+
       {error && (
         <p id="url-error" className="text-sm text-danger">
           {error}
         </p>
       )}
       <p className="text-xs text-gray-300">
-        We perform a GET request and audit only publicly available pages — no authentication or
-        private data.
+        {mode === 'url'
+          ? 'We perform a GET request and audit only publicly available pages — no authentication or private data.'
+          : 'The markup is analyzed as-is and never fetched — ideal for staging pages and templates before they ship.'}
       </p>
     </form>
   )
 }
 
+interface CheckboxOptionProps {
+  checked: boolean
+  disabled: boolean
+  onChange: (checked: boolean) => void
+  children: React.ReactNode
+}
+
+function CheckboxOption({ checked, disabled, onChange, children }: CheckboxOptionProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(event) => onChange(event.target.checked)}
+        disabled={disabled}
+        className="h-4 w-4 rounded border-white/20 bg-[#0F172A]/70 accent-[#3B82F6]"
+      />
+      {children}
+    </label>
+  )
+}
+
+interface ModeTabProps {
+  active: boolean
+  disabled: boolean
+  onClick: () => void
+  children: React.ReactNode
+}
+
+function ModeTab({ active, disabled, onClick, children }: ModeTabProps) {
+  return (
+    <button
+      type="button"
+      role="tab"
+      aria-selected={active}
+      onClick={onClick}
+      disabled={disabled}
+      className={`rounded-full px-4 py-1.5 text-xs font-semibold uppercase tracking-wide transition disabled:cursor-not-allowed disabled:opacity-60 ${
+        active
+          ? 'bg-[#3B82F6] text-white shadow-[0_0_10px_rgba(59,130,246,0.4)]'
+          : 'border border-white/10 text-gray-300 hover:text-gray-100'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
+function SubmitButton({ isLoading }: { isLoading: boolean }) {
+  return (
+    <button
+      type="submit"
+      className="flex items-center justify-center gap-2 rounded-xl bg-[#3B82F6] px-6 py-3 text-sm font-semibold uppercase tracking-wide text-white shadow-[0_0_15px_rgba(59,130,246,0.4)] transition hover:bg-[#60A5FA] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#60A5FA] focus-visible:ring-offset-2 focus-visible:ring-offset-[#0F172A] disabled:cursor-not-allowed disabled:opacity-60"
+      disabled={isLoading}
+    >
+      {isLoading && (
+        <span className="inline-flex h-4 w-4 animate-spin rounded-full border-2 border-white/20 border-t-white" />
+      )}
+      Analyze
+    </button>
+  )
+}
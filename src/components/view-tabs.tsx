@@ -0,0 +1,41 @@
+interface ViewTab<T extends string> {
+  id: T
+  label: string
+}
+
+interface ViewTabsProps<T extends string> {
+  tabs: ViewTab<T>[]
+  active: T
+  onChange: (id: T) => void
+  label?: string
+}
+
+export function ViewTabs<T extends string>({
+  tabs,
+  active,
+  onChange,
+  label = 'Analyzer mode'
+}: ViewTabsProps<T>) {
+  return (
+    <nav
+      className="mx-auto flex w-fit flex-wrap justify-center gap-1 rounded-full border border-white/10 bg-[#0F172A]/60 p-1 backdrop-blur"
+      aria-label={label}
+    >
+      {tabs.map((tab) => (
+        <button
+          key={tab.id}
+          type="button"
+          onClick={() => onChange(tab.id)}
+          aria-current={tab.id === active ? 'page' : undefined}
+          className={`rounded-full px-4 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
+            tab.id === active
+              ? 'bg-[#3B82F6] text-white shadow-[0_0_10px_rgba(59,130,246,0.4)]'
+              : 'text-gray-300 hover:text-gray-100'
+          }`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </nav>
+  )
+}
@@ -0,0 +1,112 @@
+import type {
+  AnalysisProgress,
+  AnalysisStage,
+  FetchDiagnostics,
+  LinkInventory,
+  SectionResult,
+  SeoAnalysis
+} from '../../shared/analysis-types'
+import { AnalyzeError, analyzeParams, readJson, type AnalyzeOptions } from './analyze'
+import { apiFetch } from './api-key'
+import { SECTION_ORDER } from './sections'
+
+/** Everything received so far for an analysis that is still running. */
+export interface PartialAnalysis {
+  /** Stages in the order they started; the last one is still running. */
+  stages: AnalysisStage[]
+  finalUrl?: string
+  fetch?: FetchDiagnostics
+  links?: LinkInventory
+  /** Finished sections, in report order. */
+  sections: SectionResult[]
+}
+
+export const EMPTY_PARTIAL_ANALYSIS: PartialAnalysis = { stages: [], sections: [] }
+
+export function applyProgress(
+  partial: PartialAnalysis,
+  progress: AnalysisProgress
+): PartialAnalysis {
+  switch (progress.type) {
+    case 'stage':
+      return { ...partial, stages: [...partial.stages, progress.stage] }
+    case 'fetched':
+      return { ...partial, finalUrl: progress.finalUrl, fetch: progress.fetch }
+    case 'links':
+      return { ...partial, links: progress.links }
+    case 'section':
+      return {
+        ...partial,
+        sections: [...partial.sections, progress.section].sort(
+          (a, b) => SECTION_ORDER.indexOf(a.id) - SECTION_ORDER.indexOf(b.id)
+        )
+      }
+  }
+}
+
+interface StreamMessage {
+  event: string
+  data: string
+}
+
+/**
+ * Analyzes a URL through `GET /api/analyze/stream`, reporting partial results
+ * to `onProgress` as they arrive. Uses `fetch` rather than `EventSource` so the
+ * API key header can be sent.
+ */
+export async function streamAnalyzeUrl(
+  input: string,
+  options: AnalyzeOptions,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<SeoAnalysis> {
+  const params = analyzeParams(input, options)
+  const response = await apiFetch(`/api/analyze/stream?${params.toString()}`, {
+    headers: { Accept: 'text/event-stream' }
+  })
+  if (!response.ok) return readJson<never>(response, 'Analysis failed.')
+  if (!response.body) throw new AnalyzeError('The analysis stream could not be opened.')
+
+  for await (const message of readEvents(response.body)) {
+    const data: unknown = JSON.parse(message.data)
+    if (message.event === 'progress') {
+      onProgress(data as AnalysisProgress)
+    } else if (message.event === 'result') {
+      return data as SeoAnalysis
+    } else if (message.event === 'error') {
+      const payload = data as { error?: string; details?: unknown }
+      throw new AnalyzeError(payload.error ?? 'Analysis failed.', payload.details)
+    }
+  }
+  throw new AnalyzeError('The analysis stream ended before a result arrived.')
+}
+
+/** Splits a `text/event-stream` body into its messages; comments are skipped. */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const message = parseMessage(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (message) yield message
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
+
+function parseMessage(block: string): StreamMessage | undefined {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+  }
+  return data.length ? { event, data: data.join('\n') } : undefined
+}
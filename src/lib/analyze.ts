@@ -1,5 +1,6 @@
 import { z } from 'zod'
-import type { SeoAnalysis } from '../../shared/analysis-types'
+import type { ScoringProfileInfo, SeoAnalysis } from '../../shared/analysis-types'
+import { apiFetch } from './api-key'
 
 export const urlSchema = z.string().trim().url({ message: 'Enter a valid URL.' })
 
@@ -13,23 +14,75 @@ export class AnalyzeError extends Error {
   }
 }
 
-export async function analyzeUrl(input: string): Promise<SeoAnalysis> {
+export interface AnalyzeOptions {
+  profile?: string
+  /** Fetch hreflang alternates to verify they link back to the page. */
+  checkAlternates?: boolean
+  /** Fetch the canonical URL to verify it is an indexable 200 page. */
+  checkCanonical?: boolean
+  /** Download og:image and twitter:image to check their size; on by default. */
+  checkImages?: boolean
+  /** Request every link on the page to find broken and redirecting links. */
+  checkLinks?: boolean
+  /** Analyze the page after JavaScript runs in a headless browser; URL analyses only. */
+  render?: boolean
+  /** Ignore the server's cached analysis for this URL. */
+  fresh?: boolean
+}
+
+/** Query string shared by `GET /api/analyze` and its streaming variant. */
+export function analyzeParams(input: string, options: AnalyzeOptions): URLSearchParams {
   const url = urlSchema.parse(input)
+  const params = new URLSearchParams({ url })
+  if (options.profile) params.set('profile', options.profile)
+  if (options.checkAlternates) params.set('alternates', 'true')
+  if (options.checkCanonical) params.set('canonical', 'true')
+  if (options.checkImages === false) params.set('images', 'false')
+  if (options.checkLinks) params.set('links', 'true')
+  if (options.render) params.set('render', 'true')
+  if (options.fresh) params.set('fresh', 'true')
+  return params
+}
 
-  const response = await fetch(`/api/analyze?url=${encodeURIComponent(url)}`)
+export async function analyzeHtml(
+  html: string,
+  baseUrl?: string,
+  options: AnalyzeOptions = {}
+): Promise<SeoAnalysis> {
+  const response = await apiFetch('/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      html,
+      ...(baseUrl ? { baseUrl } : {}),
+      ...(options.profile ? { profile: options.profile } : {}),
+      ...(options.checkAlternates ? { checkAlternates: true } : {}),
+      ...(options.checkCanonical ? { checkCanonical: true } : {}),
+      ...(options.checkImages === false ? { checkImages: false } : {}),
+      ...(options.checkLinks ? { checkLinks: true } : {})
+    })
+  })
+  return readJson<SeoAnalysis>(response, 'Analysis failed.')
+}
 
+export async function fetchProfiles(): Promise<ScoringProfileInfo[]> {
+  const response = await apiFetch('/api/profiles')
+  return readJson<ScoringProfileInfo[]>(response, 'Unable to load scoring profiles.')
+}
+
+export async function readJson<T>(response: Response, fallbackError: string): Promise<T> {
   if (!response.ok) {
     const payload = (await safeJson(response)) ?? {}
     const message =
       typeof payload['error'] === 'string'
         ? (payload['error'] as string)
-        : 'Analysis failed.'
+        : fallbackError
 
     throw new AnalyzeError(message, payload['details'])
   }
 
   const data = await response.json()
-  return data as SeoAnalysis
+  return data as T
 }
 
 async function safeJson(
@@ -46,4 +99,3 @@ async function safeJson(
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null
 }
-
@@ -0,0 +1,30 @@
+const STORAGE_KEY = 'seo-analyzer:api-key'
+
+export function getApiKey(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+/** Stores the key for later requests; an empty value removes it. */
+export function setApiKey(key: string): void {
+  const trimmed = key.trim()
+  try {
+    if (trimmed) localStorage.setItem(STORAGE_KEY, trimmed)
+    else localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Storage can be unavailable in private windows; the key then lasts for this page only.
+  }
+}
+
+/** `fetch` for the analyzer API that sends the stored API key, when there is one. */
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const key = getApiKey()
+  if (!key) return fetch(path, init)
+
+  const headers = new Headers(init.headers)
+  headers.set('Authorization', `Bearer ${key}`)
+  return fetch(path, { ...init, headers })
+}
@@ -0,0 +1,12 @@
+import type { AnalysisDiff, CompareRequest } from '../../shared/analysis-types'
+import { readJson } from './analyze'
+import { apiFetch } from './api-key'
+
+export async function compareAnalyses(request: CompareRequest): Promise<AnalysisDiff> {
+  const response = await apiFetch('/api/compare', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  })
+  return readJson<AnalysisDiff>(response, 'Comparison failed.')
+}
@@ -0,0 +1,19 @@
+import type { CrawlReport } from '../../shared/analysis-types'
+import { readJson, urlSchema, type AnalyzeOptions } from './analyze'
+import { apiFetch } from './api-key'
+
+export interface CrawlOptions extends AnalyzeOptions {
+  depth?: number
+  limit?: number
+}
+
+export async function crawlSite(input: string, options: CrawlOptions = {}): Promise<CrawlReport> {
+  const url = urlSchema.parse(input)
+  const params = new URLSearchParams({ url })
+  if (options.depth !== undefined) params.set('depth', String(options.depth))
+  if (options.limit !== undefined) params.set('limit', String(options.limit))
+  if (options.profile) params.set('profile', options.profile)
+
+  const response = await apiFetch(`/api/crawl?${params.toString()}`)
+  return readJson<CrawlReport>(response, 'Crawl failed.')
+}
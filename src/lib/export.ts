@@ -0,0 +1,38 @@
+import type { ExportFormat, ExportSource } from '../../shared/analysis-types'
+import { readJson } from './analyze'
+import { apiFetch } from './api-key'
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  pdf: 'pdf',
+  csv: 'csv',
+  markdown: 'md'
+}
+
+async function requestExport(source: ExportSource, format: ExportFormat): Promise<Response> {
+  const response = await apiFetch('/api/export', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...source, format })
+  })
+  if (!response.ok) await readJson<never>(response, 'Export failed.')
+  return response
+}
+
+/** Renders the report on the server and saves it under the file name the server suggests. */
+export async function downloadReport(source: ExportSource, format: ExportFormat): Promise<void> {
+  const response = await requestExport(source, format)
+  const disposition = response.headers.get('Content-Disposition') ?? ''
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `seo-report.${EXTENSIONS[format]}`
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export async function copyMarkdownReport(source: ExportSource): Promise<void> {
+  const response = await requestExport(source, 'markdown')
+  await navigator.clipboard.writeText(await response.text())
+}
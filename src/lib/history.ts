@@ -0,0 +1,9 @@
+import type { AnalysisHistory } from '../../shared/analysis-types'
+import { readJson } from './analyze'
+import { apiFetch } from './api-key'
+
+export async function fetchHistory(url: string): Promise<AnalysisHistory> {
+  const params = new URLSearchParams({ url })
+  const response = await apiFetch(`/api/history?${params.toString()}`)
+  return readJson<AnalysisHistory>(response, 'Unable to load the analysis history.')
+}
@@ -0,0 +1,50 @@
+import type { Monitor, MonitorInput } from '../../shared/analysis-types'
+import { readJson } from './analyze'
+import { apiFetch } from './api-key'
+
+/** Fields other than the URLs fall back to the server defaults. */
+export type NewMonitor = Pick<MonitorInput, 'url' | 'webhookUrl'> &
+  Partial<Omit<MonitorInput, 'url' | 'webhookUrl'>>
+
+/** `profile: null` switches the monitor back to the default profile. */
+export type MonitorChanges = Partial<Omit<MonitorInput, 'profile'>> & { profile?: string | null }
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' }
+
+export async function fetchMonitors(): Promise<Monitor[]> {
+  const response = await apiFetch('/api/monitors')
+  return readJson<Monitor[]>(response, 'Unable to load monitors.')
+}
+
+export async function createMonitor(monitor: NewMonitor): Promise<Monitor> {
+  const response = await apiFetch('/api/monitors', {
+    method: 'POST',
+    headers: JSON_HEADERS,
+    body: JSON.stringify(monitor)
+  })
+  return readJson<Monitor>(response, 'Unable to create the monitor.')
+}
+
+export async function updateMonitor(id: string, changes: MonitorChanges): Promise<Monitor> {
+  const response = await apiFetch(monitorPath(id), {
+    method: 'PATCH',
+    headers: JSON_HEADERS,
+    body: JSON.stringify(changes)
+  })
+  return readJson<Monitor>(response, 'Unable to update the monitor.')
+}
+
+export async function deleteMonitor(id: string): Promise<void> {
+  const response = await apiFetch(monitorPath(id), { method: 'DELETE' })
+  if (!response.ok) await readJson<never>(response, 'Unable to delete the monitor.')
+}
+
+/** Runs the monitor immediately and resolves with its updated state. */
+export async function runMonitor(id: string): Promise<Monitor> {
+  const response = await apiFetch(`${monitorPath(id)}/run`, { method: 'POST' })
+  return readJson<Monitor>(response, 'The monitor run did not finish.')
+}
+
+function monitorPath(id: string): string {
+  return `/api/monitors/${encodeURIComponent(id)}`
+}
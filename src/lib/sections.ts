@@ -0,0 +1,36 @@
+import type { SectionId } from '../../shared/analysis-types'
+
+/** Order in which the server reports sections. */
+export const SECTION_ORDER: SectionId[] = [
+  'meta',
+  'openGraph',
+  'twitter',
+  'structuredData',
+  'i18n',
+  'http',
+  'content',
+  'links'
+]
+
+export function sectionLabel(section: SectionId): string {
+  switch (section) {
+    case 'meta':
+      return 'Technical SEO'
+    case 'openGraph':
+      return 'Social (Open Graph)'
+    case 'twitter':
+      return 'Twitter Card'
+    case 'structuredData':
+      return 'Structured data'
+    case 'i18n':
+      return 'Internationalization'
+    case 'http':
+      return 'HTTP response'
+    case 'content':
+      return 'Content'
+    case 'links':
+      return 'Links'
+    default:
+      return section
+  }
+}
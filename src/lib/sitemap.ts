@@ -0,0 +1,20 @@
+import type { SitemapReport } from '../../shared/analysis-types'
+import { readJson, urlSchema, type AnalyzeOptions } from './analyze'
+import { apiFetch } from './api-key'
+
+export interface SitemapOptions extends AnalyzeOptions {
+  limit?: number
+}
+
+export async function analyzeSitemap(
+  input: string,
+  options: SitemapOptions = {}
+): Promise<SitemapReport> {
+  const url = urlSchema.parse(input)
+  const params = new URLSearchParams({ url })
+  if (options.limit !== undefined) params.set('limit', String(options.limit))
+  if (options.profile) params.set('profile', options.profile)
+
+  const response = await apiFetch(`/api/sitemap?${params.toString()}`)
+  return readJson<SitemapReport>(response, 'Sitemap analysis failed.')
+}